@@ -1,2 +1,7 @@
 declare module '@strapi/design-system/*';
 declare module '@strapi/design-system';
+
+/** Set by the Strapi admin app; the fetch client prefixes request URLs with backendURL */
+interface Window {
+  strapi: { backendURL: string };
+}
@@ -0,0 +1,106 @@
+import { Box, Button, Table, Tbody, Td, Th, Thead, Tr, Typography } from '@strapi/design-system';
+import { useAPIErrorHandler, useFetchClient, useNotification } from '@strapi/strapi/admin';
+import { useCallback, useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+
+import { PLUGIN_ID } from '../pluginId';
+import type { OAuthGrant } from '../types';
+import { getTranslation } from '../utils/getTranslation';
+
+type ClientGrantsProps = {
+  documentId: string;
+  canManage: boolean;
+};
+
+/**
+ * Users who approved a client on the consent screen
+ */
+const ClientGrants = ({ documentId, canManage }: ClientGrantsProps) => {
+  const { formatMessage, formatDate } = useIntl();
+  const { get, post } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const [grants, setGrants] = useState<OAuthGrant[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      const { data } = await get(`/${PLUGIN_ID}/clients/${documentId}/grants`);
+      setGrants(data.data);
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevoke = async (grant: OAuthGrant) => {
+    try {
+      await post(`/${PLUGIN_ID}/grants/${grant.id}/revoke`);
+      await load();
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  };
+
+  return (
+    <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+      <Box paddingBottom={4}>
+        <Typography variant="delta" tag="h2">
+          {formatMessage({ id: getTranslation('grants.title'), defaultMessage: 'Consent grants' })}
+        </Typography>
+      </Box>
+      {grants.length ? (
+        <Table colCount={4} rowCount={grants.length + 1}>
+          <Thead>
+            <Tr>
+              <Th>
+                <Typography variant="sigma">User</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Scope</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Approved</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Actions</Typography>
+              </Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {grants.map((grant) => (
+              <Tr key={grant.id}>
+                <Td>
+                  <Typography>
+                    {grant.userType} #{grant.userId}
+                  </Typography>
+                </Td>
+                <Td>
+                  <Typography>{grant.scope || 'mcp'}</Typography>
+                </Td>
+                <Td>
+                  <Typography>{formatDate(grant.updatedAt, { dateStyle: 'medium', timeStyle: 'short' })}</Typography>
+                </Td>
+                <Td>
+                  {canManage && (
+                    <Button variant="danger-light" size="S" onClick={() => handleRevoke(grant)}>
+                      {formatMessage({ id: getTranslation('grants.revoke'), defaultMessage: 'Revoke' })}
+                    </Button>
+                  )}
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      ) : (
+        <Typography textColor="neutral600">
+          {formatMessage({ id: getTranslation('grants.empty'), defaultMessage: 'No consent grants' })}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export { ClientGrants };
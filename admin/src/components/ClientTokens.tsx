@@ -0,0 +1,166 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  Flex,
+  Table,
+  Tbody,
+  Td,
+  Th,
+  Thead,
+  Tr,
+  Typography,
+} from '@strapi/design-system';
+import { Trash, WarningCircle } from '@strapi/icons';
+import {
+  ConfirmDialog,
+  useAPIErrorHandler,
+  useFetchClient,
+  useNotification,
+} from '@strapi/strapi/admin';
+import { useCallback, useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+
+import { PLUGIN_ID } from '../pluginId';
+import type { OAuthToken } from '../types';
+import { getTranslation } from '../utils/getTranslation';
+
+type ClientTokensProps = {
+  documentId: string;
+  canManage: boolean;
+};
+
+/**
+ * Active tokens issued to a client, with a button to revoke them all
+ */
+const ClientTokens = ({ documentId, canManage }: ClientTokensProps) => {
+  const { formatMessage, formatDate } = useIntl();
+  const { get, post } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const [tokens, setTokens] = useState<OAuthToken[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      const { data } = await get(`/${PLUGIN_ID}/clients/${documentId}/tokens`);
+      setTokens(data.data);
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevokeAll = async () => {
+    try {
+      const { data } = await post(`/${PLUGIN_ID}/clients/${documentId}/tokens/revoke`);
+      toggleNotification({
+        type: 'success',
+        message: formatMessage(
+          { id: getTranslation('tokens.revoked'), defaultMessage: '{count} token(s) revoked' },
+          { count: data.data.revoked }
+        ),
+      });
+      await load();
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  };
+
+  return (
+    <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+      <Flex justifyContent="space-between" paddingBottom={4}>
+        <Typography variant="delta" tag="h2">
+          {formatMessage(
+            { id: getTranslation('tokens.title'), defaultMessage: 'Active tokens ({count})' },
+            { count: tokens.length }
+          )}
+        </Typography>
+        {canManage && (
+          <Dialog.Root>
+            <Dialog.Trigger>
+              <Button variant="danger-light" startIcon={<Trash />} disabled={!tokens.length}>
+                {formatMessage({ id: getTranslation('tokens.revokeAll'), defaultMessage: 'Revoke all' })}
+              </Button>
+            </Dialog.Trigger>
+            <ConfirmDialog onConfirm={handleRevokeAll} variant="danger" icon={<WarningCircle />}>
+              {formatMessage({
+                id: getTranslation('tokens.revokeAll.confirm'),
+                defaultMessage:
+                  'All access and refresh tokens of this client will stop working. Users will have to authorize it again.',
+              })}
+            </ConfirmDialog>
+          </Dialog.Root>
+        )}
+      </Flex>
+      {tokens.length ? (
+        <Table colCount={6} rowCount={tokens.length + 1}>
+          <Thead>
+            <Tr>
+              <Th>
+                <Typography variant="sigma">User</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Scope</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Resource</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Issued</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Access token expires</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Refresh token expires</Typography>
+              </Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {tokens.map((token) => (
+              <Tr key={token.id}>
+                <Td>
+                  <Typography>{token.userId ? `${token.userType} #${token.userId}` : '-'}</Typography>
+                </Td>
+                <Td>
+                  <Typography>{token.scope || 'mcp'}</Typography>
+                </Td>
+                <Td>
+                  <Typography>
+                    {token.resource ||
+                      formatMessage({
+                        id: getTranslation('tokens.allResources'),
+                        defaultMessage: 'All MCP endpoints',
+                      })}
+                  </Typography>
+                </Td>
+                <Td>
+                  <Typography>{formatDate(token.createdAt, { dateStyle: 'medium', timeStyle: 'short' })}</Typography>
+                </Td>
+                <Td>
+                  <Typography>{formatDate(token.expiresAt, { dateStyle: 'medium', timeStyle: 'short' })}</Typography>
+                </Td>
+                <Td>
+                  <Typography>
+                    {token.grantType === 'client_credentials'
+                      ? '-'
+                      : formatDate(token.refreshExpiresAt, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </Typography>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      ) : (
+        <Typography textColor="neutral600">
+          {formatMessage({ id: getTranslation('tokens.empty'), defaultMessage: 'No active tokens' })}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export { ClientTokens };
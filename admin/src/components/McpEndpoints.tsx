@@ -0,0 +1,101 @@
+import { Badge, Box, Table, Tbody, Td, Th, Thead, Tr, Typography } from '@strapi/design-system';
+import { useAPIErrorHandler, useFetchClient, useNotification } from '@strapi/strapi/admin';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+
+import { PLUGIN_ID } from '../pluginId';
+import type { McpEndpoint } from '../types';
+import { getTranslation } from '../utils/getTranslation';
+
+/**
+ * Protected MCP endpoints, declared by plugins or matched by the endpoint pattern
+ */
+const McpEndpoints = () => {
+  const { formatMessage } = useIntl();
+  const { get } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const [endpoints, setEndpoints] = useState<McpEndpoint[]>([]);
+  const [allowDirectApiTokens, setAllowDirectApiTokens] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await get(`/${PLUGIN_ID}/endpoints`);
+        setEndpoints(data.data);
+        setAllowDirectApiTokens(data.meta.allowDirectApiTokens);
+      } catch (error: any) {
+        toggleNotification({ type: 'danger', message: formatAPIError(error) });
+      }
+    };
+
+    load();
+  }, []);
+
+  return (
+    <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+      <Box paddingBottom={4}>
+        <Typography variant="delta" tag="h2">
+          {formatMessage({ id: getTranslation('endpoints.title'), defaultMessage: 'MCP endpoints' })}
+        </Typography>
+      </Box>
+      {endpoints.length ? (
+        <Table colCount={5} rowCount={endpoints.length + 1}>
+          <Thead>
+            <Tr>
+              <Th>
+                <Typography variant="sigma">Name</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Path</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Scopes</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">API tokens</Typography>
+              </Th>
+              <Th>
+                <Typography variant="sigma">Source</Typography>
+              </Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {endpoints.map((endpoint) => (
+              <Tr key={endpoint.path}>
+                <Td>
+                  <Typography fontWeight="bold">{endpoint.name}</Typography>
+                </Td>
+                <Td>
+                  <Typography variant="pi" tag="code">
+                    {endpoint.path}
+                  </Typography>
+                </Td>
+                <Td>
+                  <Typography>{['mcp', ...endpoint.scopes].join(' ')}</Typography>
+                </Td>
+                <Td>
+                  <Typography>
+                    {endpoint.allowApiTokens ?? allowDirectApiTokens ? 'allowed' : 'rejected'}
+                  </Typography>
+                </Td>
+                <Td>
+                  <Badge>{endpoint.declared ? 'declared' : 'pattern'}</Badge>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      ) : (
+        <Typography textColor="neutral600">
+          {formatMessage({
+            id: getTranslation('endpoints.empty'),
+            defaultMessage: 'No MCP endpoints found',
+          })}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export { McpEndpoints };
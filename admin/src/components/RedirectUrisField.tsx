@@ -0,0 +1,101 @@
+import { Badge, Box, Button, Field, Flex, IconButton, TextInput, Typography } from '@strapi/design-system';
+import { Plus, Trash } from '@strapi/icons';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+
+import { getTranslation } from '../utils/getTranslation';
+import { isWildcardUri, matchRedirectUri } from '../utils/redirectUris';
+
+type RedirectUrisFieldProps = {
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+  error?: string;
+};
+
+/**
+ * Editor for a client's redirect URIs, with a preview of what wildcard patterns match
+ */
+const RedirectUrisField = ({ value, onChange, disabled, error }: RedirectUrisFieldProps) => {
+  const { formatMessage } = useIntl();
+  const [testUri, setTestUri] = useState('');
+
+  const update = (index: number, uri: string) =>
+    onChange(value.map((current, i) => (i === index ? uri : current)));
+
+  const patterns = value.filter(Boolean);
+  const matches = testUri ? matchRedirectUri(testUri, patterns) : null;
+
+  return (
+    <Field.Root error={error} required>
+      <Field.Label>
+        {formatMessage({ id: getTranslation('client.redirectUris'), defaultMessage: 'Redirect URIs' })}
+      </Field.Label>
+      <Flex direction="column" alignItems="stretch" gap={2}>
+        {value.map((uri, index) => (
+          <Flex key={index} gap={2} alignItems="center">
+            <Box flex="1">
+              <TextInput
+                aria-label={`Redirect URI ${index + 1}`}
+                placeholder="https://example.com/callback"
+                value={uri}
+                disabled={disabled}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update(index, e.target.value)}
+              />
+            </Box>
+            {isWildcardUri(uri) && <Badge>wildcard</Badge>}
+            <IconButton
+              label="Remove"
+              disabled={disabled || value.length === 1}
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <Trash />
+            </IconButton>
+          </Flex>
+        ))}
+        <Box>
+          <Button
+            variant="tertiary"
+            startIcon={<Plus />}
+            disabled={disabled}
+            onClick={() => onChange([...value, ''])}
+          >
+            {formatMessage({ id: getTranslation('client.redirectUris.add'), defaultMessage: 'Add URI' })}
+          </Button>
+        </Box>
+        {patterns.some(isWildcardUri) && (
+          <Box background="neutral100" padding={3} hasRadius>
+            <Typography variant="pi">
+              {formatMessage({
+                id: getTranslation('client.redirectUris.preview'),
+                defaultMessage:
+                  '* matches any characters except "/". Enter a URI to check it against the list:',
+              })}
+            </Typography>
+            <Flex gap={2} alignItems="center" paddingTop={2}>
+              <Box flex="1">
+                <TextInput
+                  aria-label="Test redirect URI"
+                  placeholder="https://g-abc123.example.com/callback"
+                  value={testUri}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTestUri(e.target.value)}
+                />
+              </Box>
+              {matches !== null && (
+                <Badge
+                  backgroundColor={matches ? 'success100' : 'danger100'}
+                  textColor={matches ? 'success700' : 'danger700'}
+                >
+                  {matches ? 'allowed' : 'rejected'}
+                </Badge>
+              )}
+            </Flex>
+          </Box>
+        )}
+      </Flex>
+      <Field.Error />
+    </Field.Root>
+  );
+};
+
+export { RedirectUrisField };
@@ -0,0 +1,80 @@
+import { Box, Button, Dialog, Flex, IconButton, Typography } from '@strapi/design-system';
+import { Duplicate } from '@strapi/icons';
+import { useClipboard, useNotification } from '@strapi/strapi/admin';
+import { useIntl } from 'react-intl';
+
+import { getTranslation } from '../utils/getTranslation';
+
+type SecretDialogProps = {
+  clientId: string;
+  secret: string | null;
+  onClose: () => void;
+};
+
+/**
+ * Shows a newly generated client secret. It is not stored in plaintext and can't be shown again.
+ */
+const SecretDialog = ({ clientId, secret, onClose }: SecretDialogProps) => {
+  const { formatMessage } = useIntl();
+  const { copy } = useClipboard();
+  const { toggleNotification } = useNotification();
+
+  const handleCopy = async (value: string) => {
+    if (await copy(value)) {
+      toggleNotification({
+        type: 'info',
+        message: formatMessage({ id: getTranslation('secret.copied'), defaultMessage: 'Copied' }),
+      });
+    }
+  };
+
+  return (
+    <Dialog.Root open={!!secret} onOpenChange={(open: boolean) => !open && onClose()}>
+      <Dialog.Content>
+        <Dialog.Header>
+          {formatMessage({ id: getTranslation('secret.title'), defaultMessage: 'Client secret' })}
+        </Dialog.Header>
+        <Dialog.Body>
+          <Flex direction="column" alignItems="stretch" gap={4}>
+            <Typography variant="omega">
+              {formatMessage({
+                id: getTranslation('secret.warning'),
+                defaultMessage:
+                  'Copy the secret now. It is stored hashed and will not be shown again.',
+              })}
+            </Typography>
+            {[
+              { label: 'Client ID', value: clientId },
+              { label: 'Client secret', value: secret ?? '' },
+            ].map(({ label, value }) => (
+              <Box key={label}>
+                <Typography variant="pi" fontWeight="bold">
+                  {label}
+                </Typography>
+                <Flex gap={2} alignItems="center">
+                  <Box background="neutral100" padding={2} hasRadius style={{ wordBreak: 'break-all' }}>
+                    <Typography variant="pi" tag="code">
+                      {value}
+                    </Typography>
+                  </Box>
+                  <IconButton label={`Copy ${label}`} onClick={() => handleCopy(value)}>
+                    <Duplicate />
+                  </IconButton>
+                </Flex>
+              </Box>
+            ))}
+          </Flex>
+        </Dialog.Body>
+        <Dialog.Footer>
+          <Dialog.Cancel>
+            <Button fullWidth>
+              {formatMessage({ id: getTranslation('secret.done'), defaultMessage: 'Done' })}
+            </Button>
+          </Dialog.Cancel>
+        </Dialog.Footer>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
+
+export { SecretDialog };
@@ -1,4 +1,5 @@
 import { getTranslation } from './utils/getTranslation';
+import { PERMISSIONS } from './permissions';
 import { PLUGIN_ID } from './pluginId';
 import { Initializer } from './components/Initializer';
 import { PluginIcon } from './components/PluginIcon';
@@ -12,6 +13,7 @@ export default {
         id: `${PLUGIN_ID}.plugin.name`,
         defaultMessage: PLUGIN_ID,
       },
+      permissions: PERMISSIONS.read,
       Component: async () => {
         const { App } = await import('./pages/App');
 
@@ -19,6 +21,25 @@ export default {
       },
     });
 
+    // Every admin user can manage the clients they authorized themselves
+    app.addSettingsLink(
+      {
+        id: PLUGIN_ID,
+        intlLabel: { id: `${PLUGIN_ID}.plugin.name`, defaultMessage: 'OAuth MCP Manager' },
+      },
+      {
+        id: `${PLUGIN_ID}-authorized-apps`,
+        to: `${PLUGIN_ID}/authorized-apps`,
+        intlLabel: { id: `${PLUGIN_ID}.apps.title`, defaultMessage: 'Authorized apps' },
+        permissions: [],
+        Component: async () => {
+          const { AuthorizedAppsPage } = await import('./pages/AuthorizedAppsPage');
+
+          return { default: AuthorizedAppsPage };
+        },
+      }
+    );
+
     app.registerPlugin({
       id: PLUGIN_ID,
       initializer: Initializer,
@@ -1,14 +1,21 @@
 import { Page } from '@strapi/strapi/admin';
 import { Routes, Route } from 'react-router-dom';
 
+import { PERMISSIONS } from '../permissions';
+import { AuditPage } from './AuditPage';
+import { ClientPage } from './ClientPage';
 import { HomePage } from './HomePage';
 
 const App = () => {
   return (
-    <Routes>
-      <Route index element={<HomePage />} />
-      <Route path="*" element={<Page.Error />} />
-    </Routes>
+    <Page.Protect permissions={PERMISSIONS.read}>
+      <Routes>
+        <Route index element={<HomePage />} />
+        <Route path="clients/:id" element={<ClientPage />} />
+        <Route path="audit" element={<AuditPage />} />
+        <Route path="*" element={<Page.Error />} />
+      </Routes>
+    </Page.Protect>
   );
 };
 
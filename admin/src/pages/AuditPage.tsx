@@ -0,0 +1,333 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Field,
+  Flex,
+  Grid,
+  SingleSelect,
+  SingleSelectOption,
+  Table,
+  Tbody,
+  Td,
+  TextInput,
+  Th,
+  Thead,
+  Tr,
+  Typography,
+} from '@strapi/design-system';
+import { Download } from '@strapi/icons';
+import {
+  BackButton,
+  Layouts,
+  Page,
+  useAPIErrorHandler,
+  useAuth,
+  useFetchClient,
+  useNotification,
+} from '@strapi/strapi/admin';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+
+import { PLUGIN_ID } from '../pluginId';
+import type { AuditEvent } from '../types';
+import { getTranslation } from '../utils/getTranslation';
+
+type Filters = {
+  event: string;
+  outcome: string;
+  clientId: string;
+  from: string;
+  to: string;
+};
+
+type Pagination = {
+  page: number;
+  pageCount: number;
+  total: number;
+};
+
+const EMPTY_FILTERS: Filters = { event: '', outcome: '', clientId: '', from: '', to: '' };
+
+/**
+ * Query string for the filters. Dates cover whole days in local time.
+ */
+function toQuery(filters: Filters, extra: Record<string, string | number> = {}) {
+  const params = new URLSearchParams();
+  for (const key of ['event', 'outcome', 'clientId'] as const) {
+    if (filters[key]) {
+      params.set(key, filters[key]);
+    }
+  }
+  if (filters.from) {
+    params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+  for (const [key, value] of Object.entries(extra)) {
+    params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+const AuditPage = () => {
+  const { formatMessage, formatDate } = useIntl();
+  const { get } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const token = useAuth('AuditPage', (state) => state.token);
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, pageCount: 0, total: 0 });
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await get(`/${PLUGIN_ID}/audit-events?${toQuery(filters, { page })}`);
+        setEvents(data.data);
+        setEventTypes(data.meta.events);
+        setPagination(data.meta.pagination);
+      } catch (error: any) {
+        toggleNotification({ type: 'danger', message: formatAPIError(error) });
+        setEvents([]);
+      }
+    };
+    load();
+  }, [filters, page]);
+
+  const setField = (key: keyof Filters, value: string) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  /**
+   * The fetch client always parses JSON, so downloads go through fetch directly
+   */
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const response = await fetch(
+        `${window.strapi.backendURL}/${PLUGIN_ID}/audit-events/export?${toQuery(filters, { format })}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-events.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: error.message });
+    }
+  };
+
+  if (!events) {
+    return <Page.Loading />;
+  }
+
+  const title = formatMessage({ id: getTranslation('audit.title'), defaultMessage: 'Audit log' });
+
+  return (
+    <Page.Main>
+      <Page.Title>{title}</Page.Title>
+      <Layouts.Header
+        navigationAction={<BackButton fallback=".." disabled={false} />}
+        title={title}
+        subtitle={formatMessage({
+          id: getTranslation('audit.subtitle'),
+          defaultMessage: 'OAuth and MCP authentication events',
+        })}
+        primaryAction={
+          <Flex gap={2}>
+            <Button variant="secondary" startIcon={<Download />} onClick={() => handleExport('csv')}>
+              CSV
+            </Button>
+            <Button variant="secondary" startIcon={<Download />} onClick={() => handleExport('json')}>
+              JSON
+            </Button>
+          </Flex>
+        }
+      />
+      <Layouts.Content>
+        <Flex direction="column" alignItems="stretch" gap={6}>
+          <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+            <form onSubmit={handleFilter}>
+              <Grid.Root gap={4}>
+                <Grid.Item col={3} s={6} direction="column" alignItems="stretch">
+                  <Field.Root>
+                    <Field.Label>Event</Field.Label>
+                    <SingleSelect
+                      value={draft.event}
+                      onChange={(value: string) => setField('event', value)}
+                      onClear={() => setField('event', '')}
+                    >
+                      {eventTypes.map((event) => (
+                        <SingleSelectOption key={event} value={event}>
+                          {event}
+                        </SingleSelectOption>
+                      ))}
+                    </SingleSelect>
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={2} s={6} direction="column" alignItems="stretch">
+                  <Field.Root>
+                    <Field.Label>Outcome</Field.Label>
+                    <SingleSelect
+                      value={draft.outcome}
+                      onChange={(value: string) => setField('outcome', value)}
+                      onClear={() => setField('outcome', '')}
+                    >
+                      <SingleSelectOption value="success">success</SingleSelectOption>
+                      <SingleSelectOption value="failure">failure</SingleSelectOption>
+                    </SingleSelect>
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={3} s={12} direction="column" alignItems="stretch">
+                  <Field.Root>
+                    <Field.Label>Client ID</Field.Label>
+                    <TextInput
+                      value={draft.clientId}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setField('clientId', e.target.value.trim())
+                      }
+                    />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={2} s={6} direction="column" alignItems="stretch">
+                  <Field.Root>
+                    <Field.Label>From</Field.Label>
+                    <TextInput
+                      type="date"
+                      value={draft.from}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setField('from', e.target.value)}
+                    />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={2} s={6} direction="column" alignItems="stretch">
+                  <Field.Root>
+                    <Field.Label>To</Field.Label>
+                    <TextInput
+                      type="date"
+                      value={draft.to}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setField('to', e.target.value)}
+                    />
+                  </Field.Root>
+                </Grid.Item>
+              </Grid.Root>
+              <Flex justifyContent="flex-end" paddingTop={4}>
+                <Button type="submit">
+                  {formatMessage({ id: getTranslation('audit.filter'), defaultMessage: 'Filter' })}
+                </Button>
+              </Flex>
+            </form>
+          </Box>
+          <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+            {events.length ? (
+              <Table colCount={6} rowCount={events.length + 1}>
+                <Thead>
+                  <Tr>
+                    <Th>
+                      <Typography variant="sigma">Time</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">Event</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">Outcome</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">Client ID</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">IP</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">Details</Typography>
+                    </Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {events.map((event) => (
+                    <Tr key={event.id}>
+                      <Td>
+                        <Typography>
+                          {formatDate(event.createdAt, { dateStyle: 'medium', timeStyle: 'medium' })}
+                        </Typography>
+                      </Td>
+                      <Td>
+                        <Typography>{event.event}</Typography>
+                      </Td>
+                      <Td>
+                        <Badge
+                          backgroundColor={event.outcome === 'success' ? 'success100' : 'danger100'}
+                          textColor={event.outcome === 'success' ? 'success700' : 'danger700'}
+                        >
+                          {event.outcome}
+                        </Badge>
+                      </Td>
+                      <Td>
+                        <Typography variant="pi" tag="code">
+                          {event.clientId ?? '-'}
+                        </Typography>
+                      </Td>
+                      <Td>
+                        <Typography>{event.ip ?? '-'}</Typography>
+                      </Td>
+                      <Td>
+                        <Typography variant="pi" tag="code">
+                          {event.details ? JSON.stringify(event.details) : '-'}
+                        </Typography>
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            ) : (
+              <Typography textColor="neutral600">
+                {formatMessage({ id: getTranslation('audit.empty'), defaultMessage: 'No audit events' })}
+              </Typography>
+            )}
+            {pagination.pageCount > 1 && (
+              <Flex justifyContent="space-between" paddingTop={4}>
+                <Typography textColor="neutral600">
+                  {formatMessage(
+                    {
+                      id: getTranslation('audit.pagination'),
+                      defaultMessage: 'Page {page} of {pageCount} ({total} events)',
+                    },
+                    pagination
+                  )}
+                </Typography>
+                <Flex gap={2}>
+                  <Button variant="tertiary" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    {formatMessage({ id: getTranslation('audit.previous'), defaultMessage: 'Previous' })}
+                  </Button>
+                  <Button
+                    variant="tertiary"
+                    disabled={page >= pagination.pageCount}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    {formatMessage({ id: getTranslation('audit.next'), defaultMessage: 'Next' })}
+                  </Button>
+                </Flex>
+              </Flex>
+            )}
+          </Box>
+        </Flex>
+      </Layouts.Content>
+    </Page.Main>
+  );
+};
+
+export { AuditPage };
@@ -0,0 +1,138 @@
+import { Box, Button, Table, Tbody, Td, Th, Thead, Tr, Typography } from '@strapi/design-system';
+import {
+  Layouts,
+  Page,
+  useAPIErrorHandler,
+  useFetchClient,
+  useNotification,
+} from '@strapi/strapi/admin';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+
+import { PLUGIN_ID } from '../pluginId';
+import type { AuthorizedApp } from '../types';
+import { getTranslation } from '../utils/getTranslation';
+
+/**
+ * Clients the signed-in admin user has authorized, in the settings. Open to every admin user.
+ */
+const AuthorizedAppsPage = () => {
+  const { formatMessage, formatDate } = useIntl();
+  const { get, post } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const [apps, setApps] = useState<AuthorizedApp[] | null>(null);
+
+  const load = async () => {
+    try {
+      const { data } = await get(`/${PLUGIN_ID}/account/apps`);
+      setApps(data.data);
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+      setApps([]);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleRevoke = async (app: AuthorizedApp) => {
+    try {
+      await post(`/${PLUGIN_ID}/account/apps/${encodeURIComponent(app.clientId)}/revoke`);
+      toggleNotification({
+        type: 'success',
+        message: formatMessage(
+          { id: getTranslation('apps.revoked'), defaultMessage: '{name} can no longer access your account' },
+          { name: app.name }
+        ),
+      });
+      await load();
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  };
+
+  if (!apps) {
+    return <Page.Loading />;
+  }
+
+  const title = formatMessage({ id: getTranslation('apps.title'), defaultMessage: 'Authorized apps' });
+
+  return (
+    <Page.Main>
+      <Page.Title>{title}</Page.Title>
+      <Layouts.Header
+        title={title}
+        subtitle={formatMessage({
+          id: getTranslation('apps.subtitle'),
+          defaultMessage: 'Applications you allowed to use MCP endpoints on your behalf',
+        })}
+      />
+      <Layouts.Content>
+        <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+          {apps.length ? (
+            <Table colCount={5} rowCount={apps.length + 1}>
+              <Thead>
+                <Tr>
+                  <Th>
+                    <Typography variant="sigma">App</Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma">Scope</Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma">Approved</Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma">Active tokens</Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma">Actions</Typography>
+                  </Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {apps.map((app) => (
+                  <Tr key={app.clientId}>
+                    <Td>
+                      <Typography fontWeight="bold">{app.name}</Typography>
+                      {app.description && (
+                        <Typography variant="pi" textColor="neutral600" tag="p">
+                          {app.description}
+                        </Typography>
+                      )}
+                    </Td>
+                    <Td>
+                      <Typography>{app.scope || 'mcp'}</Typography>
+                    </Td>
+                    <Td>
+                      <Typography>{formatDate(app.approvedAt, { dateStyle: 'medium', timeStyle: 'short' })}</Typography>
+                    </Td>
+                    <Td>
+                      <Typography>{app.activeTokens}</Typography>
+                    </Td>
+                    <Td>
+                      <Button variant="danger-light" size="S" onClick={() => handleRevoke(app)}>
+                        {formatMessage({ id: getTranslation('apps.revoke'), defaultMessage: 'Revoke access' })}
+                      </Button>
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          ) : (
+            <Typography textColor="neutral600">
+              {formatMessage({
+                id: getTranslation('apps.empty'),
+                defaultMessage: 'You have not authorized any apps',
+              })}
+            </Typography>
+          )}
+        </Box>
+      </Layouts.Content>
+    </Page.Main>
+  );
+};
+
+export { AuthorizedAppsPage };
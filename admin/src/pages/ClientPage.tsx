@@ -0,0 +1,465 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  Field,
+  Flex,
+  Grid,
+  MultiSelect,
+  MultiSelectOption,
+  NumberInput,
+  SingleSelect,
+  SingleSelectOption,
+  Textarea,
+  TextInput,
+  Toggle,
+  Typography,
+} from '@strapi/design-system';
+import { ArrowClockwise, Check, WarningCircle } from '@strapi/icons';
+import {
+  BackButton,
+  ConfirmDialog,
+  Layouts,
+  Page,
+  useAPIErrorHandler,
+  useFetchClient,
+  useNotification,
+  useRBAC,
+} from '@strapi/strapi/admin';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import { ClientGrants } from '../components/ClientGrants';
+import { ClientTokens } from '../components/ClientTokens';
+import { RedirectUrisField } from '../components/RedirectUrisField';
+import { SecretDialog } from '../components/SecretDialog';
+import { PERMISSIONS } from '../permissions';
+import { PLUGIN_ID } from '../pluginId';
+import type { ClientType, GrantType, OAuthClient } from '../types';
+import { getTranslation } from '../utils/getTranslation';
+
+type FormValues = {
+  name: string;
+  clientType: ClientType;
+  description: string;
+  redirectUris: string[];
+  requirePkce: boolean;
+  allowedScopes: string[];
+  allowedGrantTypes: GrantType[];
+  apiTokenId: number | null;
+  strapiApiToken: string;
+  accessTokenTtl: number | null;
+  refreshTokenTtl: number | null;
+  active: boolean;
+};
+
+const EMPTY_FORM: FormValues = {
+  name: '',
+  clientType: 'confidential',
+  description: '',
+  redirectUris: [''],
+  requirePkce: false,
+  allowedScopes: [],
+  allowedGrantTypes: [],
+  apiTokenId: null,
+  strapiApiToken: '',
+  accessTokenTtl: null,
+  refreshTokenTtl: null,
+  active: true,
+};
+
+const toFormValues = (client: OAuthClient): FormValues => ({
+  name: client.name,
+  clientType: client.clientType,
+  description: client.description ?? '',
+  redirectUris: client.redirectUris?.length ? client.redirectUris : [''],
+  requirePkce: client.requirePkce ?? false,
+  allowedScopes: client.allowedScopes ?? [],
+  allowedGrantTypes: client.allowedGrantTypes ?? [],
+  apiTokenId: client.apiTokenId,
+  strapiApiToken: '',
+  accessTokenTtl: client.accessTokenTtl,
+  refreshTokenTtl: client.refreshTokenTtl,
+  active: client.active,
+});
+
+/**
+ * Request body for the admin API. The pasted API token is only sent when it was changed.
+ */
+const toRequestBody = (values: FormValues, isCreating: boolean) => {
+  const { clientType, strapiApiToken, ...rest } = values;
+  return {
+    ...rest,
+    ...(isCreating ? { clientType } : {}),
+    ...(strapiApiToken ? { strapiApiToken } : {}),
+    redirectUris: values.redirectUris.map((uri) => uri.trim()).filter(Boolean),
+    allowedScopes: values.allowedScopes.length ? values.allowedScopes : null,
+    allowedGrantTypes: values.allowedGrantTypes.length ? values.allowedGrantTypes : null,
+  };
+};
+
+const ClientPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const isCreating = id === 'create';
+  const navigate = useNavigate();
+  const { formatMessage } = useIntl();
+  const { get, post, put } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const {
+    allowedActions: { canManage },
+  } = useRBAC({ manage: PERMISSIONS.manage });
+
+  const [client, setClient] = useState<OAuthClient | null>(null);
+  const [values, setValues] = useState<FormValues>(EMPTY_FORM);
+  const [supportedScopes, setSupportedScopes] = useState<string[]>([]);
+  const [supportedGrantTypes, setSupportedGrantTypes] = useState<GrantType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await get(`/${PLUGIN_ID}/clients${isCreating ? '' : `/${id}`}`);
+        setSupportedScopes(data.meta.supportedScopes);
+        setSupportedGrantTypes(data.meta.supportedGrantTypes);
+        if (!isCreating) {
+          setClient(data.data);
+          setValues(toFormValues(data.data));
+        }
+      } catch (error: any) {
+        toggleNotification({ type: 'danger', message: formatAPIError(error) });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [id]);
+
+  const setField = <K extends keyof FormValues>(key: K, value: FormValues[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const body = toRequestBody(values, isCreating);
+      if (isCreating) {
+        const { data } = await post(`/${PLUGIN_ID}/clients`, body);
+        setClient(data.data);
+        setSecret(data.meta.clientSecret);
+        if (!data.meta.clientSecret) {
+          navigate(`../clients/${data.data.documentId}`, { replace: true });
+        }
+      } else {
+        const { data } = await put(`/${PLUGIN_ID}/clients/${id}`, body);
+        setClient(data.data);
+        setValues(toFormValues(data.data));
+        toggleNotification({
+          type: 'success',
+          message: formatMessage({ id: getTranslation('client.saved'), defaultMessage: 'Saved' }),
+        });
+      }
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRotateSecret = async () => {
+    try {
+      const { data } = await post(`/${PLUGIN_ID}/clients/${id}/rotate-secret`);
+      setClient(data.data);
+      setSecret(data.meta.clientSecret);
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  };
+
+  const handleSecretClosed = () => {
+    setSecret(null);
+    if (isCreating && client) {
+      navigate(`../clients/${client.documentId}`, { replace: true });
+    }
+  };
+
+  if (isLoading) {
+    return <Page.Loading />;
+  }
+
+  if (!isCreating && !client) {
+    return <Page.Error />;
+  }
+
+  const disabled = !canManage || isSaving;
+  const title = isCreating
+    ? formatMessage({ id: getTranslation('client.create'), defaultMessage: 'Create OAuth client' })
+    : client!.name;
+
+  return (
+    <Page.Main>
+      <Page.Title>{title}</Page.Title>
+      <form onSubmit={handleSubmit}>
+        <Layouts.Header
+          navigationAction={<BackButton fallback=".." disabled={false} />}
+          title={title}
+          subtitle={client?.clientId}
+          primaryAction={
+            canManage && (
+              <Button type="submit" startIcon={<Check />} loading={isSaving}>
+                {formatMessage({ id: getTranslation('client.save'), defaultMessage: 'Save' })}
+              </Button>
+            )
+          }
+        />
+        <Layouts.Content>
+          <Flex direction="column" alignItems="stretch" gap={6}>
+            <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+              <Grid.Root gap={5}>
+                <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                  <Field.Root required>
+                    <Field.Label>Name</Field.Label>
+                    <TextInput
+                      value={values.name}
+                      disabled={disabled}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setField('name', e.target.value)
+                      }
+                    />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                  <Field.Root
+                    hint={
+                      isCreating
+                        ? 'Public clients (SPAs, native apps) have no secret and must use PKCE'
+                        : 'The client type cannot be changed after creation'
+                    }
+                  >
+                    <Field.Label>Client type</Field.Label>
+                    <SingleSelect
+                      value={values.clientType}
+                      disabled={disabled || !isCreating}
+                      onChange={(value: ClientType) => setField('clientType', value)}
+                    >
+                      <SingleSelectOption value="confidential">confidential</SingleSelectOption>
+                      <SingleSelectOption value="public">public</SingleSelectOption>
+                    </SingleSelect>
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={12} direction="column" alignItems="stretch">
+                  <Field.Root>
+                    <Field.Label>Description</Field.Label>
+                    <Textarea
+                      value={values.description}
+                      disabled={disabled}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                        setField('description', e.target.value)
+                      }
+                    />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={12} direction="column" alignItems="stretch">
+                  <RedirectUrisField
+                    value={values.redirectUris}
+                    disabled={disabled}
+                    onChange={(uris) => setField('redirectUris', uris)}
+                  />
+                </Grid.Item>
+                <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                  <Field.Root hint="Leave empty to allow all scopes (mcp)">
+                    <Field.Label>Allowed scopes</Field.Label>
+                    <MultiSelect
+                      value={values.allowedScopes}
+                      disabled={disabled}
+                      withTags
+                      onChange={(scopes: string[]) => setField('allowedScopes', scopes)}
+                    >
+                      {supportedScopes.map((scope) => (
+                        <MultiSelectOption key={scope} value={scope}>
+                          {scope}
+                        </MultiSelectOption>
+                      ))}
+                    </MultiSelect>
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                  <Field.Root hint="Leave empty for authorization_code and refresh_token. client_credentials is only available to confidential clients. The device_code grant is for CLIs and headless clients">
+                    <Field.Label>Allowed grant types</Field.Label>
+                    <MultiSelect
+                      value={values.allowedGrantTypes}
+                      disabled={disabled}
+                      withTags
+                      onChange={(grantTypes: GrantType[]) => setField('allowedGrantTypes', grantTypes)}
+                    >
+                      {supportedGrantTypes
+                        .filter(
+                          (grantType) =>
+                            grantType !== 'client_credentials' || values.clientType === 'confidential'
+                        )
+                        .map((grantType) => (
+                          <MultiSelectOption key={grantType} value={grantType}>
+                            {grantType}
+                          </MultiSelectOption>
+                        ))}
+                    </MultiSelect>
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={3} s={6} direction="column" alignItems="stretch">
+                  <Field.Root hint="Public clients always require PKCE">
+                    <Field.Label>Require PKCE</Field.Label>
+                    <Toggle
+                      onLabel="Yes"
+                      offLabel="No"
+                      checked={values.clientType === 'public' || values.requirePkce}
+                      disabled={disabled || values.clientType === 'public'}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setField('requirePkce', e.target.checked)
+                      }
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={3} s={6} direction="column" alignItems="stretch">
+                  <Field.Root hint="Inactive clients cannot authorize and their tokens are rejected">
+                    <Field.Label>Active</Field.Label>
+                    <Toggle
+                      onLabel="Active"
+                      offLabel="Inactive"
+                      checked={values.active}
+                      disabled={disabled}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setField('active', e.target.checked)
+                      }
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={4} s={12} direction="column" alignItems="stretch">
+                  <Field.Root hint="Id of the Strapi API token the client acts with (Settings → API Tokens)">
+                    <Field.Label>API token id</Field.Label>
+                    <NumberInput
+                      value={values.apiTokenId ?? undefined}
+                      disabled={disabled || client?.ownsApiToken}
+                      onValueChange={(value: number | undefined) =>
+                        setField('apiTokenId', value ?? null)
+                      }
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={8} s={12} direction="column" alignItems="stretch">
+                  <Field.Root
+                    hint={
+                      client?.hasStrapiApiToken
+                        ? 'A token is stored. Paste a new one to replace it'
+                        : 'Used when no API token id is set'
+                    }
+                  >
+                    <Field.Label>Strapi API token</Field.Label>
+                    <TextInput
+                      type="password"
+                      autoComplete="off"
+                      value={values.strapiApiToken}
+                      disabled={disabled || client?.ownsApiToken}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setField('strapiApiToken', e.target.value)
+                      }
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                  <Field.Root hint="Seconds. Leave empty to use the plugin default">
+                    <Field.Label>Access token lifetime</Field.Label>
+                    <NumberInput
+                      value={values.accessTokenTtl ?? undefined}
+                      disabled={disabled}
+                      onValueChange={(value: number | undefined) =>
+                        setField('accessTokenTtl', value ?? null)
+                      }
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+                <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                  <Field.Root hint="Seconds. Leave empty to use the plugin default">
+                    <Field.Label>Refresh token lifetime</Field.Label>
+                    <NumberInput
+                      value={values.refreshTokenTtl ?? undefined}
+                      disabled={disabled}
+                      onValueChange={(value: number | undefined) =>
+                        setField('refreshTokenTtl', value ?? null)
+                      }
+                    />
+                    <Field.Hint />
+                  </Field.Root>
+                </Grid.Item>
+              </Grid.Root>
+            </Box>
+
+            {client?.clientType === 'confidential' && (
+              <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+                <Flex justifyContent="space-between">
+                  <Flex direction="column" alignItems="flex-start" gap={1}>
+                    <Typography variant="delta" tag="h2">
+                      {formatMessage({ id: getTranslation('secret.title'), defaultMessage: 'Client secret' })}
+                    </Typography>
+                    <Typography variant="pi" textColor="neutral600">
+                      {formatMessage({
+                        id: getTranslation('secret.hint'),
+                        defaultMessage:
+                          'The secret is stored hashed. Rotating it invalidates the current secret immediately.',
+                      })}
+                    </Typography>
+                  </Flex>
+                  {canManage && (
+                    <Dialog.Root>
+                      <Dialog.Trigger>
+                        <Button variant="secondary" startIcon={<ArrowClockwise />}>
+                          {formatMessage({
+                            id: getTranslation('secret.rotate'),
+                            defaultMessage: 'Rotate secret',
+                          })}
+                        </Button>
+                      </Dialog.Trigger>
+                      <ConfirmDialog
+                        onConfirm={handleRotateSecret}
+                        variant="default"
+                        icon={<WarningCircle />}
+                      >
+                        {formatMessage({
+                          id: getTranslation('secret.rotate.confirm'),
+                          defaultMessage:
+                            'The client will fail to exchange codes and refresh tokens until it is updated with the new secret.',
+                        })}
+                      </ConfirmDialog>
+                    </Dialog.Root>
+                  )}
+                </Flex>
+              </Box>
+            )}
+
+            {client && !isCreating && (
+              <>
+                <ClientTokens documentId={client.documentId} canManage={canManage} />
+                <ClientGrants documentId={client.documentId} canManage={canManage} />
+              </>
+            )}
+          </Flex>
+        </Layouts.Content>
+      </form>
+      {client && <SecretDialog clientId={client.clientId} secret={secret} onClose={handleSecretClosed} />}
+    </Page.Main>
+  );
+};
+
+export { ClientPage };
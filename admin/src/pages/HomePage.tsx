@@ -1,15 +1,180 @@
-import { Main } from '@strapi/design-system';
+import {
+  Badge,
+  Box,
+  Button,
+  EmptyStateLayout,
+  Flex,
+  IconButton,
+  Table,
+  Tbody,
+  Td,
+  Th,
+  Thead,
+  Tr,
+  Typography,
+} from '@strapi/design-system';
+import { ClockCounterClockwise, Pencil, Plus } from '@strapi/icons';
+import {
+  Layouts,
+  Page,
+  useAPIErrorHandler,
+  useFetchClient,
+  useNotification,
+  useRBAC,
+} from '@strapi/strapi/admin';
+import { useEffect, useState } from 'react';
 import { useIntl } from 'react-intl';
+import { useNavigate } from 'react-router-dom';
 
+import { McpEndpoints } from '../components/McpEndpoints';
+import { PERMISSIONS } from '../permissions';
+import { PLUGIN_ID } from '../pluginId';
+import type { OAuthClient } from '../types';
 import { getTranslation } from '../utils/getTranslation';
 
 const HomePage = () => {
   const { formatMessage } = useIntl();
+  const navigate = useNavigate();
+  const { get, put } = useFetchClient();
+  const { toggleNotification } = useNotification();
+  const { formatAPIError } = useAPIErrorHandler();
+  const {
+    allowedActions: { canManage },
+  } = useRBAC({ manage: PERMISSIONS.manage });
+  const [clients, setClients] = useState<OAuthClient[] | null>(null);
+
+  const load = async () => {
+    try {
+      const { data } = await get(`/${PLUGIN_ID}/clients`);
+      setClients(data.data);
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+      setClients([]);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const toggleActive = async (client: OAuthClient) => {
+    try {
+      await put(`/${PLUGIN_ID}/clients/${client.documentId}`, { active: !client.active });
+      await load();
+    } catch (error: any) {
+      toggleNotification({ type: 'danger', message: formatAPIError(error) });
+    }
+  };
+
+  if (!clients) {
+    return <Page.Loading />;
+  }
+
+  const createButton = canManage && (
+    <Button startIcon={<Plus />} onClick={() => navigate('clients/create')}>
+      {formatMessage({ id: getTranslation('clients.create'), defaultMessage: 'Create client' })}
+    </Button>
+  );
 
   return (
-    <Main>
-      <h1>Welcome to {formatMessage({ id: getTranslation('plugin.name') })}</h1>
-    </Main>
+    <Page.Main>
+      <Page.Title>{formatMessage({ id: getTranslation('plugin.name'), defaultMessage: 'OAuth MCP Manager' })}</Page.Title>
+      <Layouts.Header
+        title={formatMessage({ id: getTranslation('clients.title'), defaultMessage: 'OAuth clients' })}
+        subtitle={formatMessage({
+          id: getTranslation('clients.subtitle'),
+          defaultMessage: 'Applications allowed to access MCP endpoints',
+        })}
+        primaryAction={createButton}
+        secondaryAction={
+          <Button variant="tertiary" startIcon={<ClockCounterClockwise />} onClick={() => navigate('audit')}>
+            {formatMessage({ id: getTranslation('audit.title'), defaultMessage: 'Audit log' })}
+          </Button>
+        }
+      />
+      <Layouts.Content>
+        {clients.length ? (
+          <Table colCount={6} rowCount={clients.length + 1}>
+            <Thead>
+              <Tr>
+                <Th>
+                  <Typography variant="sigma">Name</Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">Client ID</Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">Type</Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">Redirect URIs</Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">Status</Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">Actions</Typography>
+                </Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {clients.map((client) => (
+                <Tr key={client.documentId}>
+                  <Td>
+                    <Typography fontWeight="bold">{client.name}</Typography>
+                  </Td>
+                  <Td>
+                    <Typography variant="pi" tag="code">
+                      {client.clientId}
+                    </Typography>
+                  </Td>
+                  <Td>
+                    <Typography>{client.clientType}</Typography>
+                  </Td>
+                  <Td>
+                    <Typography>{client.redirectUris?.length ?? 0}</Typography>
+                  </Td>
+                  <Td>
+                    <Badge
+                      backgroundColor={client.active ? 'success100' : 'neutral150'}
+                      textColor={client.active ? 'success700' : 'neutral600'}
+                    >
+                      {client.active ? 'active' : 'inactive'}
+                    </Badge>
+                  </Td>
+                  <Td>
+                    <Flex gap={2}>
+                      <IconButton
+                        label={`Edit ${client.name}`}
+                        onClick={() => navigate(`clients/${client.documentId}`)}
+                      >
+                        <Pencil />
+                      </IconButton>
+                      {canManage && (
+                        <Button variant="tertiary" size="S" onClick={() => toggleActive(client)}>
+                          {client.active ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      )}
+                    </Flex>
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        ) : (
+          <EmptyStateLayout
+            content={formatMessage({
+              id: getTranslation('clients.empty'),
+              defaultMessage: 'No OAuth clients yet',
+            })}
+            action={createButton}
+          />
+        )}
+        <Box paddingTop={6}>
+          <McpEndpoints />
+        </Box>
+      </Layouts.Content>
+    </Page.Main>
   );
 };
 
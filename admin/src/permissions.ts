@@ -0,0 +1,8 @@
+import { PLUGIN_ID } from './pluginId';
+
+const PERMISSIONS = {
+  read: [{ action: `plugin::${PLUGIN_ID}.read`, subject: null }],
+  manage: [{ action: `plugin::${PLUGIN_ID}.manage`, subject: null }],
+};
+
+export { PERMISSIONS };
@@ -0,0 +1,86 @@
+type ClientType = 'confidential' | 'public';
+
+type GrantType =
+  | 'authorization_code'
+  | 'refresh_token'
+  | 'client_credentials'
+  | 'urn:ietf:params:oauth:grant-type:device_code';
+
+interface OAuthClient {
+  documentId: string;
+  name: string;
+  clientId: string;
+  clientType: ClientType;
+  redirectUris: string[];
+  requirePkce: boolean;
+  allowedScopes: string[] | null;
+  allowedGrantTypes: GrantType[] | null;
+  apiTokenId: number | null;
+  ownsApiToken: boolean;
+  accessTokenTtl: number | null;
+  refreshTokenTtl: number | null;
+  description: string | null;
+  active: boolean;
+  hasClientSecret: boolean;
+  hasStrapiApiToken: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface OAuthToken {
+  id: string;
+  scope: string | null;
+  resource: string | null;
+  grantType: GrantType | null;
+  userId: string | null;
+  userType: 'admin' | 'users-permissions' | null;
+  familyId: string | null;
+  expiresAt: string;
+  /** Equals expiresAt for tokens issued without a refresh token */
+  refreshExpiresAt: string;
+  createdAt: string;
+}
+
+interface OAuthGrant {
+  id: string;
+  userId: string;
+  userType: 'admin' | 'users-permissions';
+  scope: string | null;
+  updatedAt: string;
+}
+
+interface AuthorizedApp {
+  clientId: string;
+  name: string;
+  description: string | null;
+  scope: string | null;
+  approvedAt: string;
+  activeTokens: number;
+}
+
+interface McpEndpoint {
+  pluginId: string;
+  path: string;
+  name: string;
+  description: string | null;
+  scopes: string[];
+  allowApiTokens: boolean | null;
+  publicPaths: string[];
+  declared: boolean;
+}
+
+interface AuditEvent {
+  id: number;
+  event: string;
+  outcome: 'success' | 'failure';
+  clientId: string | null;
+  userId: string | null;
+  authMethod: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  path: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export type { AuditEvent, AuthorizedApp, ClientType, GrantType, McpEndpoint, OAuthClient, OAuthGrant, OAuthToken };
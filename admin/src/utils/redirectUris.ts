@@ -0,0 +1,14 @@
+/**
+ * Mirrors the server's redirect URI matching: `*` matches any characters except `/`
+ */
+const toRedirectUriPattern = (pattern: string) => {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp('^' + escaped.replace(/\*/g, '[^/]*') + '$');
+};
+
+const matchRedirectUri = (redirectUri: string, patterns: string[]) =>
+  patterns.some((pattern) => toRedirectUriPattern(pattern).test(redirectUri));
+
+const isWildcardUri = (uri: string) => uri.includes('*');
+
+export { isWildcardUri, matchRedirectUri, toRedirectUriPattern };
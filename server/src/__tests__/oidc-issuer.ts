@@ -0,0 +1,130 @@
+/**
+ * Mock OpenID Connect provider
+ *
+ * Serves discovery, JWKS and token endpoints on a local port and issues
+ * RS256 ID tokens, so federated sign-in can be tested end to end. The user's
+ * sign-in at the provider is simulated with authorize().
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateSigningKeyPair, signJwt } from '../utils/jwt';
+
+const KEY_ID = 'mock-key';
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return new URLSearchParams(body);
+}
+
+/**
+ * Start a provider on a random local port. Call close() when done.
+ */
+export async function startOidcIssuer(options: { clientSecret?: string } = {}) {
+  const { privateKey, publicKey } = generateSigningKeyPair('RS256');
+  const codes = new Map<string, PendingCode>();
+  let issuer = '';
+
+  const server = createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'GET' && req.url === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+
+    if (req.method === 'GET' && req.url === '/jwks') {
+      return send(200, {
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }],
+      });
+    }
+
+    if (req.method === 'POST' && req.url === '/token') {
+      const form = await readForm(req);
+      const pending = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+
+      const verifier = form.get('code_verifier') ?? '';
+      if (
+        !pending ||
+        form.get('grant_type') !== 'authorization_code' ||
+        form.get('client_id') !== pending.clientId ||
+        form.get('redirect_uri') !== pending.redirectUri ||
+        createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge ||
+        (options.clientSecret && form.get('client_secret') !== options.clientSecret)
+      ) {
+        return send(400, { error: 'invalid_grant' });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = signJwt(
+        {
+          iss: issuer,
+          aud: pending.clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: pending.nonce,
+          ...pending.claims,
+        },
+        { alg: 'RS256', typ: 'JWT', kid: KEY_ID },
+        privateKey
+      );
+      return send(200, {
+        access_token: 'provider-access-token',
+        token_type: 'Bearer',
+        id_token: idToken,
+      });
+    }
+
+    send(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+
+    /**
+     * Sign a user in at the provider for an authorization URL and return the
+     * parameters it redirects back with
+     */
+    authorize(authorizationUrl: string, claims: Record<string, unknown>) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = randomBytes(16).toString('base64url');
+      codes.set(code, {
+        clientId: params.get('client_id')!,
+        redirectUri: params.get('redirect_uri')!,
+        codeChallenge: params.get('code_challenge')!,
+        nonce: params.get('nonce')!,
+        claims,
+      });
+      return { code, state: params.get('state')! };
+    },
+
+    close() {
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+export type OidcIssuer = Awaited<ReturnType<typeof startOidcIssuer>>;
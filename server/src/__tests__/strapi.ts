@@ -0,0 +1,395 @@
+/**
+ * Test harness
+ *
+ * A Strapi instance backed by in-memory tables, with the plugin's real
+ * services and config, and a Koa-like request context. Enough of the query
+ * engine and Document Service is implemented for the plugin's own queries.
+ */
+
+import type { Core } from '@strapi/strapi';
+import config, { type PluginConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import services from '../services';
+import { hashSecret } from '../utils/hash';
+
+export const CLIENT_UID = `plugin::${PLUGIN_ID}.mcp-oauth-client`;
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export interface TestStrapiOptions {
+  config?: DeepPartial<PluginConfig>;
+  /** Initial rows per content type uid */
+  data?: Record<string, any[]>;
+  /** Other plugins, e.g. users-permissions, by name */
+  plugins?: Record<string, { service(name: string): any }>;
+  /** Strapi core services, e.g. admin::auth, by uid */
+  services?: Record<string, any>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof RegExp);
+
+function merge<T>(base: T, overrides: any): T {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return overrides === undefined ? base : overrides;
+  }
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = merge(merged[key], value);
+  }
+  return merged as T;
+}
+
+const comparable = (value: unknown) => (value instanceof Date ? value.toISOString() : value);
+
+// Ids compare like in SQL, where '1' matches 1
+const same = (left: unknown, right: unknown) =>
+  left === right ||
+  ((typeof left === 'number' || typeof right === 'number') && String(left) === String(right));
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isPlainObject(condition)) {
+    return same(comparable(value), comparable(condition)) || (value == null && condition == null);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    const left = comparable(value) as any;
+    const right = comparable(operand) as any;
+    switch (operator) {
+      case '$eq':
+        return same(left, right);
+      case '$ne':
+        return !same(left, right);
+      case '$lt':
+        return left != null && left < right;
+      case '$lte':
+        return left != null && left <= right;
+      case '$gt':
+        return left != null && left > right;
+      case '$gte':
+        return left != null && left >= right;
+      case '$in':
+        return (operand as unknown[]).some((item) => same(comparable(item), left));
+      case '$notIn':
+        return !(operand as unknown[]).some((item) => same(comparable(item), left));
+      case '$null':
+        return (left == null) === operand;
+      case '$notNull':
+        return (left != null) === operand;
+      default:
+        throw new Error(`Unsupported operator ${operator}`);
+    }
+  });
+}
+
+export function matchesWhere(row: any, where: Record<string, any> = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$or') {
+      return (condition as any[]).some((part) => matchesWhere(row, part));
+    }
+    if (key === '$and') {
+      return (condition as any[]).every((part) => matchesWhere(row, part));
+    }
+    if (key === '$not') {
+      return !matchesWhere(row, condition);
+    }
+    return matchesCondition(row[key], condition);
+  });
+}
+
+function sortRows(rows: any[], orderBy: any): any[] {
+  const orders = (Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : []).flatMap(
+    (order: any) => Object.entries(order)
+  );
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of orders) {
+      const left = comparable(a[field]) as any;
+      const right = comparable(b[field]) as any;
+      if (left !== right) {
+        return (left < right ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * In-memory tables with the subset of the query engine the plugin uses
+ */
+export function createDatabase(initial: Record<string, any[]> = {}) {
+  const tables = new Map<string, any[]>();
+  let nextId = 1;
+
+  const table = (uid: string) => {
+    if (!tables.has(uid)) {
+      tables.set(uid, []);
+    }
+    return tables.get(uid)!;
+  };
+
+  const insert = (uid: string, data: any) => {
+    const now = new Date().toISOString();
+    const id = nextId++;
+    const row = { id, documentId: `doc-${id}`, createdAt: now, updatedAt: now, ...data };
+    table(uid).push(row);
+    return { ...row };
+  };
+
+  for (const [uid, rows] of Object.entries(initial)) {
+    rows.forEach((row) => insert(uid, row));
+  }
+
+  const query = (uid: string) => {
+    const find = (params: any = {}) => {
+      const rows = sortRows(
+        table(uid).filter((row) => matchesWhere(row, params.where)),
+        params.orderBy
+      );
+      const offset = params.offset ?? 0;
+      return rows.slice(offset, params.limit ? offset + params.limit : undefined);
+    };
+
+    const update = (rows: any[], data: any) => {
+      const updatedAt = new Date().toISOString();
+      rows.forEach((row) => Object.assign(row, data, { updatedAt }));
+      return rows.length;
+    };
+
+    return {
+      async findOne(params: any = {}) {
+        const [row] = find(params);
+        return row ? { ...row } : null;
+      },
+      async findMany(params: any = {}) {
+        return find(params).map((row) => ({ ...row }));
+      },
+      async findPage(params: any = {}) {
+        const { page = 1, pageSize = 10 } = params;
+        const rows = find({ ...params, limit: undefined, offset: undefined });
+        return {
+          results: rows.slice((page - 1) * pageSize, page * pageSize).map((row) => ({ ...row })),
+          pagination: {
+            page,
+            pageSize,
+            pageCount: Math.ceil(rows.length / pageSize),
+            total: rows.length,
+          },
+        };
+      },
+      async count(params: any = {}) {
+        return find(params).length;
+      },
+      async create({ data }: any) {
+        return insert(uid, data);
+      },
+      async update({ where, data }: any) {
+        const [row] = find({ where });
+        if (!row) {
+          return null;
+        }
+        update([row], data);
+        return { ...row };
+      },
+      async updateMany({ where, data }: any) {
+        return { count: update(find({ where }), data) };
+      },
+      async delete({ where }: any) {
+        const [row] = find({ where });
+        if (row) {
+          tables.set(
+            uid,
+            table(uid).filter((candidate) => candidate !== row)
+          );
+        }
+        return row ? { ...row } : null;
+      },
+      async deleteMany({ where }: any = {}) {
+        const rows = find({ where });
+        tables.set(
+          uid,
+          table(uid).filter((row) => !rows.includes(row))
+        );
+        return { count: rows.length };
+      },
+    };
+  };
+
+  return { query, rows: (uid: string) => table(uid) };
+}
+
+/**
+ * A Strapi instance with this plugin's services and config
+ */
+export function createStrapi(options: TestStrapiOptions = {}) {
+  const pluginConfig = merge(config.default as unknown as PluginConfig, options.config ?? {});
+  config.validator(pluginConfig);
+
+  const database = createDatabase(options.data);
+  const stores = new Map<string, unknown>();
+  const instances = new Map<string, any>();
+  const noop = () => {};
+
+  const strapi: any = {
+    log: { debug: noop, info: noop, warn: noop, error: noop },
+    config: {
+      get(path: string, fallback?: unknown) {
+        const values: Record<string, unknown> = {
+          'server.app.keys': ['test-app-key'],
+          'server.url': '',
+        };
+        return path in values ? values[path] : fallback;
+      },
+    },
+    cron: { add: noop, remove: noop },
+    db: {
+      query: database.query,
+      lifecycles: { subscribe: noop },
+      transaction: (callback: () => Promise<unknown>) => callback(),
+    },
+    store({ type, name, key }: { type: string; name: string; key: string }) {
+      const id = `${type}:${name}:${key}`;
+      return {
+        async get() {
+          return structuredClone(stores.get(id) ?? null);
+        },
+        async set({ value }: { value: unknown }) {
+          stores.set(id, structuredClone(value));
+        },
+      };
+    },
+    documents(uid: string) {
+      const query = database.query(uid);
+      return {
+        findFirst: ({ filters }: any = {}) => query.findOne({ where: filters }),
+        findMany: ({ filters, sort }: any = {}) =>
+          query.findMany({ where: filters, orderBy: sort }),
+        findOne: ({ documentId }: any) => query.findOne({ where: { documentId } }),
+        create: ({ data }: any) => query.create({ data }),
+        update: ({ documentId, data }: any) => query.update({ where: { documentId }, data }),
+        delete: ({ documentId }: any) => query.delete({ where: { documentId } }),
+      };
+    },
+    service(uid: string) {
+      return options.services?.[uid];
+    },
+    plugin(name: string) {
+      if (name !== PLUGIN_ID) {
+        return options.plugins?.[name];
+      }
+      return {
+        config: (key: string) => (pluginConfig as any)[key],
+        service(serviceName: string) {
+          if (!instances.has(serviceName)) {
+            const factory = (services as Record<string, any>)[serviceName];
+            if (!factory) {
+              throw new Error(`Unknown service ${serviceName}`);
+            }
+            instances.set(serviceName, factory({ strapi }));
+          }
+          return instances.get(serviceName);
+        },
+      };
+    },
+  };
+
+  return Object.assign(strapi as Core.Strapi, {
+    /** Rows of a content type, as stored */
+    rows: database.rows,
+  });
+}
+
+export type TestStrapi = ReturnType<typeof createStrapi>;
+
+export interface TestContextOptions {
+  method?: string;
+  path?: string;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  ip?: string;
+  params?: Record<string, string>;
+  /** Cookies sent with the request */
+  cookies?: Record<string, string>;
+}
+
+/**
+ * A Koa-like context for calling controllers and middlewares directly
+ */
+export function createContext(options: TestContextOptions = {}) {
+  const responseHeaders: Record<string, string> = {};
+  const requestCookies = { ...options.cookies };
+  const setCookies: Record<string, { value: string | null; options?: any }> = {};
+
+  const ctx: any = {
+    method: options.method ?? 'GET',
+    path: options.path ?? '/',
+    protocol: 'http',
+    query: options.query ?? {},
+    params: options.params ?? {},
+    state: {},
+    status: 200,
+    body: undefined,
+    type: undefined,
+    redirected: null as string | null,
+    request: {
+      body: options.body,
+      headers: { host: 'localhost:1337', ...options.headers },
+      ip: options.ip ?? '127.0.0.1',
+    },
+    response: { headers: responseHeaders },
+    cookies: {
+      get: (name: string) => requestCookies[name],
+      set(name: string, value: string | null, cookieOptions?: any) {
+        setCookies[name] = { value, options: cookieOptions };
+      },
+    },
+    /** Cookies set on the response */
+    setCookies,
+    set(name: string, value: string) {
+      responseHeaders[name.toLowerCase()] = value;
+    },
+    get(name: string) {
+      return ctx.request.headers[name.toLowerCase()];
+    },
+    redirect(url: string) {
+      ctx.status = 302;
+      ctx.redirected = url;
+    },
+    notFound(message?: string) {
+      ctx.status = 404;
+      ctx.body = { error: 'Not Found', message };
+    },
+    badRequest(message?: string) {
+      ctx.status = 400;
+      ctx.body = { error: 'Bad Request', message };
+    },
+    unauthorized(message?: string) {
+      ctx.status = 401;
+      ctx.body = { error: 'Unauthorized', message };
+    },
+  };
+
+  return ctx;
+}
+
+/**
+ * Store an OAuth client. Confidential clients get their secret hashed.
+ */
+export async function createClient(strapi: TestStrapi, data: Record<string, any> = {}) {
+  const { clientSecret, ...rest } = data;
+  return strapi.db.query(CLIENT_UID).create({
+    data: {
+      name: 'Test client',
+      clientId: `client-${Math.random().toString(36).slice(2)}`,
+      clientType: 'confidential',
+      redirectUris: ['https://client.example/callback'],
+      strapiApiToken: 'strapi-api-token',
+      active: true,
+      ...rest,
+      ...(clientSecret !== undefined && { clientSecret: await hashSecret(clientSecret) }),
+    },
+  });
+}
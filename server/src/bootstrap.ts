@@ -1,8 +1,57 @@
 import type { Core } from '@strapi/strapi';
 import mcpOauthMiddleware from './middlewares/mcp-oauth';
+import { PERMISSION_ACTIONS } from './permissions';
 import { PLUGIN_ID } from './pluginId';
+import type { UserType } from './services/authorization';
 
 const bootstrap = async ({ strapi }: { strapi: Core.Strapi }) => {
+  // Admin RBAC actions for the plugin's admin page and routes
+  await strapi.service('admin::permission').actionProvider.registerMany(PERMISSION_ACTIONS);
+
+  // Upgrade rows stored by earlier versions (e.g. plaintext secrets and tokens)
+  await strapi.plugin(PLUGIN_ID).service('migration').run();
+
+  // Resolve the storage adapter now so a misconfigured one fails at startup
+  strapi.plugin(PLUGIN_ID).service('storage').get();
+
+  // Deactivate clients whose linked API token is deleted in Settings → API Tokens,
+  // and forget cached clients when one is changed (e.g. regenerated)
+  strapi.db.lifecycles.subscribe({
+    models: ['admin::api-token'],
+    afterUpdate() {
+      strapi.plugin(PLUGIN_ID).service('token-cache').invalidateClient();
+    },
+    async afterDelete(event: any) {
+      if (event.result?.id) {
+        await strapi.plugin(PLUGIN_ID).service('credential').handleApiTokenDeleted(event.result.id);
+      }
+    },
+  });
+
+  // Forget cached users when one is changed (e.g. blocked or deactivated) or deleted
+  const userModels: Record<string, UserType> = {
+    'admin::user': 'admin',
+    'plugin::users-permissions.user': 'users-permissions',
+  };
+  const invalidateUser = (event: any) =>
+    strapi
+      .plugin(PLUGIN_ID)
+      .service('token-cache')
+      .invalidateUser(userModels[event.model.uid], event.result?.id);
+  strapi.db.lifecycles.subscribe({
+    models: Object.keys(userModels),
+    afterUpdate: invalidateUser,
+    afterUpdateMany: invalidateUser,
+    afterDelete: invalidateUser,
+    afterDeleteMany: invalidateUser,
+  });
+
+  // Periodically purge expired codes and tokens
+  strapi.plugin(PLUGIN_ID).service('cleanup').schedule();
+
+  // Create and rotate JWT signing keys when access tokens are JWTs
+  await strapi.plugin(PLUGIN_ID).service('jwt').schedule();
+
   // Register the OAuth middleware globally to protect MCP endpoints
   const middleware = mcpOauthMiddleware({}, { strapi });
   strapi.server.use(middleware);
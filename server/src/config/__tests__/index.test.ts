@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import config, { type PluginConfig } from '..';
+
+const defaults = config.default as unknown as PluginConfig;
+
+function validate(overrides: Partial<Record<keyof PluginConfig, unknown>>) {
+  return () => config.validator({ ...defaults, ...overrides } as PluginConfig);
+}
+
+describe('config validator', () => {
+  it('accepts the defaults', () => {
+    expect(validate({})).not.toThrow();
+  });
+
+  it('names the path of an invalid value', () => {
+    expect(validate({ baseUrl: 'ftp://example.com' })).toThrow(
+      /baseUrl must be null or an http\(s\) URL/
+    );
+    expect(validate({ mcpEndpointPattern: '(' })).toThrow(
+      /mcpEndpointPattern must be a RegExp or a valid regular expression string/
+    );
+  });
+
+  it('reports every problem at once', () => {
+    expect(
+      validate({
+        allowDirectApiTokens: 'yes',
+        tokens: { ...defaults.tokens, format: 'paseto', accessTokenTtl: 0 },
+      })
+    ).toThrow(
+      new Error(
+        'invalid configuration:\n' +
+          '  - allowDirectApiTokens must be a boolean\n' +
+          "  - tokens.format must be 'opaque' or 'jwt'\n" +
+          '  - tokens.accessTokenTtl must be a positive integer (seconds)'
+      )
+    );
+  });
+
+  it('checks settings that depend on each other', () => {
+    expect(validate({ registration: { ...defaults.registration, mode: 'token' } })).toThrow(
+      /registration.initialAccessToken is required when registration.mode is 'token'/
+    );
+    expect(validate({ federation: { ...defaults.federation, createUsers: true } })).toThrow(
+      /federation.createUsers requires authorization.userSource 'users-permissions'/
+    );
+  });
+
+  it('rejects scope names reserved for OpenID Connect', () => {
+    expect(validate({ scopes: { openid: { paths: ['/api/mcp'] } } })).toThrow(
+      /scopes\['openid'\] is reserved for OpenID Connect/
+    );
+  });
+});
@@ -1,4 +1,681 @@
+import { JWT_ALGORITHMS, type JwtAlgorithm } from '../utils/jwt';
+import { isRateLimitStore, type RateLimitStore } from '../utils/rate-limit';
+import { OIDC_SCOPES, type ScopesConfig } from '../utils/scopes';
+
+export interface RegistrationConfig {
+  mode: 'disabled' | 'open' | 'token';
+  initialAccessToken: string | null;
+  defaultStrapiApiToken: string | null;
+}
+
+export interface AuthorizationConfig {
+  userSource: 'admin' | 'users-permissions';
+  rememberConsent: boolean;
+  userPermissions: boolean;
+}
+
+export interface FederationConfig {
+  enabled: boolean;
+  issuer: string | null;
+  clientId: string | null;
+  clientSecret: string | null;
+  scopes: string[];
+  /** Names of the upstream claims holding each user attribute */
+  claims: {
+    email: string;
+    username: string;
+    emailVerified: string | null;
+  };
+  createUsers: boolean;
+}
+
+export interface EncryptionConfig {
+  key: string | null;
+  previousKeys: string[];
+}
+
+export interface ApiTokensConfig {
+  autoCreate: boolean;
+  type: 'read-only' | 'full-access' | 'custom';
+  permissions: string[];
+  lifespan: number | null;
+}
+
+export interface TokensConfig {
+  format: 'opaque' | 'jwt';
+  authorizationCodeTtl: number;
+  deviceCodeTtl: number;
+  devicePollInterval: number;
+  accessTokenTtl: number;
+  refreshTokenTtl: number;
+  refreshGracePeriod: number;
+}
+
+export interface JwtConfig {
+  algorithm: JwtAlgorithm;
+  keyRotationInterval: number | null;
+  denylistRefreshInterval: number;
+}
+
+export interface CleanupConfig {
+  enabled: boolean;
+  rule: string;
+  retention: number;
+}
+
+export interface AuditConfig {
+  enabled: boolean;
+  retention: number;
+  mcpRequests: boolean;
+}
+
+/**
+ * Requests allowed per window, per IP address and per client. null disables a limit.
+ */
+export interface RateLimitRule {
+  ip: number | null;
+  client: number | null;
+}
+
+export type RateLimitScope = 'token' | 'authorize' | 'mcp';
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  window: number;
+  token: RateLimitRule;
+  /** The authorization steps don't authenticate the client, so only IP addresses are counted */
+  authorize: Pick<RateLimitRule, 'ip'>;
+  mcp: RateLimitRule;
+  lockout: {
+    /** Failures from one IP address before the client is locked on that address */
+    maxFailures: number | null;
+    /**
+     * Failures from all addresses before the client is locked everywhere. Failures
+     * are unauthenticated, so anyone who knows the client_id can trigger this lock.
+     */
+    maxClientFailures: number | null;
+    window: number;
+    duration: number;
+  };
+  store: RateLimitStore | null;
+}
+
+export interface TokenCacheConfig {
+  enabled: boolean;
+  /** Seconds an entry is kept at most */
+  ttl: number;
+  /** Entries kept per cache (tokens, clients, users) before the least recently used is evicted */
+  maxEntries: number;
+}
+
+export interface StorageConfig {
+  /** 'database', 'memory' or the name of a registered adapter */
+  adapter: string;
+}
+
+export interface PluginConfig {
+  baseUrl: string | null;
+  fallbackBaseUrl: string;
+  mcpEndpointPattern: string | RegExp;
+  allowDirectApiTokens: boolean;
+  registration: RegistrationConfig;
+  authorization: AuthorizationConfig;
+  federation: FederationConfig;
+  scopes: ScopesConfig;
+  encryption: EncryptionConfig;
+  tokens: TokensConfig;
+  jwt: JwtConfig;
+  apiTokens: ApiTokensConfig;
+  cleanup: CleanupConfig;
+  rateLimit: RateLimitConfig;
+  audit: AuditConfig;
+  storage: StorageConfig;
+  tokenCache: TokenCacheConfig;
+}
+
+export type { RateLimitStore, ScopesConfig };
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+const isNullablePositiveInteger = (value: unknown): boolean =>
+  value === null || isPositiveInteger(value);
+
+const isNullableString = (value: unknown): boolean =>
+  value === null || (typeof value === 'string' && value.length > 0);
+
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string' && item.length > 0);
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const oneOf = (value: unknown, allowed: string[]): boolean =>
+  typeof value === 'string' && allowed.includes(value);
+
+/**
+ * Collect every problem in the plugin config as readable messages
+ */
+function collectConfigErrors(config: PluginConfig): string[] {
+  const errors: string[] = [];
+  const check = (valid: boolean, path: string, message: string) => {
+    if (!valid) {
+      errors.push(`${path} ${message}`);
+    }
+  };
+
+  check(config.baseUrl === null || isHttpUrl(config.baseUrl), 'baseUrl', 'must be null or an http(s) URL');
+  check(isHttpUrl(config.fallbackBaseUrl), 'fallbackBaseUrl', 'must be an http(s) URL');
+
+  let validPattern = config.mcpEndpointPattern instanceof RegExp;
+  if (typeof config.mcpEndpointPattern === 'string') {
+    try {
+      new RegExp(config.mcpEndpointPattern);
+      validPattern = true;
+    } catch {
+      validPattern = false;
+    }
+  }
+  check(validPattern, 'mcpEndpointPattern', 'must be a RegExp or a valid regular expression string');
+  check(
+    typeof config.allowDirectApiTokens === 'boolean',
+    'allowDirectApiTokens',
+    'must be a boolean'
+  );
+
+  const {
+    registration,
+    authorization,
+    federation,
+    scopes,
+    encryption,
+    tokens,
+    jwt,
+    apiTokens,
+    cleanup,
+    rateLimit,
+    audit,
+    storage,
+    tokenCache,
+  } = config;
+
+  check(
+    oneOf(registration?.mode, ['disabled', 'open', 'token']),
+    'registration.mode',
+    "must be one of 'disabled', 'open', 'token'"
+  );
+  check(
+    isNullableString(registration?.initialAccessToken),
+    'registration.initialAccessToken',
+    'must be null or a non-empty string'
+  );
+  check(
+    registration?.mode !== 'token' || typeof registration.initialAccessToken === 'string',
+    'registration.initialAccessToken',
+    "is required when registration.mode is 'token'"
+  );
+  check(
+    isNullableString(registration?.defaultStrapiApiToken),
+    'registration.defaultStrapiApiToken',
+    'must be null or a non-empty string'
+  );
+
+  check(
+    oneOf(authorization?.userSource, ['admin', 'users-permissions']),
+    'authorization.userSource',
+    "must be 'admin' or 'users-permissions'"
+  );
+  check(
+    typeof authorization?.rememberConsent === 'boolean',
+    'authorization.rememberConsent',
+    'must be a boolean'
+  );
+  check(
+    typeof authorization?.userPermissions === 'boolean',
+    'authorization.userPermissions',
+    'must be a boolean'
+  );
+
+  check(typeof federation?.enabled === 'boolean', 'federation.enabled', 'must be a boolean');
+  if (federation?.enabled) {
+    check(isHttpUrl(federation.issuer), 'federation.issuer', 'must be an http(s) URL');
+    check(
+      typeof federation.clientId === 'string' && federation.clientId.length > 0,
+      'federation.clientId',
+      'is required when federation is enabled'
+    );
+  }
+  check(
+    isNullableString(federation?.clientSecret),
+    'federation.clientSecret',
+    'must be null or a non-empty string'
+  );
+  check(
+    isStringArray(federation?.scopes) && federation.scopes.includes('openid'),
+    'federation.scopes',
+    "must be an array of scopes including 'openid'"
+  );
+  for (const key of ['email', 'username'] as const) {
+    check(
+      typeof federation?.claims?.[key] === 'string' && federation.claims[key].length > 0,
+      `federation.claims.${key}`,
+      'must be a claim name'
+    );
+  }
+  check(
+    isNullableString(federation?.claims?.emailVerified),
+    'federation.claims.emailVerified',
+    'must be null or a claim name'
+  );
+  check(typeof federation?.createUsers === 'boolean', 'federation.createUsers', 'must be a boolean');
+  check(
+    !federation?.createUsers || authorization?.userSource === 'users-permissions',
+    'federation.createUsers',
+    "requires authorization.userSource 'users-permissions'"
+  );
+
+  if (isPlainObject(scopes)) {
+    for (const [name, definition] of Object.entries(scopes)) {
+      check(/^[\x21\x23-\x5B\x5D-\x7E]+$/.test(name), `scopes['${name}']`, 'is not a valid scope name');
+      check(!OIDC_SCOPES.includes(name), `scopes['${name}']`, 'is reserved for OpenID Connect');
+      check(
+        isPlainObject(definition) &&
+          isStringArray(definition.paths) &&
+          definition.paths.every((path: string) => path.startsWith('/')),
+        `scopes['${name}'].paths`,
+        "must be an array of path prefixes starting with '/'"
+      );
+    }
+  } else {
+    check(false, 'scopes', 'must be an object');
+  }
+
+  check(isNullableString(encryption?.key), 'encryption.key', 'must be null or a non-empty string');
+  check(
+    isStringArray(encryption?.previousKeys),
+    'encryption.previousKeys',
+    'must be an array of strings'
+  );
+
+  check(oneOf(tokens?.format, ['opaque', 'jwt']), 'tokens.format', "must be 'opaque' or 'jwt'");
+  for (const key of [
+    'authorizationCodeTtl',
+    'deviceCodeTtl',
+    'devicePollInterval',
+    'accessTokenTtl',
+    'refreshTokenTtl',
+  ] as const) {
+    check(isPositiveInteger(tokens?.[key]), `tokens.${key}`, 'must be a positive integer (seconds)');
+  }
+  check(
+    Number.isInteger(tokens?.refreshGracePeriod) && tokens.refreshGracePeriod >= 0,
+    'tokens.refreshGracePeriod',
+    'must be a non-negative integer (seconds)'
+  );
+  check(
+    !(tokens?.refreshTokenTtl < tokens?.accessTokenTtl),
+    'tokens.refreshTokenTtl',
+    'must not be shorter than tokens.accessTokenTtl'
+  );
+
+  check(
+    oneOf(jwt?.algorithm, JWT_ALGORITHMS),
+    'jwt.algorithm',
+    `must be one of ${JWT_ALGORITHMS.map((alg) => `'${alg}'`).join(', ')}`
+  );
+  check(
+    jwt?.keyRotationInterval === null || isPositiveInteger(jwt?.keyRotationInterval),
+    'jwt.keyRotationInterval',
+    'must be null or a positive integer (seconds)'
+  );
+  check(
+    isPositiveInteger(jwt?.denylistRefreshInterval),
+    'jwt.denylistRefreshInterval',
+    'must be a positive integer (seconds)'
+  );
+
+  check(typeof apiTokens?.autoCreate === 'boolean', 'apiTokens.autoCreate', 'must be a boolean');
+  // Anyone could otherwise register active clients, each with a new API token
+  check(
+    !(apiTokens?.autoCreate === true && registration?.mode === 'open'),
+    'apiTokens.autoCreate',
+    "cannot be enabled while registration.mode is 'open'"
+  );
+  check(
+    oneOf(apiTokens?.type, ['read-only', 'full-access', 'custom']),
+    'apiTokens.type',
+    "must be one of 'read-only', 'full-access', 'custom'"
+  );
+  check(
+    Array.isArray(apiTokens?.permissions) && apiTokens.permissions.every((p) => typeof p === 'string'),
+    'apiTokens.permissions',
+    'must be an array of action strings'
+  );
+  check(
+    apiTokens?.lifespan === null || isPositiveInteger(apiTokens?.lifespan),
+    'apiTokens.lifespan',
+    'must be null or a positive integer (milliseconds)'
+  );
+
+  check(typeof cleanup?.enabled === 'boolean', 'cleanup.enabled', 'must be a boolean');
+  check(
+    typeof cleanup?.rule === 'string' && cleanup.rule.trim().length > 0,
+    'cleanup.rule',
+    'must be a cron expression'
+  );
+  check(
+    Number.isInteger(cleanup?.retention) && cleanup.retention >= 0,
+    'cleanup.retention',
+    'must be a non-negative integer (seconds)'
+  );
+
+  check(typeof rateLimit?.enabled === 'boolean', 'rateLimit.enabled', 'must be a boolean');
+  check(isPositiveInteger(rateLimit?.window), 'rateLimit.window', 'must be a positive integer (seconds)');
+  for (const scope of ['token', 'authorize', 'mcp'] as const) {
+    for (const key of scope === 'authorize' ? (['ip'] as const) : (['ip', 'client'] as const)) {
+      check(
+        isNullablePositiveInteger((rateLimit?.[scope] as Partial<RateLimitRule>)?.[key]),
+        `rateLimit.${scope}.${key}`,
+        'must be null or a positive integer (requests per window)'
+      );
+    }
+  }
+  for (const key of ['maxFailures', 'maxClientFailures'] as const) {
+    check(
+      isNullablePositiveInteger(rateLimit?.lockout?.[key]),
+      `rateLimit.lockout.${key}`,
+      'must be null or a positive integer'
+    );
+  }
+  for (const key of ['window', 'duration'] as const) {
+    check(
+      isPositiveInteger(rateLimit?.lockout?.[key]),
+      `rateLimit.lockout.${key}`,
+      'must be a positive integer (seconds)'
+    );
+  }
+  check(
+    rateLimit?.store === null || isRateLimitStore(rateLimit?.store),
+    'rateLimit.store',
+    'must be null or an object with increment, get and reset methods'
+  );
+
+  check(typeof audit?.enabled === 'boolean', 'audit.enabled', 'must be a boolean');
+  check(isPositiveInteger(audit?.retention), 'audit.retention', 'must be a positive integer (seconds)');
+  check(typeof audit?.mcpRequests === 'boolean', 'audit.mcpRequests', 'must be a boolean');
+
+  check(
+    typeof storage?.adapter === 'string' && storage.adapter.length > 0,
+    'storage.adapter',
+    'must be the name of a storage adapter'
+  );
+
+  check(typeof tokenCache?.enabled === 'boolean', 'tokenCache.enabled', 'must be a boolean');
+  check(isPositiveInteger(tokenCache?.ttl), 'tokenCache.ttl', 'must be a positive integer (seconds)');
+  check(
+    isPositiveInteger(tokenCache?.maxEntries),
+    'tokenCache.maxEntries',
+    'must be a positive integer'
+  );
+
+  return errors;
+}
+
 export default {
-  default: {},
-  validator() {},
+  default: {
+    /**
+     * Public URL of the Strapi server used for the issuer and endpoint URLs.
+     * When null, it is derived from the request (X-Forwarded-* / Host headers),
+     * then server.url, then fallbackBaseUrl.
+     */
+    baseUrl: null,
+    fallbackBaseUrl: 'http://localhost:1337',
+
+    /**
+     * Paths protected by the MCP middleware. Matches /api/{plugin}/mcp and sub-paths.
+     */
+    mcpEndpointPattern: '^/api/[^/]+/mcp(/.*)?$',
+
+    /**
+     * Accept Strapi API tokens sent directly as bearer tokens on MCP endpoints
+     * (e.g. Claude Desktop). They are verified against Settings → API Tokens.
+     * Set to false to only accept OAuth access tokens.
+     */
+    allowDirectApiTokens: true,
+
+    /**
+     * Dynamic Client Registration (RFC 7591)
+     *
+     * mode:
+     * - 'disabled': POST /oauth/register is rejected and not advertised
+     * - 'open': any client may register
+     * - 'token': registration requires `Authorization: Bearer <initialAccessToken>`
+     *
+     * Registered clients start inactive unless defaultStrapiApiToken is set,
+     * in which case they are activated and linked to that token.
+     */
+    registration: {
+      mode: 'disabled',
+      initialAccessToken: null,
+      defaultStrapiApiToken: null,
+    },
+
+    /**
+     * Interactive authorization (login + consent)
+     *
+     * userSource: which Strapi users may approve clients, either admin panel
+     * users ('admin') or end users of the Users & Permissions plugin.
+     * rememberConsent: skip the consent screen when the user already approved the client.
+     * userPermissions: on MCP requests, act as the Users & Permissions user who
+     * authorized the token, with their role's permissions, instead of the
+     * client's API token.
+     */
+    authorization: {
+      userSource: 'admin',
+      rememberConsent: true,
+      userPermissions: false,
+    },
+
+    /**
+     * Sign users in with an external OpenID Connect provider (Keycloak, Auth0, ...)
+     * instead of the login form. The provider's user is matched by email to
+     * a user of authorization.userSource.
+     *
+     * issuer: provider issuer URL; metadata is read from its
+     * /.well-known/openid-configuration. Register
+     * {baseUrl}/api/strapi-oauth-mcp-manager/oauth/federation/callback
+     * as redirect URI with the provider.
+     * claims: upstream claim names. emailVerified: null skips the check.
+     * createUsers: create missing Users & Permissions users with the default role.
+     */
+    federation: {
+      enabled: false,
+      issuer: null,
+      clientId: null,
+      clientSecret: null,
+      scopes: ['openid', 'email', 'profile'],
+      claims: {
+        email: 'email',
+        username: 'preferred_username',
+        emailVerified: 'email_verified',
+      },
+      createUsers: false,
+    },
+
+    /**
+     * Scopes mapped to MCP path prefixes, in addition to the built-in `mcp`
+     * scope that unlocks every MCP endpoint. Example:
+     *
+     * 'mcp:yt-transcript': {
+     *   description: 'Read YouTube transcripts',
+     *   paths: ['/api/yt-transcript-strapi-plugin/mcp'],
+     * }
+     */
+    scopes: {},
+
+    /**
+     * Encryption of the strapiApiToken stored on each client (AES-256-GCM).
+     *
+     * key: current key, falls back to the MCP_OAUTH_ENCRYPTION_KEY env variable.
+     * previousKeys: old keys still accepted for decryption. On startup every
+     * token is re-encrypted under the current key, after which they can be removed.
+     */
+    encryption: {
+      key: null,
+      previousKeys: [],
+    },
+
+    /**
+     * format: 'opaque' access tokens are random strings looked up in the
+     * database; 'jwt' access tokens are signed JWTs verified locally.
+     *
+     * Token lifetimes in seconds. Access and refresh token lifetimes can be
+     * overridden per client (accessTokenTtl / refreshTokenTtl on the client).
+     *
+     * deviceCodeTtl: how long a user has to enter the code of a device
+     * authorization (RFC 8628); devicePollInterval: seconds the device waits
+     * between token requests.
+     *
+     * refreshGracePeriod: seconds after a refresh token is rotated during which
+     * a single replay (a concurrent refresh) is rejected without revoking the
+     * token family. Any other reuse revokes the whole family.
+     */
+    tokens: {
+      format: 'opaque',
+      authorizationCodeTtl: 10 * 60,
+      deviceCodeTtl: 10 * 60,
+      devicePollInterval: 5,
+      accessTokenTtl: 60 * 60,
+      refreshTokenTtl: 30 * 24 * 60 * 60,
+      refreshGracePeriod: 10,
+    },
+
+    /**
+     * Signing keys for id_tokens and JWT access tokens (tokens.format: 'jwt').
+     *
+     * Keys are generated and stored by the plugin, private keys encrypted when
+     * an encryption key is configured. A new key is created every
+     * keyRotationInterval seconds (null: only when rotated manually); retired
+     * keys stay in the JWKS until the tokens they signed have expired.
+     * denylistRefreshInterval: seconds between reloads of revoked token ids.
+     */
+    jwt: {
+      algorithm: 'RS256',
+      keyRotationInterval: 90 * 24 * 60 * 60,
+      denylistRefreshInterval: 30,
+    },
+
+    /**
+     * Strapi API tokens owned by the plugin.
+     *
+     * When autoCreate is enabled, every new client without a linked token gets
+     * its own API token (Settings → API Tokens), deleted again with the client.
+     * It can't be combined with open registration.
+     * permissions lists content-API actions and only applies to 'custom' tokens.
+     * lifespan is in milliseconds; null means the token never expires.
+     */
+    apiTokens: {
+      autoCreate: false,
+      type: 'full-access',
+      permissions: [],
+      lifespan: null,
+    },
+
+    /**
+     * Scheduled cleanup of the codes and tokens tables.
+     *
+     * rule: cron expression, hourly by default.
+     * retention: seconds used codes and revoked tokens are kept before they are
+     * deleted. Expired ones are deleted on the next run. Rotated refresh tokens
+     * are needed to detect reuse, so keep this well above refreshGracePeriod.
+     */
+    cleanup: {
+      enabled: true,
+      rule: '0 * * * *',
+      retention: 7 * 24 * 60 * 60,
+    },
+
+    /**
+     * Rate limits, counted per window seconds. Every request counts against
+     * its IP address and, once authenticated, its client: token covers the
+     * token, revocation, introspection and registration endpoints, authorize
+     * the authorization, login and consent steps (IP addresses only), and mcp
+     * the MCP endpoints.
+     *
+     * lockout: a client that fails authentication maxFailures times from one
+     * IP address within window seconds is locked on that address for duration
+     * seconds; maxClientFailures failures from all addresses together lock it
+     * everywhere (null: never locked, the default, since anyone can fail
+     * authentication on a client's behalf).
+     * store: shared RateLimitStore for multi-instance deployments; defaults
+     * to an in-memory store per instance.
+     */
+    rateLimit: {
+      enabled: true,
+      window: 60,
+      token: { ip: 60, client: 120 },
+      authorize: { ip: 30 },
+      mcp: { ip: 600, client: 600 },
+      lockout: {
+        maxFailures: 10,
+        maxClientFailures: null,
+        window: 10 * 60,
+        duration: 15 * 60,
+      },
+      store: null,
+    },
+
+    /**
+     * Audit log of OAuth and MCP authentication events (mcp-oauth-audit-event).
+     *
+     * retention: seconds events are kept; older ones are deleted by the
+     * scheduled cleanup. mcpRequests: also record every authenticated or
+     * rejected MCP request, which can be a lot of rows on busy servers.
+     */
+    audit: {
+      enabled: true,
+      retention: 90 * 24 * 60 * 60,
+      mcpRequests: false,
+    },
+
+    /**
+     * Where authorization codes, tokens, consent grants and device authorizations are kept.
+     *
+     * adapter: 'database' (the plugin's content types), 'memory' (per
+     * process, lost on restart) or the name of an adapter another plugin
+     * registered with the storage service, e.g. for Redis.
+     */
+    storage: {
+      adapter: 'database',
+    },
+
+    /**
+     * In-process cache of access tokens and clients validated by the MCP
+     * middleware. Revocations and client changes made on this instance take
+     * effect immediately; on other instances within ttl seconds. Entries
+     * never outlive the token. Hit/miss counts: GET /token-cache/stats.
+     */
+    tokenCache: {
+      enabled: true,
+      ttl: 30,
+      maxEntries: 1000,
+    },
+  },
+  validator(config: PluginConfig) {
+    const errors = collectConfigErrors(config);
+
+    if (errors.length) {
+      throw new Error(`invalid configuration:\n  - ${errors.join('\n  - ')}`);
+    }
+  },
 };
@@ -1,9 +1,17 @@
-import mcpOauthClient from './mcp-oauth-client/schema.json';
+import mcpOauthAuditEvent from './mcp-oauth-audit-event/schema.json';
+import mcpOauthClient from './mcp-oauth-client';
 import mcpOauthCode from './mcp-oauth-code/schema.json';
+import mcpOauthDeviceCode from './mcp-oauth-device-code/schema.json';
+import mcpOauthFederationState from './mcp-oauth-federation-state/schema.json';
+import mcpOauthGrant from './mcp-oauth-grant/schema.json';
 import mcpOauthToken from './mcp-oauth-token/schema.json';
 
 export default {
-  'mcp-oauth-client': { schema: mcpOauthClient },
+  'mcp-oauth-audit-event': { schema: mcpOauthAuditEvent },
+  'mcp-oauth-client': mcpOauthClient,
   'mcp-oauth-code': { schema: mcpOauthCode },
+  'mcp-oauth-device-code': { schema: mcpOauthDeviceCode },
+  'mcp-oauth-federation-state': { schema: mcpOauthFederationState },
+  'mcp-oauth-grant': { schema: mcpOauthGrant },
   'mcp-oauth-token': { schema: mcpOauthToken },
 };
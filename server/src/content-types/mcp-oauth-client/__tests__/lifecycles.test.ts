@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CLIENT_UID,
+  createClient,
+  createContext,
+  createStrapi,
+  type TestStrapi,
+} from '../../../__tests__/strapi';
+import oauthController from '../../../controllers/oauth';
+import mcpOauthMiddleware from '../../../middlewares/mcp-oauth';
+import { PLUGIN_ID } from '../../../pluginId';
+import lifecycles from '../lifecycles';
+
+const REDIRECT_URI = 'https://client.example/callback';
+const SECRET = 'client-secret';
+
+let strapi: TestStrapi;
+let client: any;
+let accessToken: string;
+
+async function callMcp() {
+  const ctx = createContext({
+    path: '/api/test/mcp',
+    headers: { authorization: `Bearer ${accessToken}` },
+  });
+  await mcpOauthMiddleware({}, { strapi })(ctx, async () => {
+    ctx.status = 204;
+  });
+  return ctx.status;
+}
+
+/**
+ * Change the stored client without going through the lifecycles
+ */
+function deactivateClient() {
+  return strapi.db.query(CLIENT_UID).update({ where: { id: client.id }, data: { active: false } });
+}
+
+beforeEach(async () => {
+  strapi = createStrapi();
+  vi.stubGlobal('strapi', strapi);
+
+  client = await createClient(strapi, {
+    clientSecret: SECRET,
+    allowedGrantTypes: ['client_credentials'],
+  });
+  const ctx = createContext({
+    method: 'POST',
+    body: { grant_type: 'client_credentials', client_id: client.clientId, client_secret: SECRET },
+  });
+  await oauthController({ strapi }).token(ctx);
+  accessToken = ctx.body.access_token;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('client lifecycles', () => {
+  it('keeps serving a cached client until it is invalidated', async () => {
+    expect(await callMcp()).toBe(204);
+
+    await deactivateClient();
+
+    expect(await callMcp()).toBe(204);
+  });
+
+  it('drops an edited client from the token cache', async () => {
+    expect(await callMcp()).toBe(204);
+
+    lifecycles.afterUpdate({ result: await deactivateClient() });
+
+    expect(await callMcp()).toBe(401);
+  });
+
+  it('drops every cached client after a bulk update', async () => {
+    expect(await callMcp()).toBe(204);
+
+    await deactivateClient();
+    lifecycles.afterUpdateMany({ result: { count: 1 } });
+
+    expect(await callMcp()).toBe(401);
+  });
+});
@@ -0,0 +1,7 @@
+import lifecycles from './lifecycles';
+import schema from './schema.json';
+
+export default {
+  schema,
+  lifecycles,
+};
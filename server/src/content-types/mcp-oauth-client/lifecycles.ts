@@ -0,0 +1,78 @@
+/**
+ * MCP OAuth Client lifecycles
+ *
+ * Secrets entered through the Content Manager are hashed and linked API
+ * tokens are encrypted before they are stored. Plugin-owned API tokens are
+ * created with the client and deleted with it. Changed and deleted clients
+ * are dropped from the token cache.
+ */
+
+import type { ApiTokensConfig } from '../../config';
+import { PLUGIN_ID } from '../../pluginId';
+import { hashSecret, isHashedSecret } from '../../utils/hash';
+
+async function hashClientSecret(event: any) {
+  const { data } = event.params;
+
+  if (data?.clientSecret && !isHashedSecret(data.clientSecret)) {
+    data.clientSecret = await hashSecret(data.clientSecret);
+  }
+}
+
+/**
+ * Bulk operations don't return the clients, so they drop every cached client
+ */
+function invalidateCachedClient(event: any) {
+  strapi.plugin(PLUGIN_ID).service('token-cache').invalidateClient(event.result?.clientId);
+}
+
+function encryptApiToken(event: any) {
+  const { data } = event.params;
+
+  if (data?.strapiApiToken) {
+    data.strapiApiToken = strapi
+      .plugin(PLUGIN_ID)
+      .service('encryption')
+      .encrypt(data.strapiApiToken);
+  }
+}
+
+export default {
+  async beforeCreate(event: any) {
+    await hashClientSecret(event);
+    encryptApiToken(event);
+  },
+
+  async afterCreate(event: any) {
+    const client = event.result;
+    const { autoCreate } = strapi.plugin(PLUGIN_ID).config<ApiTokensConfig>('apiTokens');
+
+    if (autoCreate && !client.apiTokenId && !client.strapiApiToken) {
+      await strapi.plugin(PLUGIN_ID).service('credential').provision(client);
+    }
+  },
+
+  async beforeUpdate(event: any) {
+    await hashClientSecret(event);
+    encryptApiToken(event);
+  },
+
+  afterUpdate(event: any) {
+    invalidateCachedClient(event);
+  },
+
+  afterUpdateMany(event: any) {
+    invalidateCachedClient(event);
+  },
+
+  async afterDelete(event: any) {
+    invalidateCachedClient(event);
+    if (event.result) {
+      await strapi.plugin(PLUGIN_ID).service('credential').release(event.result);
+    }
+  },
+
+  afterDeleteMany(event: any) {
+    invalidateCachedClient(event);
+  },
+};
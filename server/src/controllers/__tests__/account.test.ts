@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createClient, createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import type { TokenUser } from '../../services/authorization';
+import accountController from '../account';
+import oauthController from '../oauth';
+
+const REDIRECT_URI = 'https://client.example/callback';
+const SECRET = 'client-secret';
+const USERS_PERMISSIONS_USER_UID = 'plugin::users-permissions.user';
+const ADMIN: TokenUser = { id: '1', type: 'admin' };
+
+let strapi: TestStrapi;
+
+/**
+ * Approve a client for a user and issue them a token, as the consent screen would
+ */
+async function authorizeApp(user: TokenUser, name: string) {
+  const client = await createClient(strapi, { name, clientSecret: SECRET });
+  const plugin = strapi.plugin(PLUGIN_ID);
+  await plugin.service('storage').get().saveGrant({
+    clientId: client.clientId,
+    userId: user.id,
+    userType: user.type,
+    scope: 'mcp',
+  });
+  const code = await plugin
+    .service('authorization')
+    .issueCode({ clientId: client.clientId, redirectUri: REDIRECT_URI, scope: 'mcp' }, user);
+  await oauthController({ strapi }).token(
+    createContext({
+      method: 'POST',
+      body: {
+        grant_type: 'authorization_code',
+        client_id: client.clientId,
+        client_secret: SECRET,
+        code,
+        redirect_uri: REDIRECT_URI,
+      },
+    })
+  );
+  return client;
+}
+
+async function call(action: 'apps' | 'revokeApp', options: { admin?: boolean; params?: any } = {}) {
+  const ctx = createContext({ method: action === 'apps' ? 'GET' : 'POST', params: options.params });
+  if (options.admin) {
+    ctx.state = { auth: { strategy: { name: 'admin' } }, user: { id: 1 } };
+  }
+  await accountController({ strapi })[action](ctx);
+  return ctx;
+}
+
+beforeEach(() => {
+  strapi = createStrapi();
+});
+
+describe('account apps', () => {
+  it('lists the apps the signed-in user authorized', async () => {
+    const client = await authorizeApp(ADMIN, 'Claude');
+    await authorizeApp({ id: '2', type: 'admin' }, 'Other user');
+
+    const ctx = await call('apps', { admin: true });
+
+    expect(ctx.body.data).toEqual([
+      expect.objectContaining({
+        clientId: client.clientId,
+        name: 'Claude',
+        scope: 'mcp',
+        activeTokens: 1,
+      }),
+    ]);
+  });
+
+  it('revokes the grant and tokens of an app', async () => {
+    const client = await authorizeApp(ADMIN, 'Claude');
+    const params = { clientId: client.clientId };
+
+    const ctx = await call('revokeApp', { admin: true, params });
+
+    expect(ctx.body.data).toEqual({ grants: 1, tokens: 1 });
+    expect((await call('apps', { admin: true })).body.data).toEqual([]);
+    expect((await call('revokeApp', { admin: true, params })).status).toBe(404);
+  });
+
+  it('requires a signed-in user', async () => {
+    await authorizeApp(ADMIN, 'Claude');
+
+    expect((await call('apps')).status).toBe(401);
+  });
+
+  it('accepts Users & Permissions users who are not blocked', async () => {
+    const plugins = {
+      'users-permissions': { service: () => ({ getToken: async () => ({ id: 1 }) }) },
+    };
+    strapi = createStrapi({
+      plugins,
+      data: { [USERS_PERMISSIONS_USER_UID]: [{ blocked: false }] },
+    });
+    await authorizeApp({ id: '1', type: 'users-permissions' }, 'Claude');
+
+    expect((await call('apps')).body.data).toHaveLength(1);
+
+    await strapi.db
+      .query(USERS_PERMISSIONS_USER_UID)
+      .update({ where: { id: 1 }, data: { blocked: true } });
+    expect((await call('apps')).status).toBe(401);
+  });
+});
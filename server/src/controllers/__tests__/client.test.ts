@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CLIENT_UID, createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { verifySecret } from '../../utils/hash';
+import clientController from '../client';
+
+const REDIRECT_URI = 'https://client.example/callback';
+
+let strapi: TestStrapi;
+
+async function call(action: keyof ReturnType<typeof clientController>, options: any = {}) {
+  const ctx = createContext({ method: 'POST', ...options });
+  await clientController({ strapi })[action](ctx);
+  return ctx;
+}
+
+const create = (body: Record<string, unknown>) =>
+  call('create', {
+    body: { name: 'Claude', clientType: 'confidential', redirectUris: [REDIRECT_URI], ...body },
+  });
+
+beforeEach(() => {
+  strapi = createStrapi();
+});
+
+describe('client admin API', () => {
+  it('creates a client and shows its secret once', async () => {
+    const ctx = await create({ strapiApiToken: 'pasted-token' });
+
+    expect(ctx.status).toBe(201);
+    const [stored] = strapi.rows(CLIENT_UID);
+    expect(await verifySecret(ctx.body.meta.clientSecret, stored.clientSecret)).toBe(true);
+    expect(ctx.body.data).toMatchObject({
+      name: 'Claude',
+      hasClientSecret: true,
+      hasStrapiApiToken: true,
+    });
+    expect(ctx.body.data).not.toHaveProperty('clientSecret');
+    expect(ctx.body.data).not.toHaveProperty('strapiApiToken');
+  });
+
+  it('never returns credentials when listing or reading clients', async () => {
+    const { body } = await create({ strapiApiToken: 'pasted-token' });
+
+    const list = await call('find', { method: 'GET' });
+    const one = await call('findOne', { method: 'GET', params: { id: body.data.documentId } });
+
+    for (const client of [list.body.data[0], one.body.data]) {
+      expect(client).not.toHaveProperty('clientSecret');
+      expect(client).not.toHaveProperty('strapiApiToken');
+      expect(client.hasClientSecret).toBe(true);
+    }
+    expect(list.body.meta.supportedScopes).toContain('mcp');
+  });
+
+  it('rejects invalid input', async () => {
+    expect((await create({ clientType: 'trusted' })).body.message).toBe(
+      'clientType must be one of: confidential, public'
+    );
+    expect((await create({ redirectUris: ['https://client.example/#token'] })).status).toBe(400);
+    expect(
+      (await create({ clientType: 'public', allowedGrantTypes: ['client_credentials'] })).body
+        .message
+    ).toBe('Public clients cannot use the client_credentials grant');
+    expect(strapi.rows(CLIENT_UID)).toHaveLength(0);
+  });
+
+  it('updates only the fields sent, checked against the existing client', async () => {
+    const { body } = await create({ clientType: 'public' });
+    const params = { id: body.data.documentId };
+
+    const update = await call('update', { method: 'PUT', params, body: { active: false } });
+    expect(update.body.data).toMatchObject({ name: 'Claude', active: false });
+
+    const invalid = await call('update', {
+      method: 'PUT',
+      params,
+      body: { allowedGrantTypes: ['client_credentials'] },
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('answers 404 for unknown clients', async () => {
+    const params = { id: 'unknown' };
+
+    expect((await call('findOne', { method: 'GET', params })).status).toBe(404);
+    expect((await call('update', { method: 'PUT', params, body: {} })).status).toBe(404);
+  });
+
+  it('rotates the secret of confidential clients only', async () => {
+    const confidential = await create({});
+    const pub = await create({ clientType: 'public' });
+
+    const rotated = await call('rotateSecret', {
+      params: { id: confidential.body.data.documentId },
+    });
+    const [stored] = strapi.rows(CLIENT_UID);
+    expect(rotated.body.meta.clientSecret).not.toBe(confidential.body.meta.clientSecret);
+    expect(await verifySecret(rotated.body.meta.clientSecret, stored.clientSecret)).toBe(true);
+    expect(rotated.body.data).not.toHaveProperty('clientSecret');
+
+    expect((await call('rotateSecret', { params: { id: pub.body.data.documentId } })).status).toBe(
+      400
+    );
+  });
+});
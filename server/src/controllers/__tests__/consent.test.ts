@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClient, createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import type { AuthorizationRequest } from '../../services/authorization';
+import { BROWSER_COOKIE, signBrowserTicket } from '../../utils/ticket';
+import consentController, { AUTHORIZATION_TICKET_TTL } from '../consent';
+
+const checkCredentials = vi.fn();
+
+let strapi: TestStrapi;
+let request: AuthorizationRequest;
+
+/**
+ * A login ticket as rendered into the login page, and the browser's cookies
+ */
+function issueLoginTicket() {
+  const ctx = createContext();
+  const ticket = signBrowserTicket(ctx, strapi, { request }, AUTHORIZATION_TICKET_TTL);
+  return { ticket, cookies: { [BROWSER_COOKIE]: ctx.setCookies[BROWSER_COOKIE].value } };
+}
+
+async function login(body: Record<string, unknown>, cookies: Record<string, string>) {
+  const ctx = createContext({ method: 'POST', body, cookies });
+  await consentController({ strapi }).login(ctx);
+  return ctx;
+}
+
+beforeEach(async () => {
+  checkCredentials.mockReset().mockResolvedValue([null, null]);
+  strapi = createStrapi({ services: { 'admin::auth': { checkCredentials } } });
+  const client = await createClient(strapi);
+  request = {
+    clientId: client.clientId,
+    redirectUri: 'https://client.example/callback',
+    scope: 'mcp',
+  } as AuthorizationRequest;
+});
+
+describe('login', () => {
+  it('rejects credentials that are not strings without checking them', async () => {
+    const { ticket, cookies } = issueLoginTicket();
+
+    const ctx = await login({ ticket, email: ['a@example.com'], password: { $ne: '' } }, cookies);
+
+    expect(ctx.status).toBe(401);
+    expect(checkCredentials).not.toHaveBeenCalled();
+  });
+
+  it('rejects a ticket presented by another browser', async () => {
+    const { ticket } = issueLoginTicket();
+
+    const ctx = await login({ ticket, email: 'a@example.com', password: 'password' }, {});
+
+    expect(ctx.status).toBe(400);
+    expect(checkCredentials).not.toHaveBeenCalled();
+  });
+
+  it('asks for consent after signing in', async () => {
+    checkCredentials.mockResolvedValue([null, { id: 1, email: 'a@example.com' }]);
+    const { ticket, cookies } = issueLoginTicket();
+
+    const ctx = await login({ ticket, email: 'A@example.com', password: 'password' }, cookies);
+
+    expect(ctx.status).toBe(200);
+    expect(checkCredentials).toHaveBeenCalledWith({ email: 'a@example.com', password: 'password' });
+    expect(ctx.body).toContain('Test client');
+  });
+});
@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startOidcIssuer, type OidcIssuer } from '../../__tests__/oidc-issuer';
+import { createClient, createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import { BROWSER_COOKIE } from '../../utils/ticket';
+import federationController from '../federation';
+import oauthController from '../oauth';
+
+const REDIRECT_URI = 'https://client.example/callback';
+const CODE_CHALLENGE = createHash('sha256').update('verifier'.repeat(6)).digest('base64url');
+
+let issuer: OidcIssuer;
+let strapi: TestStrapi;
+let client: any;
+
+/**
+ * Start an authorization request, which sends the browser to the provider
+ */
+async function startAuthorization() {
+  const ctx = createContext({
+    query: {
+      response_type: 'code',
+      client_id: client.clientId,
+      redirect_uri: REDIRECT_URI,
+      scope: 'mcp',
+      state: 'client-state',
+      code_challenge: CODE_CHALLENGE,
+      code_challenge_method: 'S256',
+    },
+  });
+  await oauthController({ strapi }).authorize(ctx);
+  return { url: ctx.redirected as string, cookie: ctx.setCookies[BROWSER_COOKIE] };
+}
+
+async function callback(query: Record<string, string>, cookies: Record<string, string> = {}) {
+  const ctx = createContext({ query, cookies });
+  await federationController({ strapi }).callback(ctx);
+  return ctx;
+}
+
+beforeAll(async () => {
+  issuer = await startOidcIssuer({ clientSecret: 'provider-secret' });
+});
+
+afterAll(async () => {
+  await issuer.close();
+});
+
+describe.each(['database', 'memory'])('federated sign-in with the %s adapter', (adapter) => {
+  beforeEach(async () => {
+    strapi = createStrapi({
+      config: {
+        storage: { adapter },
+        federation: {
+          enabled: true,
+          issuer: issuer.issuer,
+          clientId: 'strapi',
+          clientSecret: 'provider-secret',
+        },
+      },
+      data: {
+        'admin::user': [{ email: 'ada@example.com', isActive: true, blocked: false, roles: [] }],
+      },
+    });
+    client = await createClient(strapi, { clientSecret: 'client-secret' });
+  });
+
+  it('sets an HttpOnly, SameSite=Lax cookie when sending the user to the provider', async () => {
+    const { url, cookie } = await startAuthorization();
+
+    expect(url.startsWith(`${issuer.issuer}/authorize?`)).toBe(true);
+    expect(cookie.options).toMatchObject({ httpOnly: true, sameSite: 'lax' });
+  });
+
+  it('signs in the matching user and asks for consent', async () => {
+    const { url, cookie } = await startAuthorization();
+    const params = issuer.authorize(url, {
+      sub: 'ada',
+      email: 'Ada@example.com',
+      email_verified: true,
+    });
+
+    const ctx = await callback(params, { [BROWSER_COOKIE]: cookie.value });
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toContain('Test client');
+    expect(ctx.body).toContain('ada@example.com');
+  });
+
+  it('rejects the callback in another browser without consuming the login', async () => {
+    const { url, cookie } = await startAuthorization();
+    const params = issuer.authorize(url, {
+      sub: 'ada',
+      email: 'ada@example.com',
+      email_verified: true,
+    });
+
+    expect((await callback(params)).status).toBe(400);
+    expect((await callback(params, { [BROWSER_COOKIE]: 'A'.repeat(43) })).status).toBe(400);
+    expect((await callback(params, { [BROWSER_COOKIE]: cookie.value })).status).toBe(200);
+  });
+
+  it('sends access_denied to the client when no user matches', async () => {
+    const { url, cookie } = await startAuthorization();
+    const params = issuer.authorize(url, {
+      sub: 'grace',
+      email: 'grace@example.com',
+      email_verified: true,
+    });
+
+    const ctx = await callback(params, { [BROWSER_COOKIE]: cookie.value });
+
+    expect(ctx.status).toBe(302);
+    const redirect = new URL(ctx.redirected);
+    expect(redirect.origin + redirect.pathname).toBe(REDIRECT_URI);
+    expect(redirect.searchParams.get('error')).toBe('access_denied');
+    expect(redirect.searchParams.get('state')).toBe('client-state');
+  });
+
+  it('rejects unverified email addresses', async () => {
+    const { url, cookie } = await startAuthorization();
+    const params = issuer.authorize(url, {
+      sub: 'ada',
+      email: 'ada@example.com',
+      email_verified: false,
+    });
+
+    const ctx = await callback(params, { [BROWSER_COOKIE]: cookie.value });
+
+    expect(new URL(ctx.redirected).searchParams.get('error')).toBe('access_denied');
+  });
+
+  it('continues a sign-in once', async () => {
+    const { url, cookie } = await startAuthorization();
+    const params = issuer.authorize(url, {
+      sub: 'ada',
+      email: 'ada@example.com',
+      email_verified: true,
+    });
+
+    expect((await callback(params, { [BROWSER_COOKIE]: cookie.value })).status).toBe(200);
+    expect((await callback(params, { [BROWSER_COOKIE]: cookie.value })).status).toBe(400);
+  });
+
+  it('purges sign-ins that were never completed', async () => {
+    await startAuthorization();
+    vi.useFakeTimers({ now: Date.now() + 11 * 60 * 1000, toFake: ['Date'] });
+
+    try {
+      const { federationStates } = await strapi.plugin(PLUGIN_ID).service('oauth').cleanupExpired();
+      expect(federationStates).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,636 @@
+import { createHash } from 'node:crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  CLIENT_UID,
+  createClient,
+  createContext,
+  createStrapi,
+  type TestStrapi,
+} from '../../__tests__/strapi';
+import type { AuthorizationRequest } from '../../services/authorization';
+import { hashToken } from '../../utils/hash';
+import oauthController from '../oauth';
+
+const TOKEN_UID = 'plugin::strapi-oauth-mcp-manager.mcp-oauth-token';
+const REDIRECT_URI = 'https://client.example/callback';
+const SECRET = 'client-secret';
+const USER = { id: '1', type: 'admin' as const };
+
+const CODE_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+const CODE_CHALLENGE = createHash('sha256').update(CODE_VERIFIER).digest('base64url');
+
+let strapi: TestStrapi;
+
+async function requestToken(body: Record<string, unknown>) {
+  const ctx = createContext({ method: 'POST', path: '/oauth/token', body });
+  await oauthController({ strapi }).token(ctx);
+  return ctx;
+}
+
+async function issueCode(client: any, request: Partial<AuthorizationRequest> = {}) {
+  return strapi
+    .plugin('strapi-oauth-mcp-manager')
+    .service('authorization')
+    .issueCode(
+      { clientId: client.clientId, redirectUri: REDIRECT_URI, scope: 'mcp', ...request },
+      USER
+    );
+}
+
+async function exchangeCode(client: any, code: string, extra: Record<string, unknown> = {}) {
+  return requestToken({
+    grant_type: 'authorization_code',
+    client_id: client.clientId,
+    client_secret: SECRET,
+    code,
+    redirect_uri: REDIRECT_URI,
+    ...extra,
+  });
+}
+
+beforeEach(() => {
+  strapi = createStrapi();
+});
+
+describe('token endpoint client authentication', () => {
+  it('rejects a wrong client secret', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const ctx = await requestToken({
+      grant_type: 'client_credentials',
+      client_id: client.clientId,
+      client_secret: 'wrong',
+    });
+
+    expect(ctx.status).toBe(401);
+    expect(ctx.body.error).toBe('invalid_client');
+  });
+
+  it('rejects secrets that are not strings', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    for (const clientSecret of [123, ['client-secret'], { secret: SECRET }]) {
+      const ctx = await requestToken({
+        grant_type: 'client_credentials',
+        client_id: client.clientId,
+        client_secret: clientSecret,
+      });
+
+      expect(ctx.status).toBe(401);
+      expect(ctx.body.error).toBe('invalid_client');
+    }
+  });
+
+  it('rejects unknown and malformed client ids', async () => {
+    for (const clientId of ['unknown', 42, ['a', 'b']]) {
+      const ctx = await requestToken({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: SECRET,
+      });
+
+      expect(ctx.status).toBe(401);
+      expect(ctx.body.error).toBe('invalid_client');
+    }
+  });
+
+  it('does not lock out a client from other IP addresses', async () => {
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedGrantTypes: ['client_credentials'],
+    });
+    const authenticate = async (clientSecret: string, ip: string) => {
+      const ctx = createContext({
+        method: 'POST',
+        ip,
+        body: {
+          grant_type: 'client_credentials',
+          client_id: client.clientId,
+          client_secret: clientSecret,
+        },
+      });
+      await oauthController({ strapi }).token(ctx);
+      return ctx;
+    };
+
+    for (let i = 0; i < 10; i++) {
+      await authenticate('wrong', '203.0.113.1');
+    }
+
+    expect((await authenticate(SECRET, '203.0.113.1')).status).toBe(429);
+    expect((await authenticate(SECRET, '198.51.100.7')).status).toBe(200);
+  });
+
+  it('counts only authenticated requests against the client limit', async () => {
+    strapi = createStrapi({ config: { rateLimit: { token: { client: 2 } } } });
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedGrantTypes: ['client_credentials'],
+    });
+    const authenticate = (clientSecret: string) =>
+      requestToken({
+        grant_type: 'client_credentials',
+        client_id: client.clientId,
+        client_secret: clientSecret,
+      });
+
+    for (let i = 0; i < 5; i++) {
+      expect((await authenticate('wrong')).status).toBe(401);
+    }
+
+    expect((await authenticate(SECRET)).status).toBe(200);
+    expect((await authenticate(SECRET)).status).toBe(200);
+    const limited = await authenticate(SECRET);
+    expect(limited.status).toBe(429);
+    expect(limited.body.error).toBe('too_many_requests');
+  });
+
+  it('accepts credentials in a Basic auth header', async () => {
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedGrantTypes: ['client_credentials'],
+    });
+    const ctx = createContext({
+      method: 'POST',
+      body: { grant_type: 'client_credentials' },
+      headers: {
+        authorization: `Basic ${Buffer.from(`${client.clientId}:${SECRET}`).toString('base64')}`,
+      },
+    });
+
+    await oauthController({ strapi }).token(ctx);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body.access_token).toEqual(expect.any(String));
+  });
+
+  it('rejects unsupported grant types', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const ctx = await requestToken({
+      grant_type: 'password',
+      client_id: client.clientId,
+      client_secret: SECRET,
+    });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('unsupported_grant_type');
+  });
+});
+
+describe('authorization_code grant', () => {
+  it('exchanges a code for a token pair and stores only digests', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(client);
+
+    const ctx = await exchangeCode(client, code);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toMatchObject({ token_type: 'Bearer', scope: 'mcp' });
+    const [stored] = strapi.rows(TOKEN_UID);
+    expect(stored.accessToken).toBe(hashToken(ctx.body.access_token));
+    expect(stored.refreshToken).toBe(hashToken(ctx.body.refresh_token));
+    expect(stored.userId).toBe(USER.id);
+  });
+
+  it('redeems a code only once', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(client);
+
+    await exchangeCode(client, code);
+    const ctx = await exchangeCode(client, code);
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('invalid_grant');
+  });
+
+  it('rejects a code issued to another client', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const other = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(other);
+
+    const ctx = await exchangeCode(client, code);
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('invalid_grant');
+  });
+
+  it('rejects a different redirect_uri', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(client);
+
+    const ctx = await exchangeCode(client, code, { redirect_uri: 'https://evil.example/cb' });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error_description).toBe('redirect_uri mismatch');
+  });
+
+  it('leaves out the refresh token for clients without the refresh_token grant', async () => {
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedGrantTypes: ['authorization_code'],
+    });
+    const code = await issueCode(client);
+
+    const ctx = await exchangeCode(client, code);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body.refresh_token).toBeUndefined();
+  });
+});
+
+describe('PKCE', () => {
+  const pkceRequest = { codeChallenge: CODE_CHALLENGE, codeChallengeMethod: 'S256' };
+
+  it('accepts the verifier matching the challenge', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(client, pkceRequest);
+
+    const ctx = await exchangeCode(client, code, { code_verifier: CODE_VERIFIER });
+
+    expect(ctx.status).toBe(200);
+  });
+
+  it('rejects a wrong verifier', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(client, pkceRequest);
+
+    const ctx = await exchangeCode(client, code, { code_verifier: 'x'.repeat(43) });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body).toEqual({
+      error: 'invalid_grant',
+      error_description: 'PKCE verification failed',
+    });
+  });
+
+  it('rejects a missing or malformed verifier', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    for (const codeVerifier of [undefined, 'too-short', `${CODE_VERIFIER}!`]) {
+      const code = await issueCode(client, pkceRequest);
+      const ctx = await exchangeCode(client, code, { code_verifier: codeVerifier });
+
+      expect(ctx.status).toBe(400);
+      expect(ctx.body.error_description).toBe('Missing or invalid code_verifier');
+    }
+  });
+
+  it('rejects a verifier for a code issued without a challenge', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const code = await issueCode(client);
+
+    const ctx = await exchangeCode(client, code, { code_verifier: CODE_VERIFIER });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('invalid_grant');
+  });
+
+  it('lets public clients redeem codes without a secret', async () => {
+    const client = await createClient(strapi, { clientType: 'public' });
+    const code = await issueCode(client, pkceRequest);
+
+    const ctx = await requestToken({
+      grant_type: 'authorization_code',
+      client_id: client.clientId,
+      code,
+      redirect_uri: REDIRECT_URI,
+      code_verifier: CODE_VERIFIER,
+    });
+
+    expect(ctx.status).toBe(200);
+  });
+
+  it('requires a challenge at /authorize for public clients', async () => {
+    const client = await createClient(strapi, { clientType: 'public' });
+    const ctx = createContext({
+      query: {
+        client_id: client.clientId,
+        redirect_uri: REDIRECT_URI,
+        response_type: 'code',
+      },
+    });
+
+    await oauthController({ strapi }).authorize(ctx);
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error_description).toBe('code_challenge is required for this client');
+  });
+});
+
+describe('refresh_token grant', () => {
+  async function getTokens(client: any, scope = 'mcp openid') {
+    const ctx = await exchangeCode(client, await issueCode(client, { scope }));
+    return ctx.body;
+  }
+
+  async function refresh(client: any, refreshToken: string, extra: Record<string, unknown> = {}) {
+    return requestToken({
+      grant_type: 'refresh_token',
+      client_id: client.clientId,
+      client_secret: SECRET,
+      refresh_token: refreshToken,
+      ...extra,
+    });
+  }
+
+  it('rotates the refresh token', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(client);
+
+    const ctx = await refresh(client, tokens.refresh_token);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body.refresh_token).not.toBe(tokens.refresh_token);
+    const old = strapi
+      .rows(TOKEN_UID)
+      .find((row) => row.refreshToken === hashToken(tokens.refresh_token));
+    expect(old.revoked).toBe(true);
+    expect(old.rotatedAt).toEqual(expect.any(String));
+  });
+
+  it('may narrow but not widen the scope', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(client, 'mcp email');
+
+    const widened = await refresh(client, tokens.refresh_token, { scope: 'mcp openid' });
+    expect(widened.status).toBe(400);
+    expect(widened.body.error).toBe('invalid_scope');
+
+    const narrowed = await refresh(client, tokens.refresh_token, { scope: 'mcp' });
+    expect(narrowed.status).toBe(200);
+    expect(narrowed.body.scope).toBe('mcp');
+  });
+
+  it('drops scopes the client is no longer allowed', async () => {
+    strapi = createStrapi({ config: { scopes: { transcripts: { paths: ['/api/transcripts'] } } } });
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedScopes: ['mcp', 'transcripts'],
+    });
+    const tokens = await getTokens(client, 'mcp transcripts openid');
+    const narrow = (allowedScopes: string[]) =>
+      strapi.db.query(CLIENT_UID).update({ where: { id: client.id }, data: { allowedScopes } });
+
+    await narrow(['transcripts']);
+    const narrowed = await refresh(client, tokens.refresh_token);
+    expect(narrowed.status).toBe(200);
+    expect(narrowed.body.scope).toBe('transcripts openid');
+
+    await narrow(['other']);
+    const lost = await refresh(client, narrowed.body.refresh_token, { scope: 'transcripts' });
+    expect(lost.status).toBe(400);
+    expect(lost.body.error).toBe('invalid_scope');
+  });
+
+  it('rejects a refresh token of another client', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const other = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(other);
+
+    const ctx = await refresh(client, tokens.refresh_token);
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('invalid_grant');
+  });
+
+  it('revokes the whole family when a rotated token is replayed after the grace period', async () => {
+    strapi = createStrapi({ config: { tokens: { refreshGracePeriod: 0 } } });
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(client);
+    const rotated = await refresh(client, tokens.refresh_token);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const replay = await refresh(client, tokens.refresh_token);
+
+    expect(replay.status).toBe(400);
+    expect(replay.body.error_description).toBe('Refresh token has already been used');
+    expect(strapi.rows(TOKEN_UID).every((row) => row.revoked)).toBe(true);
+    const successor = await refresh(client, rotated.body.refresh_token);
+    expect(successor.body.error).toBe('invalid_grant');
+  });
+
+  it('rejects a replay within the grace period without forking the family', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(client);
+    const rotated = await refresh(client, tokens.refresh_token);
+
+    const replay = await refresh(client, tokens.refresh_token);
+
+    expect(replay.status).toBe(400);
+    expect(replay.body.error).toBe('invalid_grant');
+    expect(strapi.rows(TOKEN_UID)).toHaveLength(2);
+    const successor = await refresh(client, rotated.body.refresh_token);
+    expect(successor.status).toBe(200);
+  });
+
+  it('revokes the whole family on a second replay within the grace period', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(client);
+    const rotated = await refresh(client, tokens.refresh_token);
+
+    await refresh(client, tokens.refresh_token);
+    const replay = await refresh(client, tokens.refresh_token);
+
+    expect(replay.status).toBe(400);
+    expect(strapi.rows(TOKEN_UID).every((row) => row.revoked)).toBe(true);
+    const successor = await refresh(client, rotated.body.refresh_token);
+    expect(successor.body.error).toBe('invalid_grant');
+  });
+
+  it('gives concurrent refreshes of the same token a single successor', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = await getTokens(client);
+
+    const responses = await Promise.all([
+      refresh(client, tokens.refresh_token),
+      refresh(client, tokens.refresh_token),
+    ]);
+
+    expect(responses.map((ctx) => ctx.status).sort()).toEqual([200, 400]);
+    expect(strapi.rows(TOKEN_UID)).toHaveLength(2);
+  });
+});
+
+describe('client_credentials grant', () => {
+  it('issues an access token without a refresh token or user', async () => {
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedGrantTypes: ['client_credentials'],
+    });
+
+    const ctx = await requestToken({
+      grant_type: 'client_credentials',
+      client_id: client.clientId,
+      client_secret: SECRET,
+    });
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body.refresh_token).toBeUndefined();
+    expect(strapi.rows(TOKEN_UID)[0].userId).toBeNull();
+  });
+
+  it('is only available to clients it was enabled for', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const ctx = await requestToken({
+      grant_type: 'client_credentials',
+      client_id: client.clientId,
+      client_secret: SECRET,
+    });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('unauthorized_client');
+  });
+
+  it('rejects scopes the client is not allowed', async () => {
+    const client = await createClient(strapi, {
+      clientSecret: SECRET,
+      allowedGrantTypes: ['client_credentials'],
+    });
+
+    const ctx = await requestToken({
+      grant_type: 'client_credentials',
+      client_id: client.clientId,
+      client_secret: SECRET,
+      scope: 'mcp:other',
+    });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('invalid_scope');
+  });
+});
+
+describe('authorization endpoint', () => {
+  it('rejects parameters that are not strings', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const query = { client_id: client.clientId, redirect_uri: REDIRECT_URI, response_type: 'code' };
+
+    for (const [name, value] of Object.entries({
+      client_id: [client.clientId, 'other'],
+      redirect_uri: [REDIRECT_URI, 'https://attacker.example/callback'],
+      state: ['a', 'b'],
+      scope: { mcp: 'mcp' },
+      resource: ['https://a.example', 'https://b.example'],
+    })) {
+      const ctx = createContext({ query: { ...query, [name]: value } });
+      await oauthController({ strapi }).authorize(ctx);
+
+      expect(ctx.status).toBe(400);
+      expect(ctx.body).toEqual({
+        error: 'invalid_request',
+        error_description: `${name} must be a string`,
+      });
+      expect(ctx.redirected).toBeNull();
+    }
+  });
+});
+
+describe('revocation endpoint', () => {
+  async function revoke(client: any, body: Record<string, unknown>) {
+    const ctx = createContext({
+      method: 'POST',
+      body: { client_id: client.clientId, client_secret: SECRET, ...body },
+    });
+    await oauthController({ strapi }).revoke(ctx);
+    return ctx;
+  }
+
+  it('revokes an access token of the client', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = (await exchangeCode(client, await issueCode(client))).body;
+
+    const ctx = await revoke(client, { token: tokens.access_token });
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toEqual({});
+    expect(strapi.rows(TOKEN_UID)[0].revoked).toBe(true);
+  });
+
+  it('revokes by refresh token when hinted', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = (await exchangeCode(client, await issueCode(client))).body;
+
+    await revoke(client, { token: tokens.refresh_token, token_type_hint: 'refresh_token' });
+
+    expect(strapi.rows(TOKEN_UID)[0].revoked).toBe(true);
+  });
+
+  it('answers 200 for unknown tokens and tokens of other clients without revoking them', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const other = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = (await exchangeCode(other, await issueCode(other))).body;
+
+    expect((await revoke(client, { token: 'unknown' })).status).toBe(200);
+    expect((await revoke(client, { token: tokens.access_token })).status).toBe(200);
+    expect(strapi.rows(TOKEN_UID)[0].revoked).toBe(false);
+  });
+
+  it('requires client authentication', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const ctx = await revoke(client, { token: 'token', client_secret: 'wrong' });
+
+    expect(ctx.status).toBe(401);
+    expect(ctx.body.error).toBe('invalid_client');
+  });
+
+  it('rejects unsupported token type hints', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const ctx = await revoke(client, { token: 'token', token_type_hint: 'id_token' });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('unsupported_token_type');
+  });
+});
+
+describe('introspection endpoint', () => {
+  async function introspect(client: any, body: Record<string, unknown>) {
+    const ctx = createContext({
+      method: 'POST',
+      body: { client_id: client.clientId, client_secret: SECRET, ...body },
+    });
+    await oauthController({ strapi }).introspect(ctx);
+    return ctx;
+  }
+
+  it('describes an active token', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = (await exchangeCode(client, await issueCode(client))).body;
+
+    const ctx = await introspect(client, { token: tokens.access_token });
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toMatchObject({
+      active: true,
+      client_id: client.clientId,
+      sub: USER.id,
+      scope: 'mcp',
+      token_type: 'Bearer',
+    });
+  });
+
+  it('reports revoked and unknown tokens as inactive', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const tokens = (await exchangeCode(client, await issueCode(client))).body;
+    await strapi
+      .plugin('strapi-oauth-mcp-manager')
+      .service('oauth')
+      .revokeClientTokens(client.clientId);
+
+    expect((await introspect(client, { token: tokens.access_token })).body).toEqual({
+      active: false,
+    });
+    expect((await introspect(client, { token: 'unknown' })).body).toEqual({ active: false });
+  });
+
+  it('is not available to public clients', async () => {
+    const client = await createClient(strapi, { clientType: 'public' });
+
+    const ctx = await introspect(client, { token: 'token' });
+
+    expect(ctx.status).toBe(401);
+    expect(ctx.body.error).toBe('invalid_client');
+  });
+});
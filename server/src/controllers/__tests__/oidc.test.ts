@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  CLIENT_UID,
+  createClient,
+  createContext,
+  createStrapi,
+  type TestStrapi,
+} from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import { decodeJwt } from '../../utils/jwt';
+import oauthController from '../oauth';
+
+const ADMIN_USER_UID = 'admin::user';
+const REDIRECT_URI = 'https://client.example/callback';
+const SECRET = 'client-secret';
+const USER = { id: '1', type: 'admin' as const };
+
+let strapi: TestStrapi;
+
+async function getTokens(client: any, scope: string, nonce?: string) {
+  const code = await strapi
+    .plugin(PLUGIN_ID)
+    .service('authorization')
+    .issueCode({ clientId: client.clientId, redirectUri: REDIRECT_URI, scope, nonce }, USER);
+  const ctx = createContext({
+    method: 'POST',
+    body: {
+      grant_type: 'authorization_code',
+      client_id: client.clientId,
+      client_secret: SECRET,
+      code,
+      redirect_uri: REDIRECT_URI,
+    },
+  });
+  await oauthController({ strapi }).token(ctx);
+  return ctx.body;
+}
+
+async function userinfo(accessToken: string) {
+  const ctx = createContext({
+    path: '/oauth/userinfo',
+    headers: { authorization: `Bearer ${accessToken}` },
+  });
+  await oauthController({ strapi }).userinfo(ctx);
+  return ctx;
+}
+
+beforeEach(() => {
+  strapi = createStrapi({
+    data: {
+      [ADMIN_USER_UID]: [
+        { email: 'admin@example.com', firstname: 'Ada', isActive: true, roles: [] },
+      ],
+    },
+  });
+});
+
+describe('id_token', () => {
+  it('is issued for the openid scope with the nonce of the authorization request', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const { id_token } = await getTokens(client, 'openid email', 'n-0S6_WzA2Mj');
+
+    expect(decodeJwt(id_token)!.payload).toMatchObject({
+      iss: `http://localhost:1337/api/${PLUGIN_ID}`,
+      aud: client.clientId,
+      nonce: 'n-0S6_WzA2Mj',
+      email: 'admin@example.com',
+    });
+  });
+
+  it('leaves the nonce out when none was sent', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    const { id_token } = await getTokens(client, 'openid');
+
+    expect(decodeJwt(id_token)!.payload).not.toHaveProperty('nonce');
+  });
+
+  it('is not issued without the openid scope', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+
+    expect(await getTokens(client, 'mcp')).not.toHaveProperty('id_token');
+  });
+});
+
+describe('userinfo endpoint', () => {
+  it('returns the claims of the user the token was issued to', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const { access_token } = await getTokens(client, 'openid email');
+
+    const ctx = await userinfo(access_token);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toMatchObject({ sub: expect.any(String), email: 'admin@example.com' });
+  });
+
+  it('does not resolve the client API token', async () => {
+    strapi = createStrapi({
+      data: { [ADMIN_USER_UID]: [{ email: 'admin@example.com', isActive: true, roles: [] }] },
+      services: { 'admin::api-token': { getById: async () => null } },
+    });
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const { access_token } = await getTokens(client, 'openid email');
+    await strapi.db
+      .query(CLIENT_UID)
+      .update({ where: { id: client.id }, data: { apiTokenId: 7, strapiApiToken: null } });
+
+    const ctx = await userinfo(access_token);
+
+    expect(ctx.status).toBe(200);
+    expect(strapi.rows(CLIENT_UID)[0].active).toBe(true);
+  });
+
+  it('requires the openid scope', async () => {
+    const client = await createClient(strapi, { clientSecret: SECRET });
+    const { access_token } = await getTokens(client, 'mcp');
+
+    const ctx = await userinfo(access_token);
+
+    expect(ctx.status).toBe(403);
+    expect(ctx.body.error).toBe('insufficient_scope');
+  });
+});
+
+describe('OpenID Provider metadata', () => {
+  it('advertises the userinfo endpoint, signing algorithm and OpenID scopes', async () => {
+    const ctx = createContext({ path: '/.well-known/openid-configuration' });
+
+    await oauthController({ strapi }).discovery(ctx);
+
+    const pluginUrl = `http://localhost:1337/api/${PLUGIN_ID}`;
+    expect(ctx.body).toMatchObject({
+      issuer: pluginUrl,
+      userinfo_endpoint: `${pluginUrl}/oauth/userinfo`,
+      jwks_uri: `${pluginUrl}/.well-known/jwks.json`,
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+    });
+    expect(ctx.body.scopes_supported).toEqual(
+      expect.arrayContaining(['mcp', 'openid', 'profile', 'email'])
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CLIENT_UID, createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { DEVICE_CODE_GRANT_TYPE } from '../../utils/grant-types';
+import registrationController from '../registration';
+
+const INITIAL_ACCESS_TOKEN = 'initial-access-token';
+const REDIRECT_URIS = ['https://client.example/callback'];
+
+let strapi: TestStrapi;
+
+async function register(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  const ctx = createContext({ method: 'POST', body, headers });
+  await registrationController({ strapi }).register(ctx);
+  return ctx;
+}
+
+const storedClient = (clientId: string) =>
+  strapi.rows(CLIENT_UID).find((client) => client.clientId === clientId);
+
+beforeEach(() => {
+  strapi = createStrapi({ config: { registration: { mode: 'open' } } });
+});
+
+describe('client registration grant types', () => {
+  it('gives clients without grant_types the interactive defaults', async () => {
+    const ctx = await register({ redirect_uris: REDIRECT_URIS });
+
+    expect(ctx.status).toBe(201);
+    expect(ctx.body.grant_types).toEqual(['authorization_code', 'refresh_token']);
+    expect(storedClient(ctx.body.client_id).allowedGrantTypes).toBeNull();
+  });
+
+  it('stores the requested grant types on the client', async () => {
+    const ctx = await register({ grant_types: [DEVICE_CODE_GRANT_TYPE, 'refresh_token'] });
+
+    expect(ctx.status).toBe(201);
+    expect(ctx.body.grant_types).toEqual([DEVICE_CODE_GRANT_TYPE, 'refresh_token']);
+    expect(ctx.body.redirect_uris).toEqual([]);
+    expect(storedClient(ctx.body.client_id).allowedGrantTypes).toEqual([
+      DEVICE_CODE_GRANT_TYPE,
+      'refresh_token',
+    ]);
+  });
+
+  it('rejects unknown grant types', async () => {
+    for (const grantTypes of [['implicit'], 'authorization_code', []]) {
+      const ctx = await register({ redirect_uris: REDIRECT_URIS, grant_types: grantTypes });
+
+      expect(ctx.status).toBe(400);
+      expect(ctx.body.error).toBe('invalid_client_metadata');
+    }
+  });
+
+  it('requires redirect URIs for the authorization code flow', async () => {
+    const ctx = await register({ grant_types: ['authorization_code'] });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.error).toBe('invalid_redirect_uri');
+  });
+
+  it('only offers client_credentials to confidential clients registered with a token', async () => {
+    expect((await register({ grant_types: ['client_credentials'] })).status).toBe(400);
+
+    strapi = createStrapi({
+      config: { registration: { mode: 'token', initialAccessToken: INITIAL_ACCESS_TOKEN } },
+    });
+    const headers = { authorization: `Bearer ${INITIAL_ACCESS_TOKEN}` };
+
+    const publicClient = await register(
+      { grant_types: ['client_credentials'], token_endpoint_auth_method: 'none' },
+      headers
+    );
+    expect(publicClient.status).toBe(400);
+
+    const ctx = await register({ grant_types: ['client_credentials'] }, headers);
+    expect(ctx.status).toBe(201);
+    expect(storedClient(ctx.body.client_id).allowedGrantTypes).toEqual(['client_credentials']);
+  });
+});
+
+describe('open registration', () => {
+  it('keeps anonymously registered clients inactive', async () => {
+    const ctx = await register({ redirect_uris: REDIRECT_URIS });
+
+    expect(ctx.status).toBe(201);
+    expect(storedClient(ctx.body.client_id)).toMatchObject({
+      active: false,
+      strapiApiToken: null,
+    });
+  });
+
+  it('cannot be combined with API tokens created per client', () => {
+    expect(() =>
+      createStrapi({
+        config: { registration: { mode: 'open' }, apiTokens: { autoCreate: true } },
+      })
+    ).toThrow(/apiTokens.autoCreate cannot be enabled while registration.mode is 'open'/);
+  });
+});
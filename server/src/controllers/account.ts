@@ -0,0 +1,90 @@
+/**
+ * Account Controller
+ *
+ * Lets users see the clients they have authorized and revoke them. Admin
+ * users call it through the admin API; Users & Permissions users through
+ * the content API with their JWT.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import type { TokenUser } from '../services/authorization';
+
+/**
+ * The signed-in user: the admin user on admin routes, otherwise the
+ * Users & Permissions user of the bearer JWT. Returns null if there is none.
+ */
+async function getAccountUser(ctx: any, strapi: Core.Strapi): Promise<TokenUser | null> {
+  if (ctx.state.auth?.strategy?.name === 'admin' && ctx.state.user) {
+    return { id: String(ctx.state.user.id), type: 'admin' };
+  }
+
+  const usersPermissions = strapi.plugin('users-permissions');
+  if (!usersPermissions) {
+    return null;
+  }
+
+  try {
+    const payload = await usersPermissions.service('jwt').getToken(ctx);
+    if (!payload?.id) {
+      return null;
+    }
+
+    const user = await strapi.db.query('plugin::users-permissions.user').findOne({
+      where: { id: payload.id },
+      select: ['id', 'blocked'],
+    });
+    return user && !user.blocked ? { id: String(user.id), type: 'users-permissions' } : null;
+  } catch {
+    return null;
+  }
+}
+
+const accountController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * GET /account/apps
+   */
+  async apps(ctx: any) {
+    const user = await getAccountUser(ctx, strapi);
+    if (!user) {
+      return ctx.unauthorized('Sign in to see your authorized apps');
+    }
+
+    const apps = await strapi.plugin(PLUGIN_ID).service('authorization').listUserApps(user);
+    ctx.body = { data: apps };
+  },
+
+  /**
+   * POST /account/apps/:clientId/revoke
+   */
+  async revokeApp(ctx: any) {
+    const user = await getAccountUser(ctx, strapi);
+    if (!user) {
+      return ctx.unauthorized('Sign in to revoke authorized apps');
+    }
+
+    const { clientId } = ctx.params;
+    const result = await strapi
+      .plugin(PLUGIN_ID)
+      .service('authorization')
+      .revokeUserApp(user, clientId);
+    if (!result) {
+      return ctx.notFound('App not authorized');
+    }
+
+    strapi.log.info(
+      `[${PLUGIN_ID}] User ${user.type}:${user.id} revoked OAuth client ${clientId} ` +
+        `(${result.tokens} token(s))`
+    );
+    await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'token_revoked', {
+      outcome: 'success',
+      clientId,
+      userId: user.id,
+      details: { userType: user.type, revoked: result.tokens, grants: result.grants },
+    });
+
+    ctx.body = { data: result };
+  },
+});
+
+export default accountController;
@@ -0,0 +1,92 @@
+/**
+ * Audit Admin Controller
+ *
+ * Admin panel API for browsing and exporting the audit log.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import { AUDIT_EVENTS, type AuditEventFilters } from '../services/audit';
+import { toCsv } from '../utils/csv';
+
+/**
+ * Most events in one export
+ */
+const EXPORT_LIMIT = 10000;
+
+const MAX_PAGE_SIZE = 100;
+
+const EXPORT_COLUMNS = [
+  'createdAt',
+  'event',
+  'outcome',
+  'clientId',
+  'userId',
+  'authMethod',
+  'ip',
+  'userAgent',
+  'path',
+  'details',
+];
+
+/**
+ * Read the filters from the query string, ignoring anything that isn't a string
+ */
+function parseFilters(query: any): AuditEventFilters {
+  const filters: AuditEventFilters = {};
+  for (const key of ['event', 'outcome', 'clientId', 'ip', 'from', 'to'] as const) {
+    if (typeof query?.[key] === 'string' && query[key]) {
+      filters[key] = query[key];
+    }
+  }
+  return filters;
+}
+
+const toPositiveInteger = (value: unknown, fallback: number) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+const auditController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * GET /audit-events
+   */
+  async find(ctx: any) {
+    const { results, pagination } = await strapi
+      .plugin(PLUGIN_ID)
+      .service('audit')
+      .list(parseFilters(ctx.query), {
+        page: toPositiveInteger(ctx.query.page, 1),
+        pageSize: Math.min(toPositiveInteger(ctx.query.pageSize, 25), MAX_PAGE_SIZE),
+      });
+
+    ctx.body = { data: results, meta: { pagination, events: AUDIT_EVENTS } };
+  },
+
+  /**
+   * GET /audit-events/export?format=csv|json
+   */
+  async export(ctx: any) {
+    const format = ctx.query.format ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return ctx.badRequest('format must be csv or json');
+    }
+
+    const events = await strapi
+      .plugin(PLUGIN_ID)
+      .service('audit')
+      .export(parseFilters(ctx.query), EXPORT_LIMIT);
+    const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    ctx.set('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'csv') {
+      ctx.type = 'text/csv';
+      ctx.body = toCsv(events, EXPORT_COLUMNS);
+    } else {
+      ctx.type = 'application/json';
+      ctx.body = JSON.stringify(events, null, 2);
+    }
+  },
+});
+
+export default auditController;
@@ -0,0 +1,281 @@
+/**
+ * Client Admin Controller
+ *
+ * Admin panel API for managing OAuth clients, their tokens and consent grants.
+ * Secrets and linked API tokens are never returned, except for a newly
+ * generated client secret, which is shown once.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import type { CreateClientInput, UpdateClientInput } from '../services/client';
+import { GRANT_TYPES, getClientGrantTypes, isGrantType } from '../utils/grant-types';
+import { getSupportedScopes } from '../utils/scopes';
+
+const CLIENT_TYPES = ['confidential', 'public'];
+
+/**
+ * Strip credentials from a client before sending it to the admin panel
+ */
+function sanitizeClient(client: any) {
+  const { clientSecret, strapiApiToken, ...rest } = client;
+  return {
+    ...rest,
+    hasClientSecret: !!clientSecret,
+    hasStrapiApiToken: !!strapiApiToken,
+  };
+}
+
+/**
+ * Settings the admin panel needs to edit clients
+ */
+function getMeta(strapi: Core.Strapi) {
+  return {
+    supportedScopes: getSupportedScopes(
+      strapi.plugin(PLUGIN_ID).service('registry').getScopesConfig()
+    ),
+    supportedGrantTypes: GRANT_TYPES,
+  };
+}
+
+const isNullablePositiveInteger = (value: unknown) =>
+  value === null || (Number.isInteger(value) && (value as number) > 0);
+
+/**
+ * Validate a create or update request body. Returns the input, or an error message.
+ * Updates are checked against the existing client.
+ */
+function parseClientInput(
+  strapi: Core.Strapi,
+  body: any,
+  { existing }: { existing?: any } = {}
+): { input?: CreateClientInput | UpdateClientInput; error?: string } {
+  const partial = !!existing;
+  const input: Record<string, unknown> = {};
+  const has = (key: string) => body?.[key] !== undefined;
+
+  if (!partial || has('name')) {
+    if (typeof body?.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (!partial) {
+    if (!CLIENT_TYPES.includes(body?.clientType)) {
+      return { error: `clientType must be one of: ${CLIENT_TYPES.join(', ')}` };
+    }
+    input.clientType = body.clientType;
+  }
+
+  if (!partial || has('redirectUris')) {
+    const uris = body?.redirectUris;
+    if (
+      !Array.isArray(uris) ||
+      !uris.every((uri) => typeof uri === 'string' && uri && !/[\s#]/.test(uri))
+    ) {
+      return { error: 'redirectUris must be a list of URIs without whitespace or fragments' };
+    }
+    input.redirectUris = uris;
+  }
+
+  if (has('allowedGrantTypes')) {
+    const grantTypes = body.allowedGrantTypes;
+    if (grantTypes !== null && (!Array.isArray(grantTypes) || !grantTypes.every(isGrantType))) {
+      return { error: `allowedGrantTypes must be null or a list of: ${GRANT_TYPES.join(', ')}` };
+    }
+    input.allowedGrantTypes = grantTypes?.length ? grantTypes : null;
+  }
+
+  if (has('allowedScopes')) {
+    const { supportedScopes: supported } = getMeta(strapi);
+    const scopes = body.allowedScopes;
+    if (scopes !== null && (!Array.isArray(scopes) || !scopes.every((s) => supported.includes(s)))) {
+      return { error: `allowedScopes must be null or a list of: ${supported.join(', ')}` };
+    }
+    input.allowedScopes = scopes?.length ? scopes : null;
+  }
+
+  for (const key of ['requirePkce', 'active']) {
+    if (has(key)) {
+      if (typeof body[key] !== 'boolean') {
+        return { error: `${key} must be a boolean` };
+      }
+      input[key] = body[key];
+    }
+  }
+
+  for (const key of ['apiTokenId', 'accessTokenTtl', 'refreshTokenTtl']) {
+    if (has(key)) {
+      if (!isNullablePositiveInteger(body[key])) {
+        return { error: `${key} must be null or a positive integer` };
+      }
+      input[key] = body[key];
+    }
+  }
+
+  for (const key of ['description', 'strapiApiToken']) {
+    if (has(key)) {
+      if (body[key] !== null && typeof body[key] !== 'string') {
+        return { error: `${key} must be a string` };
+      }
+      input[key] = body[key] || null;
+    }
+  }
+
+  // Checks across fields, with the existing values for fields left unchanged
+  const merged = { ...existing, ...input };
+  const grantTypes = getClientGrantTypes(merged);
+  if (grantTypes.includes('client_credentials') && merged.clientType === 'public') {
+    return { error: 'Public clients cannot use the client_credentials grant' };
+  }
+  if (grantTypes.includes('authorization_code') && !merged.redirectUris?.length) {
+    return { error: 'redirectUris must not be empty for clients using authorization_code' };
+  }
+
+  return { input: input as CreateClientInput | UpdateClientInput };
+}
+
+const clientController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * GET /clients
+   */
+  async find(ctx: any) {
+    const clients = await strapi.plugin(PLUGIN_ID).service('client').listClients();
+    ctx.body = { data: clients.map(sanitizeClient), meta: getMeta(strapi) };
+  },
+
+  /**
+   * GET /clients/:id
+   */
+  async findOne(ctx: any) {
+    const client = await strapi.plugin(PLUGIN_ID).service('client').getClient(ctx.params.id);
+    if (!client) {
+      return ctx.notFound('OAuth client not found');
+    }
+
+    ctx.body = { data: sanitizeClient(client), meta: getMeta(strapi) };
+  },
+
+  /**
+   * POST /clients
+   */
+  async create(ctx: any) {
+    const { input, error } = parseClientInput(strapi, ctx.request.body);
+    if (error) {
+      return ctx.badRequest(error);
+    }
+
+    const { client, clientSecret } = await strapi
+      .plugin(PLUGIN_ID)
+      .service('client')
+      .createClient(input as CreateClientInput);
+
+    ctx.status = 201;
+    ctx.body = { data: sanitizeClient(client), meta: { clientSecret } };
+  },
+
+  /**
+   * PUT /clients/:id
+   */
+  async update(ctx: any) {
+    const clientService = strapi.plugin(PLUGIN_ID).service('client');
+    const existing = await clientService.getClient(ctx.params.id);
+    if (!existing) {
+      return ctx.notFound('OAuth client not found');
+    }
+
+    const { input, error } = parseClientInput(strapi, ctx.request.body, { existing });
+    if (error) {
+      return ctx.badRequest(error);
+    }
+
+    const client = await clientService.updateClient(ctx.params.id, input);
+    ctx.body = { data: sanitizeClient(client) };
+  },
+
+  /**
+   * POST /clients/:id/rotate-secret
+   */
+  async rotateSecret(ctx: any) {
+    const result = await strapi.plugin(PLUGIN_ID).service('client').rotateSecret(ctx.params.id);
+    if (!result) {
+      return ctx.badRequest('Only existing confidential clients have a secret');
+    }
+
+    ctx.body = { data: sanitizeClient(result.client), meta: { clientSecret: result.clientSecret } };
+  },
+
+  /**
+   * GET /clients/:id/tokens
+   */
+  async tokens(ctx: any) {
+    const client = await strapi.plugin(PLUGIN_ID).service('client').getClient(ctx.params.id);
+    if (!client) {
+      return ctx.notFound('OAuth client not found');
+    }
+
+    const tokens = await strapi.plugin(PLUGIN_ID).service('oauth').listClientTokens(client.clientId);
+    ctx.body = { data: tokens };
+  },
+
+  /**
+   * POST /clients/:id/tokens/revoke
+   */
+  async revokeTokens(ctx: any) {
+    const client = await strapi.plugin(PLUGIN_ID).service('client').getClient(ctx.params.id);
+    if (!client) {
+      return ctx.notFound('OAuth client not found');
+    }
+
+    const revoked = await strapi
+      .plugin(PLUGIN_ID)
+      .service('oauth')
+      .revokeClientTokens(client.clientId);
+
+    strapi.log.info(
+      `[${PLUGIN_ID}] Revoked ${revoked} token(s) of OAuth client ${client.clientId} ` +
+        `(admin user ${ctx.state.user?.id})`
+    );
+    await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'token_revoked', {
+      outcome: 'success',
+      clientId: client.clientId,
+      details: { revoked, adminUserId: ctx.state.user?.id ?? null },
+    });
+
+    ctx.body = { data: { revoked } };
+  },
+
+  /**
+   * GET /clients/:id/grants
+   */
+  async grants(ctx: any) {
+    const client = await strapi.plugin(PLUGIN_ID).service('client').getClient(ctx.params.id);
+    if (!client) {
+      return ctx.notFound('OAuth client not found');
+    }
+
+    const grants = await strapi
+      .plugin(PLUGIN_ID)
+      .service('authorization')
+      .listGrants(client.clientId);
+    ctx.body = { data: grants };
+  },
+
+  /**
+   * POST /grants/:id/revoke
+   */
+  async revokeGrant(ctx: any) {
+    const grant = await strapi
+      .plugin(PLUGIN_ID)
+      .service('authorization')
+      .revokeGrant(ctx.params.id);
+    if (!grant) {
+      return ctx.notFound('Grant not found');
+    }
+
+    ctx.body = { data: grant };
+  },
+});
+
+export default clientController;
@@ -0,0 +1,333 @@
+/**
+ * Consent Controller
+ *
+ * Interactive part of the authorization code flow: the resource owner signs
+ * in, then approves or denies the client before a code is issued. Device
+ * authorizations (RFC 8628) go through the same steps, but the decision is
+ * stored for the device to poll instead of being redirected to the client.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { AuthorizationConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import type { AuthorizationRequest, AuthorizedUser } from '../services/authorization';
+import { buildClientRedirect } from '../services/authorization';
+import { DEVICE_CODE_GRANT_TYPE } from '../utils/grant-types';
+import { describeScope, parseScope } from '../utils/scopes';
+import { signBrowserTicket, verifyBrowserTicket } from '../utils/ticket';
+import {
+  renderConsentPage,
+  renderDeviceDonePage,
+  renderErrorPage,
+  renderLoginPage,
+  sendHtml,
+} from '../views';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+/**
+ * How long the user has to finish signing in and approving (seconds)
+ */
+export const AUTHORIZATION_TICKET_TTL = 10 * 60;
+
+export const LOGIN_ACTION = `/api/${PLUGIN_ID}/oauth/authorize/login`;
+export const CONSENT_ACTION = `/api/${PLUGIN_ID}/oauth/authorize/consent`;
+
+/**
+ * State carried in the signed browser ticket between the interactive steps
+ */
+export interface PendingAuthorization {
+  request: AuthorizationRequest;
+  user?: AuthorizedUser;
+}
+
+/**
+ * CSP form-action source for the client's redirect URI. Browsers apply
+ * form-action to redirects that follow a form submission.
+ */
+export function getFormTarget(redirectUri: string): string {
+  const url = new URL(redirectUri);
+  return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : url.protocol;
+}
+
+/**
+ * Form targets of the interactive pages of a request. Device requests stay on this server.
+ */
+function getFormTargets(request: AuthorizationRequest): string[] {
+  return request.redirectUri ? [getFormTarget(request.redirectUri)] : [];
+}
+
+/**
+ * Render the login form for a validated authorization request
+ */
+export function sendLoginPage(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  pending: PendingAuthorization,
+  options: { email?: string; error?: string } = {}
+) {
+  const userSource = strapi.plugin(PLUGIN_ID).service('authorization').getUserSource();
+
+  sendHtml(
+    ctx,
+    renderLoginPage({
+      action: LOGIN_ACTION,
+      ticket: signBrowserTicket(ctx, strapi, { request: pending.request }, AUTHORIZATION_TICKET_TTL),
+      clientName: client.name,
+      accountLabel: userSource === 'admin' ? 'Strapi admin account' : 'account',
+      ...options,
+    }),
+    getFormTargets(pending.request)
+  );
+}
+
+export function sendExpiredPage(ctx: any) {
+  ctx.status = 400;
+  sendHtml(
+    ctx,
+    renderErrorPage(
+      'Authorization expired',
+      'This authorization request has expired or is invalid. Return to the application and try again.'
+    )
+  );
+}
+
+export async function findActiveClient(strapi: Core.Strapi, clientId: string) {
+  return strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
+    filters: { clientId, active: true },
+  });
+}
+
+/**
+ * Ask the user to sign in for a validated request, at the external identity
+ * provider when federation is on
+ */
+export async function startSignIn(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  request: AuthorizationRequest
+) {
+  const federation = strapi.plugin(PLUGIN_ID).service('federation');
+  if (!federation.isEnabled()) {
+    return sendLoginPage(ctx, strapi, client, { request });
+  }
+
+  try {
+    ctx.redirect(await federation.start(ctx, request));
+  } catch (error) {
+    strapi.log.error(`[${PLUGIN_ID}] Identity provider is unavailable`, { error });
+    ctx.status = 502;
+    sendHtml(
+      ctx,
+      renderErrorPage(
+        'Sign-in unavailable',
+        'The identity provider could not be reached. Try again later.'
+      )
+    );
+  }
+}
+
+/**
+ * Issue a code for the approved request and redirect back to the client
+ */
+async function redirectWithCode(
+  ctx: any,
+  strapi: Core.Strapi,
+  request: AuthorizationRequest,
+  user: AuthorizedUser
+) {
+  const code = await strapi.plugin(PLUGIN_ID).service('authorization').issueCode(request, user);
+
+  await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'code_issued', {
+    outcome: 'success',
+    clientId: request.clientId,
+    userId: user.id,
+    details: { userType: user.type, scope: request.scope, resource: request.resource },
+  });
+
+  ctx.redirect(buildClientRedirect(request.redirectUri, { code, state: request.state }));
+}
+
+/**
+ * Let the device waiting on an approved device request collect its tokens
+ */
+async function approveDevice(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  request: AuthorizationRequest,
+  user: AuthorizedUser
+) {
+  const approved = await strapi
+    .plugin(PLUGIN_ID)
+    .service('device')
+    .decide(request.device.id, 'approved', user);
+  if (!approved) {
+    return sendExpiredPage(ctx);
+  }
+
+  await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'code_issued', {
+    outcome: 'success',
+    clientId: request.clientId,
+    userId: user.id,
+    details: {
+      userType: user.type,
+      scope: request.scope,
+      resource: request.resource,
+      grantType: DEVICE_CODE_GRANT_TYPE,
+    },
+  });
+
+  sendHtml(ctx, renderDeviceDonePage(client.name, true));
+}
+
+/**
+ * Continue a request once the user has signed in: issue a code straight away
+ * if they already approved the client, otherwise ask for consent
+ */
+export async function continueAuthorization(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  request: AuthorizationRequest,
+  user: AuthorizedUser
+) {
+  const { rememberConsent } = strapi.plugin(PLUGIN_ID).config<AuthorizationConfig>('authorization');
+
+  // Device requests are always confirmed, so a user can't be tricked into
+  // entering someone else's code and silently approving it (RFC 8628 Section 5.4)
+  if (
+    rememberConsent &&
+    !request.device &&
+    (await strapi
+      .plugin(PLUGIN_ID)
+      .service('authorization')
+      .findGrant(client.clientId, user, request.scope))
+  ) {
+    strapi.log.debug(`[${PLUGIN_ID}] Reusing consent of ${user.email} for ${client.clientId}`);
+    return redirectWithCode(ctx, strapi, request, user);
+  }
+
+  const registry = strapi.plugin(PLUGIN_ID).service('registry');
+  const scopesConfig = registry.getScopesConfig();
+  const resource = request.resource && registry.resolve(new URL(request.resource).pathname);
+
+  sendHtml(
+    ctx,
+    renderConsentPage({
+      action: CONSENT_ACTION,
+      ticket: signBrowserTicket(ctx, strapi, { request, user }, AUTHORIZATION_TICKET_TTL),
+      clientName: client.name,
+      clientDescription: client.description,
+      scopes: parseScope(request.scope).map((name) => ({
+        name,
+        description: describeScope(name, scopesConfig),
+      })),
+      resourceName: resource ? resource.endpoint.name : null,
+      userLabel: user.email,
+      userCode: request.device?.userCode,
+    }),
+    getFormTargets(request)
+  );
+}
+
+const consentController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Resource owner login
+   * POST /oauth/authorize/login
+   */
+  async login(ctx: any) {
+    const { ticket, email, password } = ctx.request.body ?? {};
+
+    // Passwords are checked by the identity provider when federation is on
+    const pending = verifyBrowserTicket<PendingAuthorization>(ctx, strapi, ticket);
+    if (!pending || strapi.plugin(PLUGIN_ID).service('federation').isEnabled()) {
+      return sendExpiredPage(ctx);
+    }
+
+    const { request } = pending;
+    const client = await findActiveClient(strapi, request.clientId);
+    if (!client) {
+      return sendExpiredPage(ctx);
+    }
+
+    const authorizationService = strapi.plugin(PLUGIN_ID).service('authorization');
+    const user: AuthorizedUser | null = await authorizationService.authenticateUser(
+      email,
+      password
+    );
+
+    if (!user) {
+      strapi.log.warn(`[${PLUGIN_ID}] Failed login while authorizing client ${client.clientId}`);
+      ctx.status = 401;
+      return sendLoginPage(ctx, strapi, client, pending, {
+        email: typeof email === 'string' ? email : undefined,
+        error: 'Invalid email or password',
+      });
+    }
+
+    return continueAuthorization(ctx, strapi, client, request, user);
+  },
+
+  /**
+   * Resource owner decision
+   * POST /oauth/authorize/consent
+   */
+  async consent(ctx: any) {
+    const { ticket, decision } = ctx.request.body ?? {};
+
+    const pending = verifyBrowserTicket<PendingAuthorization>(ctx, strapi, ticket);
+    if (!pending?.user) {
+      return sendExpiredPage(ctx);
+    }
+
+    const { request, user } = pending;
+    const client = await findActiveClient(strapi, request.clientId);
+    if (!client) {
+      return sendExpiredPage(ctx);
+    }
+
+    if (decision !== 'approve') {
+      strapi.log.info(`[${PLUGIN_ID}] ${user.email} denied access to ${client.clientId}`);
+      await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'consent_denied', {
+        outcome: 'failure',
+        clientId: client.clientId,
+        userId: user.id,
+        details: {
+          userType: user.type,
+          ...(request.device && { grantType: DEVICE_CODE_GRANT_TYPE }),
+        },
+      });
+
+      if (request.device) {
+        await strapi.plugin(PLUGIN_ID).service('device').decide(request.device.id, 'denied', user);
+        sendHtml(ctx, renderDeviceDonePage(client.name, false));
+        return;
+      }
+
+      ctx.redirect(
+        buildClientRedirect(request.redirectUri, {
+          error: 'access_denied',
+          error_description: 'The user denied the authorization request',
+          state: request.state,
+        })
+      );
+      return;
+    }
+
+    await strapi
+      .plugin(PLUGIN_ID)
+      .service('authorization')
+      .recordGrant(client.clientId, user, request.scope);
+
+    strapi.log.info(`[${PLUGIN_ID}] ${user.email} approved access for ${client.clientId}`);
+    if (request.device) {
+      return approveDevice(ctx, strapi, client, request, user);
+    }
+    await redirectWithCode(ctx, strapi, request, user);
+  },
+});
+
+export default consentController;
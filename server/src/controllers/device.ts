@@ -0,0 +1,69 @@
+/**
+ * Device Controller
+ *
+ * Verification page of the device authorization grant (RFC 8628). The user
+ * enters the code shown on their device and continues with the usual
+ * sign-in and consent steps.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import type { AuthorizationRequest } from '../services/authorization';
+import { formatUserCode, normalizeUserCode } from '../services/device';
+import { renderDeviceCodePage, sendHtml } from '../views';
+import { findActiveClient, startSignIn } from './consent';
+
+export const DEVICE_VERIFICATION_PATH = `/api/${PLUGIN_ID}/oauth/device`;
+
+const deviceController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Code entry form, pre-filled from verification_uri_complete
+   * GET /oauth/device
+   */
+  async verify(ctx: any) {
+    const { user_code } = ctx.query;
+
+    sendHtml(
+      ctx,
+      renderDeviceCodePage({
+        action: DEVICE_VERIFICATION_PATH,
+        userCode: typeof user_code === 'string' ? user_code : undefined,
+      })
+    );
+  },
+
+  /**
+   * Code entry
+   * POST /oauth/device
+   */
+  async submit(ctx: any) {
+    const { user_code } = ctx.request.body ?? {};
+
+    const record = await strapi.plugin(PLUGIN_ID).service('device').findPending(user_code);
+    const client = record && (await findActiveClient(strapi, record.clientId));
+
+    if (!client) {
+      ctx.status = 400;
+      sendHtml(
+        ctx,
+        renderDeviceCodePage({
+          action: DEVICE_VERIFICATION_PATH,
+          userCode: typeof user_code === 'string' ? user_code : undefined,
+          error: 'This code is invalid or has expired. Check your device and try again.',
+        })
+      );
+      return;
+    }
+
+    const request: AuthorizationRequest = {
+      clientId: client.clientId,
+      scope: record.scope || undefined,
+      resource: record.resource || undefined,
+      device: { id: record.id, userCode: formatUserCode(normalizeUserCode(user_code)) },
+    };
+
+    await startSignIn(ctx, strapi, client, request);
+  },
+});
+
+export default deviceController;
@@ -0,0 +1,41 @@
+/**
+ * Endpoint Admin Controller
+ *
+ * Lists the protected MCP endpoints for the admin panel: the ones declared
+ * in the registry and the routes only matched by mcpEndpointPattern.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { PluginConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import type { McpEndpoint } from '../services/registry';
+
+const endpointController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * GET /endpoints
+   */
+  async find(ctx: any) {
+    const registry = strapi.plugin(PLUGIN_ID).service('registry');
+    const endpoints = new Map<string, McpEndpoint>(
+      registry.list().map((endpoint: McpEndpoint) => [endpoint.path, endpoint])
+    );
+
+    for (const route of strapi.server.listRoutes()) {
+      const endpoint: McpEndpoint | undefined = registry.resolve(route.path)?.endpoint;
+      if (endpoint && !endpoints.has(endpoint.path)) {
+        endpoints.set(endpoint.path, endpoint);
+      }
+    }
+
+    ctx.body = {
+      data: [...endpoints.values()].sort((a, b) => a.path.localeCompare(b.path)),
+      meta: {
+        allowDirectApiTokens: strapi
+          .plugin(PLUGIN_ID)
+          .config<PluginConfig['allowDirectApiTokens']>('allowDirectApiTokens'),
+      },
+    };
+  },
+});
+
+export default endpointController;
@@ -0,0 +1,70 @@
+/**
+ * Federation Controller
+ *
+ * Receives the user back from the external OpenID Connect provider and
+ * resumes the authorization request they started.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import { buildClientRedirect } from '../services/authorization';
+import type { FederationResult } from '../services/federation';
+import { renderErrorPage, sendHtml } from '../views';
+import { continueAuthorization, findActiveClient, sendExpiredPage } from './consent';
+
+const federationController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Identity provider redirect
+   * GET /oauth/federation/callback
+   */
+  async callback(ctx: any) {
+    const { code, state, error } = ctx.query;
+
+    const result: FederationResult = await strapi
+      .plugin(PLUGIN_ID)
+      .service('federation')
+      .complete(ctx, { code, state, error });
+
+    const { request, user } = result;
+    if (!request) {
+      return sendExpiredPage(ctx);
+    }
+
+    const client = await findActiveClient(strapi, request.clientId);
+    if (!client) {
+      return sendExpiredPage(ctx);
+    }
+
+    if (!user) {
+      strapi.log.warn(
+        `[${PLUGIN_ID}] Federated sign-in failed while authorizing client ${client.clientId}: ` +
+          result.errorDescription
+      );
+      await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'code_issued', {
+        outcome: 'failure',
+        clientId: client.clientId,
+        details: { reason: result.error, description: result.errorDescription },
+      });
+
+      // Device requests have nowhere to redirect to: the device keeps polling until the code expires
+      if (request.device) {
+        ctx.status = 400;
+        sendHtml(ctx, renderErrorPage('Sign-in failed', result.errorDescription));
+        return;
+      }
+
+      ctx.redirect(
+        buildClientRedirect(request.redirectUri, {
+          error: result.error,
+          error_description: result.errorDescription,
+          state: request.state,
+        })
+      );
+      return;
+    }
+
+    return continueAuthorization(ctx, strapi, client, request, user);
+  },
+});
+
+export default federationController;
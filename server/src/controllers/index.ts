@@ -1,5 +1,23 @@
+import account from './account';
+import audit from './audit';
+import client from './client';
+import consent from './consent';
+import device from './device';
+import endpoint from './endpoint';
+import federation from './federation';
 import oauth from './oauth';
+import registration from './registration';
+import tokenCache from './token-cache';
 
 export default {
+  account,
+  audit,
+  client,
+  consent,
+  device,
+  endpoint,
+  federation,
   oauth,
+  registration,
+  tokenCache,
 };
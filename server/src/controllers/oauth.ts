@@ -5,19 +5,50 @@
  */
 
 import type { Core } from '@strapi/strapi';
-import { randomBytes } from 'node:crypto';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { JwtConfig, RegistrationConfig, TokensConfig } from '../config';
 import { PLUGIN_ID } from '../pluginId';
+import { buildClientRedirect } from '../services/authorization';
+import type { AuthorizationRequest, TokenUser } from '../services/authorization';
+import { getTokenUser, type TokenValidationResult } from '../services/oauth';
+import type { StorageAdapter, TokenRecord } from '../storage';
+import {
+  DEVICE_CODE_GRANT_TYPE,
+  GRANT_TYPES,
+  isGrantType,
+  isGrantTypeAllowed,
+} from '../utils/grant-types';
+import {
+  generateToken,
+  hashToken,
+  verifySecret,
+  verifyUnknownClientSecret,
+} from '../utils/hash';
+import { buildUserClaims, CLAIMS_SUPPORTED } from '../utils/oidc';
+import { setTooManyRequests } from '../utils/rate-limit';
+import { parseResource } from '../utils/resource';
+import {
+  coversScopes,
+  formatScope,
+  getAllowedScopes,
+  getGrantedScopes,
+  getScopesForPath,
+  getSupportedScopes,
+  OIDC_SCOPES,
+  parseScope,
+  resolveRequestedScopes,
+} from '../utils/scopes';
+import { getBaseUrl, getIssuer, getResource } from '../utils/url';
+import { startSignIn } from './consent';
+import { DEVICE_VERIFICATION_PATH } from './device';
 
 const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
 
 /**
- * Build the base URL from request headers (supports ngrok/proxies)
+ * The configured storage adapter for codes, tokens and grants
  */
-function getBaseUrl(ctx: any, strapi: Core.Strapi): string {
-  const forwardedProto = ctx.request.headers['x-forwarded-proto'] || ctx.protocol;
-  const forwardedHost = ctx.request.headers['x-forwarded-host'] || ctx.request.headers['host'];
-  const serverUrl = (strapi.config.get('server.url') as string) || 'http://localhost:1337';
-  return forwardedHost ? `${forwardedProto}://${forwardedHost}` : serverUrl;
+function getStorage(strapi: Core.Strapi): StorageAdapter {
+  return strapi.plugin(PLUGIN_ID).service('storage').get();
 }
 
 /**
@@ -34,53 +65,253 @@ function matchRedirectUri(redirectUri: string, allowedPatterns: string[]): boole
   });
 }
 
+/**
+ * PKCE code_verifier syntax (RFC 7636 Section 4.1): 43-128 unreserved characters.
+ */
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+/**
+ * S256 code_challenge syntax: base64url-encoded SHA-256 digest without padding.
+ */
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Longest OpenID Connect nonce stored with a code
+ */
+const MAX_NONCE_LENGTH = 255;
+
+/**
+ * Verify a PKCE code_verifier against the stored S256 code_challenge.
+ */
+function verifyCodeChallenge(codeVerifier: string, codeChallenge: string): boolean {
+  const computed = Buffer.from(createHash('sha256').update(codeVerifier).digest('base64url'));
+  const expected = Buffer.from(codeChallenge);
+  return computed.length === expected.length && timingSafeEqual(computed, expected);
+}
+
+/**
+ * Public clients (desktop apps, CLIs) cannot keep a secret and must use PKCE.
+ * Clients created before clientType existed are treated as confidential.
+ */
+function isPublicClient(client: any): boolean {
+  return client.clientType === 'public';
+}
+
+/**
+ * Authenticate the calling client from the POST body or a Basic auth header.
+ *
+ * Confidential clients must always authenticate with their secret.
+ * Public clients have no secret and are bound to their codes via PKCE instead.
+ * On failure, writes a 401 invalid_client response and returns null.
+ * Clients with too many failures are locked out with 429, on the failing
+ * IP address or, past an optional ceiling, everywhere. Authenticated clients
+ * count against the token scope's client limit, also answered with 429.
+ */
+async function authenticateClient(ctx: any, strapi: Core.Strapi): Promise<any | null> {
+  const { client_id, client_secret } = ctx.request.body ?? {};
+
+  // Also check for Basic auth header
+  let authClientId = client_id;
+  let authClientSecret = client_secret;
+
+  const authHeader = ctx.request.headers.authorization;
+  if (authHeader && authHeader.startsWith('Basic ')) {
+    const credentials = Buffer.from(authHeader.slice(6), 'base64').toString();
+    const [id, secret] = credentials.split(':');
+    authClientId = authClientId || id;
+    authClientSecret = authClientSecret || secret;
+  }
+
+  if (!authClientId || typeof authClientId !== 'string') {
+    ctx.status = 401;
+    ctx.body = { error: 'invalid_client', error_description: 'Client authentication required' };
+    return null;
+  }
+
+  const rateLimit = strapi.plugin(PLUGIN_ID).service('rate-limit');
+  const audit = strapi.plugin(PLUGIN_ID).service('audit');
+  const lockedFor = await rateLimit.getLockout(authClientId, ctx.request.ip);
+  if (lockedFor) {
+    await audit.record(ctx, 'client_auth_failed', {
+      outcome: 'failure',
+      clientId: authClientId,
+      details: { reason: 'locked' },
+    });
+    setTooManyRequests(ctx, lockedFor);
+    ctx.body = {
+      error: 'invalid_client',
+      error_description: 'Client temporarily locked after repeated failed authentications',
+    };
+    return null;
+  }
+
+  // Verify client credentials
+  const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
+    filters: { clientId: authClientId, active: true },
+  });
+
+  if (!client) {
+    await verifyUnknownClientSecret(authClientSecret);
+  }
+
+  if (
+    !client ||
+    (!isPublicClient(client) && !(await verifySecret(authClientSecret, client.clientSecret)))
+  ) {
+    await rateLimit.recordAuthFailure(authClientId, ctx.request.ip);
+    await audit.record(ctx, 'client_auth_failed', {
+      outcome: 'failure',
+      clientId: authClientId,
+      details: { reason: client ? 'invalid_secret' : 'unknown_client' },
+    });
+    ctx.status = 401;
+    ctx.body = { error: 'invalid_client', error_description: 'Invalid client credentials' };
+    return null;
+  }
+
+  await rateLimit.clearAuthFailures(authClientId, ctx.request.ip);
+
+  const retryAfter = await rateLimit.hit('token', 'client', client.clientId);
+  if (retryAfter) {
+    setTooManyRequests(ctx, retryAfter);
+    ctx.body = {
+      error: 'too_many_requests',
+      error_description: `Rate limit exceeded, retry after ${retryAfter} seconds`,
+    };
+    return null;
+  }
+
+  return client;
+}
+
 const oauthController = ({ strapi }: { strapi: Core.Strapi }) => ({
   /**
-   * OAuth 2.0 Authorization Server Metadata (RFC 8414)
+   * OAuth 2.0 Authorization Server Metadata (RFC 8414), also served as
+   * OpenID Provider Metadata
    * GET /.well-known/oauth-authorization-server
+   * GET /.well-known/openid-configuration
    */
   async discovery(ctx: any) {
     const baseUrl = getBaseUrl(ctx, strapi);
     const pluginPath = `/api/${PLUGIN_ID}`;
-    const issuer = `${baseUrl}${pluginPath}`;
+    const issuer = getIssuer(ctx, strapi);
+    const registration = strapi.plugin(PLUGIN_ID).config<RegistrationConfig>('registration');
+    const jwt = strapi.plugin(PLUGIN_ID).config<JwtConfig>('jwt');
+    const scopesConfig = strapi.plugin(PLUGIN_ID).service('registry').getScopesConfig();
 
     ctx.body = {
       issuer,
       authorization_endpoint: `${baseUrl}${pluginPath}/oauth/authorize`,
       token_endpoint: `${baseUrl}${pluginPath}/oauth/token`,
+      device_authorization_endpoint: `${baseUrl}${pluginPath}/oauth/device_authorization`,
+      ...(registration.mode !== 'disabled' && {
+        registration_endpoint: `${baseUrl}${pluginPath}/oauth/register`,
+      }),
       response_types_supported: ['code'],
-      grant_types_supported: ['authorization_code', 'refresh_token'],
-      token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+      grant_types_supported: GRANT_TYPES,
+      token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
       code_challenge_methods_supported: ['S256'],
+      revocation_endpoint: `${baseUrl}${pluginPath}/oauth/revoke`,
+      revocation_endpoint_auth_methods_supported: [
+        'client_secret_post',
+        'client_secret_basic',
+        'none',
+      ],
+      introspection_endpoint: `${baseUrl}${pluginPath}/oauth/introspect`,
+      introspection_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+      scopes_supported: [...getSupportedScopes(scopesConfig), ...OIDC_SCOPES],
+      jwks_uri: `${baseUrl}${pluginPath}/.well-known/jwks.json`,
+      // OpenID Connect Discovery 1.0
+      userinfo_endpoint: `${baseUrl}${pluginPath}/oauth/userinfo`,
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [jwt.algorithm],
+      claims_supported: CLAIMS_SUPPORTED,
     };
   },
 
+  /**
+   * JSON Web Key Set with the public keys that sign id_tokens and JWT access tokens
+   * GET /.well-known/jwks.json
+   */
+  async jwks(ctx: any) {
+    ctx.set('Cache-Control', 'public, max-age=300');
+    ctx.body = await strapi.plugin(PLUGIN_ID).service('jwt').getJwks();
+  },
+
   /**
    * OAuth 2.0 Protected Resource Metadata (RFC 9728)
    * GET /.well-known/oauth-protected-resource
+   * GET /.well-known/oauth-protected-resource/{endpoint path}
    *
-   * Convention-based protection: all /api/{plugin}/mcp endpoints are protected.
+   * Describes a declared or conventional MCP endpoint, or without a path,
+   * the /api root that covers all of them.
    */
   async protectedResource(ctx: any) {
-    const baseUrl = getBaseUrl(ctx, strapi);
-    const pluginPath = `/api/${PLUGIN_ID}`;
-    const authServer = `${baseUrl}${pluginPath}`;
+    const registry = strapi.plugin(PLUGIN_ID).service('registry');
+    const scopesConfig = registry.getScopesConfig();
+    const metadata = {
+      authorization_servers: [getIssuer(ctx, strapi)],
+      bearer_methods_supported: ['header'],
+    };
+
+    if (!ctx.params.path) {
+      ctx.body = {
+        resource: getResource(ctx, strapi),
+        ...metadata,
+        scopes_supported: getSupportedScopes(scopesConfig),
+      };
+      return;
+    }
+
+    const path = `/${ctx.params.path.replace(/\/+$/, '')}`;
+    const endpoint = registry.resolve(path)?.endpoint;
+
+    if (!endpoint || endpoint.path !== path) {
+      return ctx.notFound('Unknown MCP endpoint');
+    }
 
-    // Convention-based: any /api/*/mcp endpoint is protected
-    // Return the base API URL - clients should use the specific MCP endpoint they need
     ctx.body = {
-      resource: `${baseUrl}/api`,
-      authorization_servers: [authServer],
-      bearer_methods_supported: ['header'],
+      resource: `${getBaseUrl(ctx, strapi)}${endpoint.path}`,
+      resource_name: endpoint.name,
+      ...metadata,
+      scopes_supported: getScopesForPath(endpoint.path, scopesConfig),
     };
   },
 
   /**
    * OAuth 2.0 Authorization Endpoint
    * GET /oauth/authorize
+   *
+   * Validates the request and starts the interactive login + consent flow.
    */
   async authorize(ctx: any) {
-    const { client_id, redirect_uri, response_type, state, code_challenge, code_challenge_method } = ctx.query;
+    const {
+      client_id,
+      redirect_uri,
+      response_type,
+      state,
+      scope,
+      code_challenge,
+      code_challenge_method,
+      resource,
+      nonce,
+    } = ctx.query;
+
+    // Repeated or bracketed query parameters arrive as arrays or objects
+    const invalid = Object.entries({
+      client_id,
+      redirect_uri,
+      state,
+      scope,
+      resource,
+      code_challenge,
+      code_challenge_method,
+    }).find(([, value]) => value !== undefined && typeof value !== 'string');
+    if (invalid) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_request', error_description: `${invalid[0]} must be a string` };
+      return;
+    }
 
     // Validate required parameters
     if (!client_id) {
@@ -136,31 +367,99 @@ const oauthController = ({ strapi }: { strapi: Core.Strapi }) => ({
       return;
     }
 
-    // Generate authorization code
-    const code = randomBytes(32).toString('hex');
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
+    if (!isGrantTypeAllowed(client, 'authorization_code')) {
+      ctx.redirect(
+        buildClientRedirect(redirect_uri, {
+          error: 'unauthorized_client',
+          error_description: 'This client may not use the authorization code flow',
+          state,
+        })
+      );
+      return;
+    }
 
-    // Store the authorization code
-    await strapi.documents(`${PLUGIN_UID}.mcp-oauth-code`).create({
-      data: {
-        code,
-        clientId: client_id,
-        redirectUri: redirect_uri,
-        codeChallenge: code_challenge || null,
-        codeChallengeMethod: code_challenge_method || null,
-        expiresAt: expiresAt.toISOString(),
-        used: false,
-      },
-    });
+    // Validate PKCE parameters (only S256 is supported)
+    if (code_challenge) {
+      if (code_challenge_method !== 'S256') {
+        ctx.status = 400;
+        ctx.body = {
+          error: 'invalid_request',
+          error_description: 'code_challenge_method must be S256',
+        };
+        return;
+      }
 
-    // Redirect back with the authorization code
-    const redirectUrl = new URL(redirect_uri);
-    redirectUrl.searchParams.set('code', code);
-    if (state) {
-      redirectUrl.searchParams.set('state', state);
+      if (!CODE_CHALLENGE_PATTERN.test(code_challenge)) {
+        ctx.status = 400;
+        ctx.body = { error: 'invalid_request', error_description: 'Invalid code_challenge' };
+        return;
+      }
+    } else if (isPublicClient(client) || client.requirePkce) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_request',
+        error_description: 'code_challenge is required for this client',
+      };
+      return;
     }
 
-    ctx.redirect(redirectUrl.toString());
+    // Validate requested scopes against the client's allowed scopes
+    const scopesConfig = strapi.plugin(PLUGIN_ID).service('registry').getScopesConfig();
+    const { scopes: requestedScopes, error: scopeError } = resolveRequestedScopes(
+      client,
+      scope,
+      scopesConfig,
+      { allowOidc: true }
+    );
+
+    if (scopeError) {
+      ctx.redirect(
+        buildClientRedirect(redirect_uri, {
+          error: 'invalid_scope',
+          error_description: scopeError,
+          state,
+        })
+      );
+      return;
+    }
+
+    if (nonce !== undefined && (typeof nonce !== 'string' || nonce.length > MAX_NONCE_LENGTH)) {
+      ctx.redirect(
+        buildClientRedirect(redirect_uri, {
+          error: 'invalid_request',
+          error_description: `nonce must be a string of at most ${MAX_NONCE_LENGTH} characters`,
+          state,
+        })
+      );
+      return;
+    }
+
+    // Bind the code to the requested MCP endpoint (RFC 8707)
+    const target = parseResource(resource, ctx, strapi);
+    if (target.error) {
+      ctx.redirect(
+        buildClientRedirect(redirect_uri, {
+          error: 'invalid_target',
+          error_description: target.error,
+          state,
+        })
+      );
+      return;
+    }
+
+    const request: AuthorizationRequest = {
+      clientId: client_id,
+      redirectUri: redirect_uri,
+      state,
+      codeChallenge: code_challenge,
+      codeChallengeMethod: code_challenge ? code_challenge_method : undefined,
+      scope: formatScope(requestedScopes),
+      resource: target.resource ?? undefined,
+      nonce: nonce || undefined,
+    };
+
+    // The code is only issued once a user has signed in and approved the client
+    await startSignIn(ctx, strapi, client, request);
   },
 
   /**
@@ -168,54 +467,429 @@ const oauthController = ({ strapi }: { strapi: Core.Strapi }) => ({
    * POST /oauth/token
    */
   async token(ctx: any) {
-    const { grant_type, code, redirect_uri, client_id, client_secret, refresh_token } = ctx.request.body;
-
-    // Also check for Basic auth header
-    let authClientId = client_id;
-    let authClientSecret = client_secret;
+    const {
+      grant_type,
+      code,
+      redirect_uri,
+      refresh_token,
+      code_verifier,
+      device_code,
+      scope,
+      resource,
+    } = ctx.request.body;
 
-    const authHeader = ctx.request.headers.authorization;
-    if (authHeader && authHeader.startsWith('Basic ')) {
-      const credentials = Buffer.from(authHeader.slice(6), 'base64').toString();
-      const [id, secret] = credentials.split(':');
-      authClientId = authClientId || id;
-      authClientSecret = authClientSecret || secret;
+    const client = await authenticateClient(ctx, strapi);
+    if (!client) {
+      return;
     }
 
-    if (!authClientId) {
-      ctx.status = 401;
-      ctx.body = { error: 'invalid_client', error_description: 'Client authentication required' };
+    if (!isGrantType(grant_type)) {
+      ctx.status = 400;
+      ctx.body = { error: 'unsupported_grant_type', error_description: 'Unsupported grant type' };
       return;
     }
 
-    // Verify client credentials
-    const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
-      filters: { clientId: authClientId, active: true },
-    });
+    if (!isGrantTypeAllowed(client, grant_type)) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'unauthorized_client',
+        error_description: `This client may not use the ${grant_type} grant`,
+      };
+      return;
+    }
 
-    if (!client || (authClientSecret && client.clientSecret !== authClientSecret)) {
-      ctx.status = 401;
-      ctx.body = { error: 'invalid_client', error_description: 'Invalid client credentials' };
+    const target = parseResource(resource, ctx, strapi);
+    if (target.error) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_target', error_description: target.error };
       return;
     }
 
     if (grant_type === 'authorization_code') {
-      await handleAuthorizationCodeGrant(ctx, strapi, client, code, redirect_uri);
+      await handleAuthorizationCodeGrant(
+        ctx,
+        strapi,
+        client,
+        code,
+        redirect_uri,
+        code_verifier,
+        target.resource
+      );
     } else if (grant_type === 'refresh_token') {
-      await handleRefreshTokenGrant(ctx, strapi, client, refresh_token);
+      await handleRefreshTokenGrant(ctx, strapi, client, refresh_token, scope, target.resource);
+    } else if (grant_type === DEVICE_CODE_GRANT_TYPE) {
+      await handleDeviceCodeGrant(ctx, strapi, client, device_code, target.resource);
     } else {
+      await handleClientCredentialsGrant(ctx, strapi, client, scope, target.resource);
+    }
+  },
+
+  /**
+   * Device Authorization Endpoint (RFC 8628 Section 3.1)
+   * POST /oauth/device_authorization
+   *
+   * Starts a device authorization: the device shows the user code and
+   * verification URI, then polls the token endpoint with the device code.
+   */
+  async deviceAuthorization(ctx: any) {
+    const { scope, resource } = ctx.request.body ?? {};
+
+    const client = await authenticateClient(ctx, strapi);
+    if (!client) {
+      return;
+    }
+
+    if (!isGrantTypeAllowed(client, DEVICE_CODE_GRANT_TYPE)) {
       ctx.status = 400;
-      ctx.body = { error: 'unsupported_grant_type', error_description: 'Unsupported grant type' };
+      ctx.body = {
+        error: 'unauthorized_client',
+        error_description: 'This client may not use the device authorization grant',
+      };
+      return;
+    }
+
+    const { scopes: requestedScopes, error: scopeError } = resolveRequestedScopes(
+      client,
+      scope,
+      strapi.plugin(PLUGIN_ID).service('registry').getScopesConfig(),
+      { allowOidc: true }
+    );
+
+    if (scopeError) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_scope', error_description: scopeError };
+      return;
+    }
+
+    const target = parseResource(resource, ctx, strapi);
+    if (target.error) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_target', error_description: target.error };
+      return;
+    }
+
+    const { deviceCode, userCode, expiresIn, interval } = await strapi
+      .plugin(PLUGIN_ID)
+      .service('device')
+      .create(client, { scope: formatScope(requestedScopes), resource: target.resource ?? null });
+
+    const verificationUri = `${getBaseUrl(ctx, strapi)}${DEVICE_VERIFICATION_PATH}`;
+    ctx.set('Cache-Control', 'no-store');
+    ctx.body = {
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: verificationUri,
+      verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(userCode)}`,
+      expires_in: expiresIn,
+      interval,
+    };
+  },
+
+  /**
+   * OAuth 2.0 Token Revocation (RFC 7009)
+   * POST /oauth/revoke
+   *
+   * Always responds 200 for authenticated clients, whether or not the token
+   * existed, so the endpoint cannot be used to probe for valid tokens.
+   */
+  async revoke(ctx: any) {
+    const { token, token_type_hint } = ctx.request.body ?? {};
+
+    const client = await authenticateClient(ctx, strapi);
+    if (!client) {
+      return;
+    }
+
+    if (!token) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_request', error_description: 'token is required' };
+      return;
+    }
+
+    if (token_type_hint && !['access_token', 'refresh_token'].includes(token_type_hint)) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'unsupported_token_type',
+        error_description: 'token_type_hint must be access_token or refresh_token',
+      };
+      return;
+    }
+
+    const revoked = await strapi
+      .plugin(PLUGIN_ID)
+      .service('oauth')
+      .revokeToken(token, client.clientId, token_type_hint);
+
+    if (revoked) {
+      strapi.log.info(`[${PLUGIN_ID}] Token revoked by client ${client.clientId}`);
+      await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'token_revoked', {
+        outcome: 'success',
+        clientId: client.clientId,
+        details: { tokenTypeHint: token_type_hint ?? null },
+      });
     }
+
+    ctx.set('Cache-Control', 'no-store');
+    ctx.status = 200;
+    ctx.body = {};
+  },
+
+  /**
+   * OAuth 2.0 Token Introspection (RFC 7662)
+   * POST /oauth/introspect
+   *
+   * Available to confidential clients, e.g. other services acting as resource servers.
+   */
+  async introspect(ctx: any) {
+    const { token } = ctx.request.body ?? {};
+
+    const client = await authenticateClient(ctx, strapi);
+    if (!client) {
+      return;
+    }
+
+    if (isPublicClient(client)) {
+      ctx.status = 401;
+      ctx.body = {
+        error: 'invalid_client',
+        error_description: 'Public clients cannot use token introspection',
+      };
+      return;
+    }
+
+    if (!token) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_request', error_description: 'token is required' };
+      return;
+    }
+
+    const result: TokenValidationResult = await strapi
+      .plugin(PLUGIN_ID)
+      .service('oauth')
+      .validateToken(token);
+
+    ctx.set('Cache-Control', 'no-store');
+
+    if (!result.valid) {
+      ctx.body = { active: false };
+      return;
+    }
+
+    ctx.body = {
+      active: true,
+      client_id: result.clientId,
+      sub: result.user?.id ?? result.clientId,
+      scope: formatScope(result.scopes),
+      token_type: 'Bearer',
+      exp: Math.floor(result.expiresAt.getTime() / 1000),
+      iat: Math.floor(result.issuedAt.getTime() / 1000),
+      ...(result.resource && { aud: result.resource }),
+    };
+  },
+
+  /**
+   * OpenID Connect UserInfo Endpoint
+   * GET /oauth/userinfo
+   * POST /oauth/userinfo
+   *
+   * Claims about the user an access token with the openid scope was issued to.
+   */
+  async userinfo(ctx: any) {
+    const authHeader: string | undefined = ctx.request.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+    const result: TokenValidationResult | null = token
+      ? await strapi.plugin(PLUGIN_ID).service('oauth').validateTokenRecord(token)
+      : null;
+    const found =
+      result?.valid && result.user
+        ? await strapi.plugin(PLUGIN_ID).service('authorization').findUser(result.user)
+        : null;
+
+    ctx.set('Cache-Control', 'no-store');
+
+    if (!found) {
+      ctx.status = 401;
+      ctx.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+      ctx.body = {
+        error: 'invalid_token',
+        error_description: 'Access token is invalid or was not issued to a user',
+      };
+      return;
+    }
+
+    if (!result.scopes.includes('openid')) {
+      ctx.status = 403;
+      ctx.set('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+      ctx.body = {
+        error: 'insufficient_scope',
+        error_description: 'Access token was not granted the openid scope',
+      };
+      return;
+    }
+
+    ctx.body = buildUserClaims(found.user, found.record, result.scopes);
   },
 });
 
+/**
+ * Access and refresh token lifetimes in seconds: client overrides, then plugin config
+ */
+function getTokenLifetimes(strapi: Core.Strapi, client: any) {
+  const config = strapi.plugin(PLUGIN_ID).config<TokensConfig>('tokens');
+  return {
+    expiresIn: client.accessTokenTtl ?? config.accessTokenTtl,
+    refreshExpiresIn: client.refreshTokenTtl ?? config.refreshTokenTtl,
+  };
+}
+
+/**
+ * Resource a token is issued for: the one requested at the token endpoint,
+ * which must match the resource the code or refresh token was bound to.
+ * Grants for the /api root may be narrowed to a single MCP endpoint.
+ * Returns false if the resources don't match.
+ */
+function resolveTokenResource(
+  ctx: any,
+  strapi: Core.Strapi,
+  bound: string | null,
+  requested: string | null | undefined
+): string | null | false {
+  if (!requested) {
+    return bound;
+  }
+  return !bound || bound === getResource(ctx, strapi) || bound === requested ? requested : false;
+}
+
+/**
+ * Sign an OpenID Connect id_token for the user with the claims their scopes
+ * release. Returns null if the user no longer exists or is blocked.
+ */
+async function createIdToken(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  user: TokenUser,
+  { scope, nonce, expiresIn }: { scope: string | null; nonce: string | null; expiresIn: number }
+): Promise<string | null> {
+  const found = await strapi.plugin(PLUGIN_ID).service('authorization').findUser(user);
+  if (!found) {
+    return null;
+  }
+
+  return strapi
+    .plugin(PLUGIN_ID)
+    .service('jwt')
+    .signIdToken(
+      {
+        ...buildUserClaims(found.user, found.record, parseScope(scope)),
+        iss: getIssuer(ctx, strapi),
+        aud: client.clientId,
+        ...(nonce && { nonce }),
+      },
+      expiresIn
+    );
+}
+
+/**
+ * Create and store an access/refresh token pair and send the token response.
+ * Access tokens are signed JWTs when tokens.format is 'jwt'. The refresh token
+ * is left out for client_credentials and for clients without the refresh_token grant.
+ */
+async function issueTokens(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  {
+    grantType,
+    scope,
+    familyId,
+    resource,
+    user,
+    nonce = null,
+  }: {
+    grantType: string;
+    scope: string | null;
+    familyId: string | null;
+    resource: string | null;
+    user: TokenUser | null;
+    /** Nonce of the authorization request, for the id_token */
+    nonce?: string | null;
+  }
+) {
+  const lifetimes = getTokenLifetimes(strapi, client);
+  const { expiresIn } = lifetimes;
+  const withRefresh =
+    grantType !== 'client_credentials' && isGrantTypeAllowed(client, 'refresh_token');
+  // Without a refresh token, the row is only needed until the access token expires
+  const refreshExpiresIn = withRefresh ? lifetimes.refreshExpiresIn : expiresIn;
+  const jwtService = strapi.plugin(PLUGIN_ID).service('jwt');
+  const jti = jwtService.isEnabled() ? randomUUID() : null;
+
+  const accessToken = jti
+    ? await jwtService.sign(
+        {
+          iss: getIssuer(ctx, strapi),
+          aud: resource ?? getResource(ctx, strapi),
+          // The resource owner, or the client itself (RFC 9068 Section 2.2)
+          sub: user?.id ?? client.clientId,
+          ...(user && { user_type: user.type }),
+          client_id: client.clientId,
+          scope: formatScope(getGrantedScopes({ scope })),
+          jti,
+        },
+        expiresIn
+      )
+    : generateToken();
+  const refreshToken = withRefresh ? generateToken() : null;
+  const idToken =
+    user && parseScope(scope).includes('openid')
+      ? await createIdToken(ctx, strapi, client, user, { scope, nonce, expiresIn })
+      : null;
+
+  await getStorage(strapi).saveToken({
+    accessToken: hashToken(accessToken),
+    refreshToken: refreshToken && hashToken(refreshToken),
+    clientId: client.clientId,
+    userId: user?.id ?? null,
+    userType: user?.type ?? null,
+    scope,
+    grantType,
+    familyId,
+    resource,
+    jti,
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    refreshExpiresAt: new Date(Date.now() + refreshExpiresIn * 1000).toISOString(),
+  });
+
+  await strapi
+    .plugin(PLUGIN_ID)
+    .service('audit')
+    .record(ctx, grantType === 'refresh_token' ? 'token_refreshed' : 'token_issued', {
+      outcome: 'success',
+      clientId: client.clientId,
+      userId: user?.id,
+      details: { grantType, scope, resource, familyId },
+    });
+
+  ctx.body = {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: expiresIn,
+    ...(refreshToken && { refresh_token: refreshToken }),
+    ...(idToken && { id_token: idToken }),
+    scope: formatScope(getGrantedScopes({ scope })),
+  };
+}
+
 async function handleAuthorizationCodeGrant(
   ctx: any,
   strapi: Core.Strapi,
   client: any,
   code: string,
-  redirect_uri: string
+  redirect_uri: string,
+  codeVerifier: string | undefined,
+  requestedResource: string | null | undefined
 ) {
   if (!code) {
     ctx.status = 400;
@@ -224,18 +898,17 @@ async function handleAuthorizationCodeGrant(
   }
 
   // Find and validate the authorization code
-  const authCode = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-code`).findFirst({
-    filters: { code, clientId: client.clientId, used: false },
-  });
+  const storage = getStorage(strapi);
+  const authCode = await storage.findCode(hashToken(code));
 
-  if (!authCode) {
+  if (!authCode || authCode.clientId !== client.clientId || authCode.used) {
     ctx.status = 400;
     ctx.body = { error: 'invalid_grant', error_description: 'Invalid authorization code' };
     return;
   }
 
   // Check expiration
-  if (new Date(authCode.expiresAt as string) < new Date()) {
+  if (new Date(authCode.expiresAt) < new Date()) {
     ctx.status = 400;
     ctx.body = { error: 'invalid_grant', error_description: 'Authorization code expired' };
     return;
@@ -248,42 +921,106 @@ async function handleAuthorizationCodeGrant(
     return;
   }
 
-  // Mark code as used
-  await strapi.documents(`${PLUGIN_UID}.mcp-oauth-code`).update({
-    documentId: authCode.documentId,
-    data: { used: true } as any,
+  // Verify PKCE: the verifier must hash to the challenge sent to /authorize
+  if (authCode.codeChallenge) {
+    if (!codeVerifier || !CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_grant', error_description: 'Missing or invalid code_verifier' };
+      return;
+    }
+
+    if (!verifyCodeChallenge(codeVerifier, authCode.codeChallenge)) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_grant', error_description: 'PKCE verification failed' };
+      return;
+    }
+  } else if (codeVerifier) {
+    ctx.status = 400;
+    ctx.body = {
+      error: 'invalid_grant',
+      error_description: 'code_verifier sent but no code_challenge was used',
+    };
+    return;
+  }
+
+  const resource = resolveTokenResource(ctx, strapi, authCode.resource, requestedResource);
+  if (resource === false) {
+    ctx.status = 400;
+    ctx.body = {
+      error: 'invalid_target',
+      error_description: 'resource does not match the authorization request',
+    };
+    return;
+  }
+
+  // Mark code as used. A concurrent redemption of the same code loses here.
+  if (!(await storage.useCode(authCode.code))) {
+    ctx.status = 400;
+    ctx.body = { error: 'invalid_grant', error_description: 'Invalid authorization code' };
+    return;
+  }
+
+  await issueTokens(ctx, strapi, client, {
+    grantType: 'authorization_code',
+    scope: authCode.scope,
+    familyId: randomUUID(),
+    resource,
+    user: getTokenUser(authCode),
+    nonce: authCode.nonce,
   });
+}
+
+/**
+ * Reject a refresh token that was already rotated. A rotated token has
+ * exactly one successor, so a replay never gets tokens of its own.
+ *
+ * Replaying it means it may have been stolen: every token in its family is
+ * revoked (OAuth 2.0 Security BCP Section 4.14). Only the first replay
+ * within the grace period is spared, as it is usually a concurrent refresh
+ * by the client that holds the successor.
+ */
+async function rejectRefreshTokenReplay(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  token: TokenRecord,
+  rotatedAt: number
+) {
+  const { refreshGracePeriod } = strapi.plugin(PLUGIN_ID).config<TokensConfig>('tokens');
+  const withinGracePeriod = Date.now() - rotatedAt <= refreshGracePeriod * 1000;
 
-  // Generate tokens
-  const accessToken = randomBytes(32).toString('hex');
-  const refreshToken = randomBytes(32).toString('hex');
-  const expiresIn = 3600; // 1 hour
-  const refreshExpiresIn = 30 * 24 * 3600; // 30 days
+  if (withinGracePeriod && (await getStorage(strapi).markTokenReplayed(token.id))) {
+    strapi.log.debug(
+      `[${PLUGIN_ID}] Rejected concurrent refresh for family ${token.familyId} within grace period`
+    );
+  } else {
+    const revokedCount = await strapi
+      .plugin(PLUGIN_ID)
+      .service('oauth')
+      .revokeTokenFamily(token.familyId);
 
-  await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).create({
-    data: {
-      accessToken,
-      refreshToken,
+    strapi.log.warn(
+      `[${PLUGIN_ID}] [audit] refresh_token_reuse client=${client.clientId} ` +
+        `family=${token.familyId} ip=${ctx.request.ip} revoked=${revokedCount}`
+    );
+    await strapi.plugin(PLUGIN_ID).service('audit').record(ctx, 'refresh_token_reuse', {
+      outcome: 'failure',
       clientId: client.clientId,
-      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
-      refreshExpiresAt: new Date(Date.now() + refreshExpiresIn * 1000).toISOString(),
-      revoked: false,
-    },
-  });
+      details: { familyId: token.familyId, revoked: revokedCount },
+    });
+  }
 
-  ctx.body = {
-    access_token: accessToken,
-    token_type: 'Bearer',
-    expires_in: expiresIn,
-    refresh_token: refreshToken,
-  };
+  ctx.status = 400;
+  ctx.body = { error: 'invalid_grant', error_description: 'Refresh token has already been used' };
 }
 
 async function handleRefreshTokenGrant(
   ctx: any,
   strapi: Core.Strapi,
   client: any,
-  refreshToken: string
+  refreshToken: string,
+  requestedScope: string | undefined,
+  requestedResource: string | null | undefined
 ) {
   if (!refreshToken) {
     ctx.status = 400;
@@ -291,53 +1028,181 @@ async function handleRefreshTokenGrant(
     return;
   }
 
-  // Find the token
-  const token = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).findFirst({
-    filters: { refreshToken, clientId: client.clientId, revoked: false },
-  });
+  // Find the token, including rotated ones so that replays can be detected
+  const storage = getStorage(strapi);
+  const token = await storage.findTokenByRefreshToken(hashToken(refreshToken));
 
-  if (!token) {
+  if (!token || token.clientId !== client.clientId) {
     ctx.status = 400;
     ctx.body = { error: 'invalid_grant', error_description: 'Invalid refresh token' };
     return;
   }
 
+  if (token.revoked) {
+    const rotatedAt = token.rotatedAt ? new Date(token.rotatedAt).getTime() : null;
+
+    if (!rotatedAt) {
+      ctx.status = 400;
+      ctx.body = { error: 'invalid_grant', error_description: 'Invalid refresh token' };
+      return;
+    }
+
+    await rejectRefreshTokenReplay(ctx, strapi, client, token, rotatedAt);
+    return;
+  }
+
   // Check refresh token expiration
-  if (new Date(token.refreshExpiresAt as string) < new Date()) {
+  if (new Date(token.refreshExpiresAt) < new Date()) {
     ctx.status = 400;
     ctx.body = { error: 'invalid_grant', error_description: 'Refresh token expired' };
     return;
   }
 
-  // Revoke old token
-  await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).update({
-    documentId: token.documentId,
-    data: { revoked: true } as any,
+  // A refresh may narrow the original scope but never widen it (RFC 6749 Section 6)
+  const grantedScopes = getGrantedScopes(token);
+  const requestedScopes = requestedScope ? parseScope(requestedScope) : grantedScopes;
+  if (!coversScopes(grantedScopes, requestedScopes)) {
+    ctx.status = 400;
+    ctx.body = { error: 'invalid_scope', error_description: 'Requested scope exceeds original grant' };
+    return;
+  }
+
+  // Drop scopes the client has lost since the original grant
+  const user = getTokenUser(token);
+  const allowedScopes = getAllowedScopes(
+    client,
+    strapi.plugin(PLUGIN_ID).service('registry').getScopesConfig()
+  );
+  const scopes = requestedScopes.filter(
+    (name) => allowedScopes.includes(name) || (user !== null && OIDC_SCOPES.includes(name))
+  );
+  if (!scopes.length) {
+    ctx.status = 400;
+    ctx.body = { error: 'invalid_scope', error_description: 'No scopes available for this client' };
+    return;
+  }
+
+  const resource = resolveTokenResource(ctx, strapi, token.resource, requestedResource);
+  if (resource === false) {
+    ctx.status = 400;
+    ctx.body = {
+      error: 'invalid_target',
+      error_description: 'resource does not match the original grant',
+    };
+    return;
+  }
+
+  // Rotate: revoke the old token, remembering when so replays can be detected.
+  // A concurrent refresh that rotated it first makes this request a replay.
+  const rotatedAt = Date.now();
+  if (!(await storage.revokeToken(token.id, new Date(rotatedAt).toISOString()))) {
+    await rejectRefreshTokenReplay(ctx, strapi, client, token, rotatedAt);
+    return;
+  }
+  strapi.plugin(PLUGIN_ID).service('jwt').invalidateDenylist();
+  strapi.plugin(PLUGIN_ID).service('token-cache').invalidateToken(token.accessToken);
+
+  await issueTokens(ctx, strapi, client, {
+    grantType: 'refresh_token',
+    scope: formatScope(scopes),
+    familyId: token.familyId || randomUUID(),
+    resource,
+    user,
   });
+}
+
+/**
+ * Device Authorization Grant (RFC 8628 Section 3.4)
+ *
+ * The device polls with its device code until the user has approved or
+ * denied it on the verification page, or the code expires.
+ */
+async function handleDeviceCodeGrant(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  deviceCode: string,
+  requestedResource: string | null | undefined
+) {
+  if (!deviceCode || typeof deviceCode !== 'string') {
+    ctx.status = 400;
+    ctx.body = { error: 'invalid_request', error_description: 'device_code is required' };
+    return;
+  }
 
-  // Generate new tokens
-  const newAccessToken = randomBytes(32).toString('hex');
-  const newRefreshToken = randomBytes(32).toString('hex');
-  const expiresIn = 3600;
-  const refreshExpiresIn = 30 * 24 * 3600;
+  const { record, error, errorDescription } = await strapi
+    .plugin(PLUGIN_ID)
+    .service('device')
+    .poll(deviceCode, client.clientId);
 
-  await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).create({
-    data: {
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
-      clientId: client.clientId,
-      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
-      refreshExpiresAt: new Date(Date.now() + refreshExpiresIn * 1000).toISOString(),
-      revoked: false,
-    },
+  if (!record) {
+    ctx.status = 400;
+    ctx.body = { error, error_description: errorDescription };
+    return;
+  }
+
+  const resource = resolveTokenResource(ctx, strapi, record.resource || null, requestedResource);
+  if (resource === false) {
+    ctx.status = 400;
+    ctx.body = {
+      error: 'invalid_target',
+      error_description: 'resource does not match the device authorization request',
+    };
+    return;
+  }
+
+  await issueTokens(ctx, strapi, client, {
+    grantType: DEVICE_CODE_GRANT_TYPE,
+    scope: record.scope || null,
+    familyId: randomUUID(),
+    resource,
+    user: getTokenUser(record),
   });
+}
 
-  ctx.body = {
-    access_token: newAccessToken,
-    token_type: 'Bearer',
-    expires_in: expiresIn,
-    refresh_token: newRefreshToken,
-  };
+/**
+ * Client Credentials Grant (RFC 6749 Section 4.4)
+ *
+ * Lets confidential clients get access tokens for themselves, without a user,
+ * e.g. for scheduled jobs. No refresh token is issued: the client simply asks again.
+ */
+async function handleClientCredentialsGrant(
+  ctx: any,
+  strapi: Core.Strapi,
+  client: any,
+  requestedScope: string | undefined,
+  requestedResource: string | null | undefined
+) {
+  if (isPublicClient(client)) {
+    ctx.status = 400;
+    ctx.body = {
+      error: 'unauthorized_client',
+      error_description: 'Public clients cannot use the client_credentials grant',
+    };
+    return;
+  }
+
+  // No user is involved, so the OpenID Connect scopes don't apply
+  const { scopes, error: scopeError } = resolveRequestedScopes(
+    client,
+    requestedScope,
+    strapi.plugin(PLUGIN_ID).service('registry').getScopesConfig(),
+    { allowOidc: false }
+  );
+
+  if (scopeError) {
+    ctx.status = 400;
+    ctx.body = { error: 'invalid_scope', error_description: scopeError };
+    return;
+  }
+
+  await issueTokens(ctx, strapi, client, {
+    grantType: 'client_credentials',
+    scope: formatScope(scopes),
+    familyId: null,
+    resource: requestedResource ?? null,
+    user: null,
+  });
 }
 
 export default oauthController;
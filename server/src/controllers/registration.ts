@@ -0,0 +1,245 @@
+/**
+ * Dynamic Client Registration Controller (RFC 7591)
+ *
+ * Lets MCP clients such as Claude and Cursor register themselves
+ * instead of requiring an admin to create the client by hand.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { ApiTokensConfig, RegistrationConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { DEFAULT_GRANT_TYPES, GRANT_TYPES, type GrantType } from '../utils/grant-types';
+import { safeEqual } from '../utils/hash';
+
+const SUPPORTED_RESPONSE_TYPES = ['code'];
+const SUPPORTED_AUTH_METHODS = ['none', 'client_secret_post', 'client_secret_basic'];
+
+/**
+ * Loopback hosts allowed to use plain http redirect URIs (RFC 8252 Section 7.3)
+ */
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Schemes that must never be used as redirect targets
+ */
+const FORBIDDEN_SCHEMES = new Set(['javascript:', 'data:', 'file:', 'vbscript:']);
+
+/**
+ * Validate a single redirect URI. Returns an error description, or null if valid.
+ *
+ * Accepts https URIs, http URIs on loopback hosts, and private-use
+ * reverse-domain schemes (e.g. com.example.app:/callback) for native apps.
+ * Wildcards are reserved for admin-managed clients.
+ */
+function validateRedirectUri(uri: unknown): string | null {
+  if (typeof uri !== 'string' || !uri) {
+    return 'redirect_uris must be non-empty strings';
+  }
+
+  if (uri.includes('*')) {
+    return `Wildcards are not allowed in registered redirect URIs: ${uri}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return `Invalid redirect URI: ${uri}`;
+  }
+
+  if (url.hash) {
+    return `Redirect URIs must not contain a fragment: ${uri}`;
+  }
+
+  if (FORBIDDEN_SCHEMES.has(url.protocol)) {
+    return `Redirect URI scheme is not allowed: ${uri}`;
+  }
+
+  if (url.protocol === 'http:' && !LOOPBACK_HOSTS.has(url.hostname)) {
+    return `Redirect URIs must use https unless they target a loopback address: ${uri}`;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:' && !url.protocol.includes('.')) {
+    return `Custom scheme redirect URIs must use a reverse-domain scheme: ${uri}`;
+  }
+
+  return null;
+}
+
+/**
+ * Compare the presented initial access token with the configured one
+ */
+function hasValidInitialAccessToken(ctx: any, expected: string | null): boolean {
+  const authHeader: string | undefined = ctx.request.headers.authorization;
+  if (!expected || !authHeader?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  return safeEqual(authHeader.slice(7), expected);
+}
+
+/**
+ * Grant types a client may register for. client_credentials tokens are issued
+ * without any user's consent, so open registration doesn't offer it.
+ */
+function getRegistrableGrantTypes(config: RegistrationConfig): GrantType[] {
+  return config.mode === 'token'
+    ? [...GRANT_TYPES]
+    : GRANT_TYPES.filter((grantType) => grantType !== 'client_credentials');
+}
+
+const registrationController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Client Registration Endpoint
+   * POST /oauth/register
+   */
+  async register(ctx: any) {
+    const config = strapi.plugin(PLUGIN_ID).config<RegistrationConfig>('registration');
+
+    if (config.mode === 'disabled') {
+      ctx.status = 403;
+      ctx.body = {
+        error: 'access_denied',
+        error_description: 'Dynamic client registration is disabled',
+      };
+      return;
+    }
+
+    if (config.mode === 'token' && !hasValidInitialAccessToken(ctx, config.initialAccessToken)) {
+      ctx.status = 401;
+      ctx.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+      ctx.body = {
+        error: 'invalid_token',
+        error_description: 'A valid initial access token is required',
+      };
+      return;
+    }
+
+    const metadata = ctx.request.body ?? {};
+    const {
+      redirect_uris,
+      client_name,
+      token_endpoint_auth_method = 'client_secret_basic',
+      grant_types,
+      response_types = ['code'],
+    } = metadata;
+
+    // Clients that don't ask for grant types get the interactive defaults
+    const registrableGrantTypes = getRegistrableGrantTypes(config);
+    if (
+      grant_types !== undefined &&
+      (!Array.isArray(grant_types) ||
+        grant_types.length === 0 ||
+        grant_types.some((grantType) => !registrableGrantTypes.includes(grantType)))
+    ) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_client_metadata',
+        error_description: `Supported grant_types: ${registrableGrantTypes.join(', ')}`,
+      };
+      return;
+    }
+    const grantTypes: GrantType[] = grant_types
+      ? [...new Set<GrantType>(grant_types)]
+      : DEFAULT_GRANT_TYPES;
+
+    // Validate redirect URIs. Clients that never use the authorization code flow may omit them.
+    const usesRedirects = grantTypes.includes('authorization_code');
+    const redirectUris = redirect_uris === undefined && !usesRedirects ? [] : redirect_uris;
+    if (!Array.isArray(redirectUris) || (usesRedirects && redirectUris.length === 0)) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_redirect_uri',
+        error_description: 'redirect_uris must be a non-empty array',
+      };
+      return;
+    }
+
+    for (const uri of redirectUris) {
+      const redirectError = validateRedirectUri(uri);
+      if (redirectError) {
+        ctx.status = 400;
+        ctx.body = { error: 'invalid_redirect_uri', error_description: redirectError };
+        return;
+      }
+    }
+
+    // Validate remaining client metadata
+    if (!SUPPORTED_AUTH_METHODS.includes(token_endpoint_auth_method)) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_client_metadata',
+        error_description: `Unsupported token_endpoint_auth_method: ${token_endpoint_auth_method}`,
+      };
+      return;
+    }
+
+    if (grantTypes.includes('client_credentials') && token_endpoint_auth_method === 'none') {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_client_metadata',
+        error_description: 'Public clients cannot use the client_credentials grant',
+      };
+      return;
+    }
+
+    if (
+      !Array.isArray(response_types) ||
+      response_types.some((responseType) => !SUPPORTED_RESPONSE_TYPES.includes(responseType))
+    ) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_client_metadata',
+        error_description: `Supported response_types: ${SUPPORTED_RESPONSE_TYPES.join(', ')}`,
+      };
+      return;
+    }
+
+    if (client_name !== undefined && (typeof client_name !== 'string' || !client_name.trim())) {
+      ctx.status = 400;
+      ctx.body = {
+        error: 'invalid_client_metadata',
+        error_description: 'client_name must be a non-empty string',
+      };
+      return;
+    }
+
+    // Without an API token the client cannot reach any MCP endpoint, so it stays
+    // inactive until an admin links a token and activates it. A plugin-owned
+    // token is created by the client lifecycle when apiTokens.autoCreate is on.
+    const { autoCreate } = strapi.plugin(PLUGIN_ID).config<ApiTokensConfig>('apiTokens');
+    const { client, clientSecret } = await strapi
+      .plugin(PLUGIN_ID)
+      .service('client')
+      .createClient({
+        name: client_name?.trim() || 'Dynamically registered client',
+        clientType: token_endpoint_auth_method === 'none' ? 'public' : 'confidential',
+        redirectUris,
+        allowedGrantTypes: grant_types ? grantTypes : null,
+        strapiApiToken: autoCreate ? null : config.defaultStrapiApiToken,
+        description: 'Registered via dynamic client registration',
+        active: autoCreate || Boolean(config.defaultStrapiApiToken),
+      });
+
+    if (!client.active) {
+      strapi.log.warn(
+        `[${PLUGIN_ID}] Registered client ${client.clientId} is inactive until an admin activates it`
+      );
+    }
+
+    ctx.status = 201;
+    ctx.set('Cache-Control', 'no-store');
+    ctx.body = {
+      client_id: client.clientId,
+      ...(clientSecret && { client_secret: clientSecret, client_secret_expires_at: 0 }),
+      client_id_issued_at: Math.floor(new Date(client.createdAt).getTime() / 1000),
+      client_name: client.name,
+      redirect_uris: redirectUris,
+      grant_types: grantTypes,
+      response_types,
+      token_endpoint_auth_method,
+    };
+  },
+});
+
+export default registrationController;
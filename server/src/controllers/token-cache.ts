@@ -0,0 +1,20 @@
+/**
+ * Token Cache Admin Controller
+ *
+ * Reports how well the MCP middleware's token cache is doing, for tuning
+ * tokenCache.ttl and tokenCache.maxEntries.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+
+const tokenCacheController = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * GET /token-cache/stats
+   */
+  async stats(ctx: any) {
+    ctx.body = { data: strapi.plugin(PLUGIN_ID).service('token-cache').stats() };
+  },
+});
+
+export default tokenCacheController;
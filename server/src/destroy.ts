@@ -1,7 +1,10 @@
 import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from './pluginId';
 
 const destroy = ({ strapi }: { strapi: Core.Strapi }) => {
-  // destroy phase
+  // Stop the scheduled cleanup and key maintenance
+  strapi.plugin(PLUGIN_ID).service('cleanup').unschedule();
+  strapi.plugin(PLUGIN_ID).service('jwt').unschedule();
 };
 
 export default destroy;
@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClient, createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import oauthController from '../../controllers/oauth';
+import { PLUGIN_ID } from '../../pluginId';
+import type { AuthorizationRequest } from '../../services/authorization';
+import mcpOauthMiddleware from '../mcp-oauth';
+
+const ADMIN_USER_UID = 'admin::user';
+const MCP_PATH = '/api/test/mcp';
+const SECRET = 'client-secret';
+const USER = { id: '1', type: 'admin' as const };
+
+let strapi: TestStrapi;
+let accessToken: string;
+
+async function getAccessToken(request: Partial<AuthorizationRequest> = {}) {
+  const client = await createClient(strapi, { clientSecret: SECRET });
+  const code = await strapi
+    .plugin(PLUGIN_ID)
+    .service('authorization')
+    .issueCode(
+      {
+        clientId: client.clientId,
+        redirectUri: 'https://client.example/callback',
+        scope: 'mcp',
+        ...request,
+      },
+      USER
+    );
+  const ctx = createContext({
+    method: 'POST',
+    body: {
+      grant_type: 'authorization_code',
+      client_id: client.clientId,
+      client_secret: SECRET,
+      code,
+      redirect_uri: 'https://client.example/callback',
+    },
+  });
+  await oauthController({ strapi }).token(ctx);
+  return ctx.body.access_token as string;
+}
+
+async function callMcp(path = MCP_PATH) {
+  const ctx = createContext({
+    path,
+    headers: { authorization: `Bearer ${accessToken}` },
+  });
+  await mcpOauthMiddleware({}, { strapi })(ctx, async () => {
+    ctx.status = 204;
+  });
+  return ctx;
+}
+
+beforeEach(async () => {
+  strapi = createStrapi({
+    data: { [ADMIN_USER_UID]: [{ email: 'admin@example.com', isActive: true, roles: [] }] },
+  });
+  accessToken = await getAccessToken();
+});
+
+describe('MCP OAuth middleware user lookup', () => {
+  it('tells MCP handlers which user authorized the token', async () => {
+    const ctx = await callMcp();
+
+    expect(ctx.state.mcpUser).toEqual({
+      id: '1',
+      type: 'admin',
+      email: 'admin@example.com',
+      username: null,
+      roles: [],
+    });
+  });
+
+  it('looks the user up once while cached', async () => {
+    const findUser = vi.spyOn(strapi.plugin(PLUGIN_ID).service('authorization'), 'findUser');
+
+    expect((await callMcp()).status).toBe(204);
+    expect((await callMcp()).status).toBe(204);
+
+    expect(findUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a cached user once blocked', async () => {
+    expect((await callMcp()).status).toBe(204);
+
+    await strapi.db.query(ADMIN_USER_UID).update({ where: { id: 1 }, data: { blocked: true } });
+    strapi.plugin(PLUGIN_ID).service('token-cache').invalidateUser('admin', 1);
+
+    expect((await callMcp()).status).toBe(401);
+  });
+
+  it('forgets the user when their tokens are revoked', async () => {
+    const tokenCache = strapi.plugin(PLUGIN_ID).service('token-cache');
+    expect((await callMcp()).status).toBe(204);
+    expect(tokenCache.getUser(USER)).not.toBeNull();
+
+    const [token] = strapi.rows(`plugin::${PLUGIN_ID}.mcp-oauth-token`);
+    await strapi.plugin(PLUGIN_ID).service('oauth').revokeUserTokens(token.clientId, USER);
+
+    expect(tokenCache.getUser(USER)).toBeNull();
+  });
+});
+
+describe('MCP OAuth middleware scopes', () => {
+  beforeEach(() => {
+    strapi = createStrapi({
+      config: { scopes: { transcripts: { paths: ['/api/transcripts/mcp'] } } },
+      data: { [ADMIN_USER_UID]: [{ email: 'admin@example.com', isActive: true, roles: [] }] },
+    });
+  });
+
+  it('accepts a token whose scope unlocks the endpoint', async () => {
+    accessToken = await getAccessToken({ scope: 'transcripts' });
+
+    expect((await callMcp('/api/transcripts/mcp')).status).toBe(204);
+  });
+
+  it('rejects a token without a scope for the endpoint with 403 insufficient_scope', async () => {
+    accessToken = await getAccessToken({ scope: 'transcripts' });
+
+    const ctx = await callMcp();
+
+    expect(ctx.status).toBe(403);
+    expect(ctx.body.error).toBe('insufficient_scope');
+    expect(ctx.response.headers['www-authenticate']).toContain(
+      'error="insufficient_scope", scope="mcp"'
+    );
+  });
+});
+
+describe('MCP OAuth middleware direct API tokens', () => {
+  const API_TOKEN = 'strapi-api-token-value';
+
+  function createStrapiWithApiToken(allowDirectApiTokens: boolean) {
+    strapi = createStrapi({
+      config: { allowDirectApiTokens },
+      services: {
+        'admin::api-token': {
+          hash: (accessKey: string) => `hashed:${accessKey}`,
+          getBy: async ({ accessKey }: { accessKey: string }) =>
+            accessKey === `hashed:${API_TOKEN}` ? { id: 3, expiresAt: null } : null,
+        },
+      },
+    });
+    accessToken = API_TOKEN;
+  }
+
+  it('accepts a Strapi API token as the bearer token', async () => {
+    createStrapiWithApiToken(true);
+
+    const ctx = await callMcp();
+
+    expect(ctx.status).toBe(204);
+    expect(ctx.state).toMatchObject({
+      authMethod: 'api-token',
+      apiTokenId: 3,
+      strapiToken: API_TOKEN,
+    });
+  });
+
+  it('rejects Strapi API tokens when allowDirectApiTokens is off', async () => {
+    createStrapiWithApiToken(false);
+
+    const ctx = await callMcp();
+
+    expect(ctx.status).toBe(401);
+    expect(ctx.body.error).toBe('invalid_token');
+  });
+
+  it('lets an endpoint override allowDirectApiTokens', async () => {
+    createStrapiWithApiToken(false);
+    strapi
+      .plugin(PLUGIN_ID)
+      .service('registry')
+      .register({ pluginId: 'open', path: '/api/open/mcp', allowApiTokens: true });
+
+    expect((await callMcp('/api/open/mcp')).status).toBe(204);
+
+    createStrapiWithApiToken(true);
+    strapi
+      .plugin(PLUGIN_ID)
+      .service('registry')
+      .register({ pluginId: 'closed', path: '/api/closed/mcp', allowApiTokens: false });
+
+    expect((await callMcp('/api/closed/mcp')).status).toBe(401);
+  });
+});
+
+describe('MCP OAuth middleware audience', () => {
+  const BASE_URL = 'https://cms.example';
+
+  beforeEach(() => {
+    strapi = createStrapi({
+      config: { baseUrl: BASE_URL },
+      data: { [ADMIN_USER_UID]: [{ email: 'admin@example.com', isActive: true, roles: [] }] },
+    });
+  });
+
+  it('accepts a token issued for the endpoint or the /api root', async () => {
+    accessToken = await getAccessToken({ resource: `${BASE_URL}${MCP_PATH}` });
+    expect((await callMcp(`${MCP_PATH}/sse`)).status).toBe(204);
+
+    accessToken = await getAccessToken({ resource: `${BASE_URL}/api` });
+    expect((await callMcp()).status).toBe(204);
+  });
+
+  it('rejects a token issued for another MCP endpoint', async () => {
+    accessToken = await getAccessToken({ resource: `${BASE_URL}/api/other/mcp` });
+
+    const ctx = await callMcp();
+
+    expect(ctx.status).toBe(401);
+    expect(ctx.body).toMatchObject({
+      error: 'invalid_token',
+      message: 'Token audience does not match this MCP endpoint',
+    });
+  });
+});
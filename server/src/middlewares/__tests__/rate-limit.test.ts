@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createContext, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import rateLimitMiddleware from '../rate-limit';
+
+let strapi: TestStrapi;
+
+async function request(ip: string, body: Record<string, unknown> = {}) {
+  const ctx = createContext({ method: 'POST', path: '/oauth/token', ip, body });
+  let passed = false;
+  await rateLimitMiddleware({ scope: 'token' }, { strapi })(ctx, async () => {
+    passed = true;
+  });
+  return { ctx, passed };
+}
+
+beforeEach(() => {
+  strapi = createStrapi({ config: { rateLimit: { token: { ip: 2, client: 1 } } } });
+});
+
+describe('rate limit middleware', () => {
+  it('limits requests per IP address', async () => {
+    await request('203.0.113.1');
+    await request('203.0.113.1');
+
+    const { ctx, passed } = await request('203.0.113.1');
+    expect(passed).toBe(false);
+    expect(ctx.status).toBe(429);
+    expect(ctx.body.error).toBe('too_many_requests');
+    expect((await request('198.51.100.7')).passed).toBe(true);
+  });
+
+  it('does not count the client_id a request names', async () => {
+    await request('203.0.113.1', { client_id: 'shared-client' });
+
+    expect((await request('198.51.100.7', { client_id: 'shared-client' })).passed).toBe(true);
+  });
+});
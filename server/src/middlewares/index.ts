@@ -1,5 +1,7 @@
 import mcpOauth from './mcp-oauth';
+import rateLimit from './rate-limit';
 
 export default {
   'mcp-oauth': mcpOauth,
+  'rate-limit': rateLimit,
 };
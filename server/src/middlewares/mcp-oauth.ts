@@ -1,28 +1,45 @@
 /**
  * MCP OAuth Authentication Middleware
  *
- * This middleware provides OAuth 2.0 authentication for all MCP endpoints.
- * Uses convention-based protection: any route matching /api/{plugin}/mcp is protected.
+ * This middleware provides OAuth 2.0 authentication for all MCP endpoints:
+ * the endpoints declared in the registry service, and by convention any
+ * other route matching mcpEndpointPattern (/api/{plugin}/mcp).
  *
  * It supports dual authentication:
  * - OAuth 2.0 tokens (for ChatGPT and other OAuth clients)
- * - Direct Strapi API tokens (for Claude Desktop and scripts)
+ * - Direct Strapi API tokens (for Claude Desktop and scripts), verified against
+ *   the admin API token service and can be disabled with `allowDirectApiTokens`
+ *   or per endpoint
  *
- * On success: Sets ctx.state.strapiToken for use in controllers
+ * On success: Sets ctx.state.strapiToken (and ctx.state.mcpEndpoint) for use in controllers,
+ * and ctx.state.mcpUser for tokens a user authorized. With authorization.userPermissions,
+ * strapiToken is a Users & Permissions JWT of that user instead of the client's API token.
  * On failure: Returns 401 with WWW-Authenticate header for OAuth discovery
+ * (error="invalid_token" for expired, revoked or unknown tokens, and tokens
+ * issued for another MCP endpoint's resource),
+ * or 403 insufficient_scope when the token's scopes don't cover the endpoint.
+ * Requests over the IP or client rate limit get 429 with Retry-After.
+ *
+ * Validated opaque tokens and their clients are kept in the token-cache service
+ * for a short while, so repeated calls skip the lookups.
  */
 
 import type { Core } from '@strapi/strapi';
+import type { AuthorizationConfig, PluginConfig } from '../config';
 import { PLUGIN_ID } from '../pluginId';
+import type { TokenUser } from '../services/authorization';
+import { getTokenUser } from '../services/oauth';
+import type { McpEndpoint } from '../services/registry';
+import type { CachedToken, CachedUser } from '../services/token-cache';
+import { hashToken } from '../utils/hash';
+import { isJwt } from '../utils/jwt';
+import { setTooManyRequests } from '../utils/rate-limit';
+import { getAcceptedAudiences } from '../utils/resource';
+import { getGrantedScopes, getScopesForPath, hasScopeForPath } from '../utils/scopes';
+import { getBaseUrl, getIssuer } from '../utils/url';
 
 const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
 
-/**
- * Convention-based MCP endpoint pattern.
- * Matches: /api/{plugin-name}/mcp or /api/{plugin-name}/mcp/...
- */
-const MCP_ENDPOINT_PATTERN = /^\/api\/[^/]+\/mcp(\/.*)?$/;
-
 /**
  * Extract bearer token from Authorization header
  */
@@ -34,98 +51,299 @@ function extractBearerToken(authHeader: string | undefined): string | null {
 }
 
 /**
- * Build the base URL from request headers (supports ngrok/proxies)
+ * Build WWW-Authenticate header value for OAuth discovery, pointing to the
+ * metadata of the requested MCP endpoint.
+ * Extra params (e.g. error, scope) are appended per RFC 6750 Section 3.
  */
-function getBaseUrl(ctx: any, strapi: Core.Strapi): string {
-  const forwardedProto = ctx.request.headers['x-forwarded-proto'] || ctx.protocol;
-  const forwardedHost = ctx.request.headers['x-forwarded-host'] || ctx.request.headers['host'];
-  const serverUrl = (strapi.config.get('server.url') as string) || 'http://localhost:1337';
-  return forwardedHost ? `${forwardedProto}://${forwardedHost}` : serverUrl;
-}
-
-/**
- * Build WWW-Authenticate header value for OAuth discovery
- */
-function buildWwwAuthenticateHeader(ctx: any, strapi: Core.Strapi): string {
+function buildWwwAuthenticateHeader(
+  ctx: any,
+  strapi: Core.Strapi,
+  endpoint: McpEndpoint,
+  params: Record<string, string> = {}
+): string {
   const baseUrl = getBaseUrl(ctx, strapi);
-  const resourceMetadataUrl = `${baseUrl}/api/${PLUGIN_ID}/.well-known/oauth-protected-resource`;
-  return `Bearer resource_metadata="${resourceMetadataUrl}"`;
+  const resourceMetadataUrl =
+    `${baseUrl}/api/${PLUGIN_ID}/.well-known/oauth-protected-resource` + endpoint.path;
+  const extraParams = Object.entries(params).map(([key, value]) => `, ${key}="${value}"`);
+  return `Bearer resource_metadata="${resourceMetadataUrl}"${extraParams.join('')}`;
 }
 
 interface TokenValidationResult {
   valid: boolean;
+  /** Unset when the request acts as the token's user (see actsAsUser) */
   strapiApiToken?: string;
+  clientId?: string;
+  scopes?: string[];
+  user?: TokenUser | null;
+  expiresAt?: Date;
+  /** Set when the token is a known OAuth token that can't be used (expired, revoked, ...) */
   error?: string;
 }
 
 /**
- * Validate OAuth access token and return linked Strapi API token
+ * Whether requests with a token run with its user's role permissions
+ * rather than the client's API token
+ */
+function actsAsUser(strapi: Core.Strapi, user: TokenUser | null | undefined): boolean {
+  const { userPermissions } = strapi
+    .plugin(PLUGIN_ID)
+    .config<AuthorizationConfig>('authorization');
+  return userPermissions && user?.type === 'users-permissions';
+}
+
+/**
+ * Resolve the Strapi API token of an active OAuth client. Not needed when
+ * the request acts as the token's user. Resolved clients are cached.
+ */
+async function resolveClientApiToken(
+  clientId: string,
+  user: TokenUser | null,
+  strapi: Core.Strapi
+): Promise<Pick<TokenValidationResult, 'valid' | 'strapiApiToken' | 'clientId' | 'error'>> {
+  const tokenCache = strapi.plugin(PLUGIN_ID).service('token-cache');
+  const userRequest = actsAsUser(strapi, user);
+
+  const cached = tokenCache.getClient(clientId);
+  if (cached && (userRequest || cached.strapiApiToken)) {
+    return userRequest
+      ? { valid: true, clientId }
+      : { valid: true, strapiApiToken: cached.strapiApiToken, clientId };
+  }
+
+  const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
+    filters: { clientId, active: true },
+  });
+
+  if (!client) {
+    return { valid: false, error: 'Client not found' };
+  }
+
+  if (userRequest) {
+    tokenCache.setClient(clientId, { strapiApiToken: null });
+    return { valid: true, clientId };
+  }
+
+  // Resolve the client's current Strapi API token (linked record or stored token)
+  const strapiApiToken = await strapi.plugin(PLUGIN_ID).service('credential').resolve(client);
+
+  if (!strapiApiToken) {
+    return { valid: false, error: 'Client has no usable API token' };
+  }
+
+  tokenCache.setClient(clientId, { strapiApiToken });
+  return { valid: true, strapiApiToken, clientId };
+}
+
+/**
+ * Find the user who authorized a token, unless deleted or blocked. Found users are cached.
+ */
+async function findTokenUser(user: TokenUser, strapi: Core.Strapi): Promise<CachedUser | null> {
+  const tokenCache = strapi.plugin(PLUGIN_ID).service('token-cache');
+  const cached = tokenCache.getUser(user);
+  if (cached) {
+    return cached;
+  }
+
+  const found = await strapi.plugin(PLUGIN_ID).service('authorization').findUser(user);
+  if (found) {
+    tokenCache.setUser(user, found);
+  }
+  return found;
+}
+
+/**
+ * Validate a JWT access token by its signature and claims, without a token lookup
+ */
+async function validateJwtAccessToken(
+  token: string,
+  ctx: any,
+  strapi: Core.Strapi
+): Promise<TokenValidationResult> {
+  const { valid, claims, error } = await strapi
+    .plugin(PLUGIN_ID)
+    .service('jwt')
+    .verify(token, {
+      issuer: getIssuer(ctx, strapi),
+      audiences: getAcceptedAudiences(ctx, strapi),
+    });
+
+  if (!valid) {
+    return { valid: false, error };
+  }
+
+  const user: TokenUser | null = claims.user_type ? { id: claims.sub, type: claims.user_type } : null;
+  const result = await resolveClientApiToken(claims.client_id, user, strapi);
+  return result.valid
+    ? { ...result, scopes: getGrantedScopes(claims), user, expiresAt: new Date(claims.exp * 1000) }
+    : result;
+}
+
+/**
+ * Validate OAuth access token and return the client's current Strapi API token
+ * and the user who authorized it
  */
 async function validateOAuthToken(
   token: string,
+  ctx: any,
   strapi: Core.Strapi
 ): Promise<TokenValidationResult> {
   try {
-    // Find the token record
-    const tokenRecord = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).findFirst({
-      filters: { accessToken: token, revoked: false },
-    });
+    if (isJwt(token) && strapi.plugin(PLUGIN_ID).service('jwt').isEnabled()) {
+      return await validateJwtAccessToken(token, ctx, strapi);
+    }
+
+    const tokenHash = hashToken(token);
+    const tokenCache = strapi.plugin(PLUGIN_ID).service('token-cache');
+    let cached: CachedToken | null = tokenCache.getToken(tokenHash);
 
-    if (!tokenRecord) {
-      return { valid: false };
+    if (!cached) {
+      // Find the token record, including revoked ones so they can be reported as such
+      const tokenRecord = await strapi
+        .plugin(PLUGIN_ID)
+        .service('storage')
+        .get()
+        .findTokenByAccessToken(tokenHash);
+
+      if (!tokenRecord) {
+        return { valid: false };
+      }
+
+      if (tokenRecord.revoked) {
+        return { valid: false, error: 'Token revoked' };
+      }
+
+      // Check expiration
+      if (new Date(tokenRecord.expiresAt) < new Date()) {
+        return { valid: false, error: 'Token expired' };
+      }
+
+      cached = {
+        clientId: tokenRecord.clientId,
+        familyId: tokenRecord.familyId,
+        userId: tokenRecord.userId,
+        userType: tokenRecord.userType,
+        resource: tokenRecord.resource,
+        scopes: getGrantedScopes(tokenRecord),
+        expiresAt: new Date(tokenRecord.expiresAt),
+      };
+      tokenCache.setToken(tokenHash, cached);
     }
 
-    // Check expiration
-    if (new Date(tokenRecord.expiresAt as string) < new Date()) {
-      return { valid: false, error: 'Token expired' };
+    // Tokens requested without a resource indicator are valid on every MCP endpoint
+    if (cached.resource && !getAcceptedAudiences(ctx, strapi).includes(cached.resource)) {
+      return { valid: false, error: 'Token audience does not match this MCP endpoint' };
     }
 
     // Get the linked OAuth client to find the Strapi API token
-    const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
-      filters: { clientId: tokenRecord.clientId as string },
-    });
+    const user = getTokenUser(cached);
+    const result = await resolveClientApiToken(cached.clientId, user, strapi);
+    return result.valid
+      ? { ...result, scopes: cached.scopes, user, expiresAt: cached.expiresAt }
+      : result;
+  } catch (error) {
+    strapi.log.error(`[${PLUGIN_ID}] Error validating OAuth token`, { error });
+    return { valid: false, error: 'Token validation failed' };
+  }
+}
+
+/**
+ * Verify a bearer value against Strapi's API tokens (Settings → API Tokens).
+ * Returns the API token record, or null if it is unknown or expired.
+ */
+async function validateApiToken(token: string, strapi: Core.Strapi): Promise<any | null> {
+  try {
+    const apiTokenService = strapi.service('admin::api-token');
+    const apiToken = await apiTokenService.getBy({ accessKey: apiTokenService.hash(token) });
 
-    if (!client) {
-      return { valid: false, error: 'Client not found' };
+    if (!apiToken) {
+      return null;
     }
 
-    return {
-      valid: true,
-      strapiApiToken: client.strapiApiToken as string,
-    };
+    if (apiToken.expiresAt && new Date(apiToken.expiresAt) < new Date()) {
+      return null;
+    }
+
+    return apiToken;
   } catch (error) {
-    strapi.log.error(`[${PLUGIN_ID}] Error validating OAuth token`, { error });
-    return { valid: false, error: 'Token validation failed' };
+    strapi.log.error(`[${PLUGIN_ID}] Error validating API token`, { error });
+    return null;
   }
 }
 
 /**
- * Check if path is a protected MCP endpoint using convention-based pattern.
- * Any route matching /api/{plugin}/mcp is automatically protected.
+ * Reject the request with 401 invalid_token (RFC 6750 Section 3.1)
+ */
+function rejectInvalidToken(
+  ctx: any,
+  strapi: Core.Strapi,
+  endpoint: McpEndpoint,
+  description: string
+) {
+  ctx.status = 401;
+  ctx.set(
+    'WWW-Authenticate',
+    buildWwwAuthenticateHeader(ctx, strapi, endpoint, {
+      error: 'invalid_token',
+      error_description: description,
+    })
+  );
+  ctx.body = {
+    error: 'invalid_token',
+    message: description,
+  };
+}
+
+/**
+ * Issue a Users & Permissions JWT for the user, valid as long as the access token
+ */
+function issueUserJwt(strapi: Core.Strapi, record: any, expiresAt: Date): string {
+  const expiresIn = Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+  return strapi.plugin('users-permissions').service('jwt').issue({ id: record.id }, { expiresIn });
+}
+
+/**
+ * Reject the request with 429 once a rate limit is exceeded
  */
-function isMcpEndpoint(path: string): boolean {
-  return MCP_ENDPOINT_PATTERN.test(path);
+function rejectTooManyRequests(ctx: any, retryAfter: number) {
+  setTooManyRequests(ctx, retryAfter);
+  ctx.body = {
+    error: 'Too Many Requests',
+    message: `Rate limit exceeded, retry after ${retryAfter} seconds`,
+  };
 }
 
 /**
  * MCP OAuth Authentication Middleware Factory
  */
 const mcpOauthMiddleware = (config: any, { strapi }: { strapi: Core.Strapi }) => {
+  const registry = strapi.plugin(PLUGIN_ID).service('registry');
+  const rateLimit = strapi.plugin(PLUGIN_ID).service('rate-limit');
+  const audit = strapi.plugin(PLUGIN_ID).service('audit');
+
   return async (ctx: any, next: () => Promise<void>) => {
-    // Convention-based protection: any /api/*/mcp route is protected
-    if (!isMcpEndpoint(ctx.path)) {
+    // Declared endpoints, then any route matching mcpEndpointPattern
+    const match = registry.resolve(ctx.path);
+    if (!match || match.isPublic) {
       return next();
     }
 
+    const { endpoint } = match;
     strapi.log.debug(`[${PLUGIN_ID}] Protecting MCP endpoint: ${ctx.path}`);
 
+    // Limit every caller, including ones guessing tokens
+    const ipRetryAfter = await rateLimit.hit('mcp', 'ip', ctx.request.ip);
+    if (ipRetryAfter) {
+      rejectTooManyRequests(ctx, ipRetryAfter);
+      return;
+    }
+
     const authHeader = ctx.request.headers.authorization;
     const token = extractBearerToken(authHeader);
 
     // No token provided - return 401 with OAuth discovery header
     if (!token) {
       ctx.status = 401;
-      ctx.set('WWW-Authenticate', buildWwwAuthenticateHeader(ctx, strapi));
+      ctx.set('WWW-Authenticate', buildWwwAuthenticateHeader(ctx, strapi, endpoint));
       ctx.body = {
         error: 'Unauthorized',
         message: 'No authorization token provided',
@@ -134,18 +352,117 @@ const mcpOauthMiddleware = (config: any, { strapi }: { strapi: Core.Strapi }) =>
     }
 
     // Try OAuth token validation first
-    const oauthResult = await validateOAuthToken(token, strapi);
+    const oauthResult = await validateOAuthToken(token, ctx, strapi);
+
+    if (oauthResult.valid) {
+      const clientRetryAfter = await rateLimit.hit('mcp', 'client', oauthResult.clientId);
+      if (clientRetryAfter) {
+        rejectTooManyRequests(ctx, clientRetryAfter);
+        return;
+      }
+
+      // Token is valid but must carry a scope that unlocks this MCP endpoint
+      const scopesConfig = registry.getScopesConfig();
+      if (!hasScopeForPath(oauthResult.scopes, ctx.path, scopesConfig)) {
+        ctx.status = 403;
+        ctx.set(
+          'WWW-Authenticate',
+          buildWwwAuthenticateHeader(ctx, strapi, endpoint, {
+            error: 'insufficient_scope',
+            scope: getScopesForPath(ctx.path, scopesConfig).join(' '),
+          })
+        );
+        ctx.body = {
+          error: 'insufficient_scope',
+          message: 'The access token does not grant access to this MCP endpoint',
+        };
+        await audit.record(ctx, 'mcp_request', {
+          outcome: 'failure',
+          clientId: oauthResult.clientId,
+          userId: oauthResult.user?.id,
+          authMethod: 'oauth',
+          details: { error: 'insufficient_scope' },
+        });
+        return;
+      }
 
-    if (oauthResult.valid && oauthResult.strapiApiToken) {
-      // OAuth token is valid - store the linked Strapi token
-      ctx.state.strapiToken = oauthResult.strapiApiToken;
+      // The user who authorized the token must still exist and not be blocked
+      const found = oauthResult.user ? await findTokenUser(oauthResult.user, strapi) : null;
+      if (oauthResult.user && !found) {
+        rejectInvalidToken(ctx, strapi, endpoint, 'User not found or blocked');
+        await audit.record(ctx, 'mcp_request', {
+          outcome: 'failure',
+          clientId: oauthResult.clientId,
+          userId: oauthResult.user.id,
+          authMethod: 'oauth',
+          details: { error: 'User not found or blocked' },
+        });
+        return;
+      }
+
+      // OAuth token is valid - store the linked Strapi token, or act as the user
+      if (actsAsUser(strapi, oauthResult.user)) {
+        ctx.state.strapiToken = issueUserJwt(strapi, found!.record, oauthResult.expiresAt!);
+        ctx.state.user = found!.record;
+      } else {
+        ctx.state.strapiToken = oauthResult.strapiApiToken;
+      }
       ctx.state.authMethod = 'oauth';
+      ctx.state.oauthScopes = oauthResult.scopes;
+      ctx.state.mcpUser = found?.user ?? null;
+      ctx.state.mcpEndpoint = endpoint;
+      await audit.record(ctx, 'mcp_request', {
+        outcome: 'success',
+        clientId: oauthResult.clientId,
+        userId: oauthResult.user?.id,
+        authMethod: 'oauth',
+      });
       return next();
     }
 
-    // If not a valid OAuth token, assume it's a direct Strapi API token
+    // A known OAuth token that is expired, revoked or whose client is unusable
+    if (oauthResult.error) {
+      rejectInvalidToken(ctx, strapi, endpoint, oauthResult.error);
+      await audit.record(ctx, 'mcp_request', {
+        outcome: 'failure',
+        authMethod: 'oauth',
+        details: { error: oauthResult.error },
+      });
+      return;
+    }
+
+    // Otherwise the bearer value must be a valid Strapi API token, if the endpoint allows those
+    const allowDirectApiTokens =
+      endpoint.allowApiTokens ??
+      strapi
+        .plugin(PLUGIN_ID)
+        .config<PluginConfig['allowDirectApiTokens']>('allowDirectApiTokens');
+
+    const apiToken = allowDirectApiTokens ? await validateApiToken(token, strapi) : null;
+    if (!apiToken) {
+      rejectInvalidToken(ctx, strapi, endpoint, 'Invalid access token');
+      await audit.record(ctx, 'mcp_request', {
+        outcome: 'failure',
+        details: { error: 'Invalid access token' },
+      });
+      return;
+    }
+
+    const apiTokenRetryAfter = await rateLimit.hit('mcp', 'client', `api-token:${apiToken.id}`);
+    if (apiTokenRetryAfter) {
+      rejectTooManyRequests(ctx, apiTokenRetryAfter);
+      return;
+    }
+
     ctx.state.strapiToken = token;
     ctx.state.authMethod = 'api-token';
+    ctx.state.apiTokenId = apiToken.id;
+    ctx.state.mcpEndpoint = endpoint;
+    await audit.record(ctx, 'mcp_request', {
+      outcome: 'success',
+      authMethod: 'api-token',
+      details: { apiTokenId: apiToken.id },
+    });
     return next();
   };
 };
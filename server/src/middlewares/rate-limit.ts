@@ -0,0 +1,54 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Route middleware for the OAuth endpoints. Each request counts against the
+ * caller's IP address; once the limit of the route's scope is exceeded it is
+ * answered with 429 and Retry-After. The client limit is counted by the
+ * controllers once the client has authenticated, since a client_id named in
+ * the request proves nothing.
+ *
+ * Behind a reverse proxy, enable Strapi's `server.proxy` so the IP address
+ * is read from X-Forwarded-For.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { RateLimitScope } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { setTooManyRequests } from '../utils/rate-limit';
+import { renderErrorPage, sendHtml } from '../views';
+
+const rateLimitMiddleware = (
+  config: { scope: RateLimitScope },
+  { strapi }: { strapi: Core.Strapi }
+) => {
+  return async (ctx: any, next: () => Promise<void>) => {
+    const rateLimit = strapi.plugin(PLUGIN_ID).service('rate-limit');
+    const retryAfter = await rateLimit.hit(config.scope, 'ip', ctx.request.ip);
+
+    if (!retryAfter) {
+      return next();
+    }
+
+    strapi.log.debug(`[${PLUGIN_ID}] Rate limited ${ctx.path} ip=${ctx.request.ip}`);
+    setTooManyRequests(ctx, retryAfter);
+
+    // The authorization steps are browser pages, the other endpoints are called by clients
+    if (config.scope === 'authorize') {
+      sendHtml(
+        ctx,
+        renderErrorPage(
+          'Too many requests',
+          `Too many authorization attempts. Try again in ${retryAfter} seconds.`
+        )
+      );
+      return;
+    }
+
+    ctx.body = {
+      error: 'too_many_requests',
+      error_description: `Rate limit exceeded, retry after ${retryAfter} seconds`,
+    };
+  };
+};
+
+export default rateLimitMiddleware;
@@ -0,0 +1,25 @@
+/**
+ * Admin RBAC actions for the plugin's admin panel page and admin routes
+ */
+
+import { PLUGIN_ID } from './pluginId';
+
+export const ACTIONS = {
+  read: `plugin::${PLUGIN_ID}.read`,
+  manage: `plugin::${PLUGIN_ID}.manage`,
+} as const;
+
+export const PERMISSION_ACTIONS = [
+  {
+    section: 'plugins',
+    displayName: 'Read OAuth clients, tokens and grants',
+    uid: 'read',
+    pluginName: PLUGIN_ID,
+  },
+  {
+    section: 'plugins',
+    displayName: 'Manage OAuth clients and revoke tokens',
+    uid: 'manage',
+    pluginName: PLUGIN_ID,
+  },
+];
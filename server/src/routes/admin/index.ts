@@ -1 +1,146 @@
-export default [];
+import { ACTIONS } from '../../permissions';
+
+/**
+ * Require one of the plugin's admin RBAC actions
+ */
+const requirePermission = (action: string) => [
+  { name: 'admin::hasPermissions', config: { actions: [action] } },
+];
+
+export default [
+  // Clients the signed-in admin user has authorized (any admin user)
+  {
+    method: 'GET',
+    path: '/account/apps',
+    handler: 'account.apps',
+    config: {
+      policies: [],
+    },
+  },
+  // Revoke a client the signed-in admin user has authorized, with its tokens
+  {
+    method: 'POST',
+    path: '/account/apps/:clientId/revoke',
+    handler: 'account.revokeApp',
+    config: {
+      policies: [],
+    },
+  },
+  // List protected MCP endpoints
+  {
+    method: 'GET',
+    path: '/endpoints',
+    handler: 'endpoint.find',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // List audit events, newest first
+  {
+    method: 'GET',
+    path: '/audit-events',
+    handler: 'audit.find',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // Download audit events as CSV or JSON
+  {
+    method: 'GET',
+    path: '/audit-events/export',
+    handler: 'audit.export',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // Token cache size and hit/miss counters
+  {
+    method: 'GET',
+    path: '/token-cache/stats',
+    handler: 'tokenCache.stats',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // List OAuth clients
+  {
+    method: 'GET',
+    path: '/clients',
+    handler: 'client.find',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // Create an OAuth client (the generated secret is returned once)
+  {
+    method: 'POST',
+    path: '/clients',
+    handler: 'client.create',
+    config: {
+      policies: requirePermission(ACTIONS.manage),
+    },
+  },
+  // Get an OAuth client
+  {
+    method: 'GET',
+    path: '/clients/:id',
+    handler: 'client.findOne',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // Update or deactivate an OAuth client
+  {
+    method: 'PUT',
+    path: '/clients/:id',
+    handler: 'client.update',
+    config: {
+      policies: requirePermission(ACTIONS.manage),
+    },
+  },
+  // Generate a new client secret (returned once)
+  {
+    method: 'POST',
+    path: '/clients/:id/rotate-secret',
+    handler: 'client.rotateSecret',
+    config: {
+      policies: requirePermission(ACTIONS.manage),
+    },
+  },
+  // List a client's active tokens
+  {
+    method: 'GET',
+    path: '/clients/:id/tokens',
+    handler: 'client.tokens',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // Revoke all of a client's tokens
+  {
+    method: 'POST',
+    path: '/clients/:id/tokens/revoke',
+    handler: 'client.revokeTokens',
+    config: {
+      policies: requirePermission(ACTIONS.manage),
+    },
+  },
+  // List the consent grants given to a client
+  {
+    method: 'GET',
+    path: '/clients/:id/grants',
+    handler: 'client.grants',
+    config: {
+      policies: requirePermission(ACTIONS.read),
+    },
+  },
+  // Revoke a consent grant
+  {
+    method: 'POST',
+    path: '/grants/:id/revoke',
+    handler: 'client.revokeGrant',
+    config: {
+      policies: requirePermission(ACTIONS.manage),
+    },
+  },
+];
@@ -1,3 +1,12 @@
+import { PLUGIN_ID } from '../../pluginId';
+
+/**
+ * Count requests against the rate limits of a scope (see rateLimit config)
+ */
+const rateLimit = (scope: 'token' | 'authorize') => [
+  { name: `plugin::${PLUGIN_ID}.rate-limit`, config: { scope } },
+];
+
 export default [
   // OAuth 2.0 Authorization Server Metadata (RFC 8414)
   {
@@ -19,6 +28,36 @@ export default [
       policies: [],
     },
   },
+  // Protected Resource Metadata of a single MCP endpoint (RFC 9728 Section 3.1)
+  {
+    method: 'GET',
+    path: '/.well-known/oauth-protected-resource/:path(.*)',
+    handler: 'oauth.protectedResource',
+    config: {
+      auth: false,
+      policies: [],
+    },
+  },
+  // OpenID Provider Metadata (OpenID Connect Discovery 1.0)
+  {
+    method: 'GET',
+    path: '/.well-known/openid-configuration',
+    handler: 'oauth.discovery',
+    config: {
+      auth: false,
+      policies: [],
+    },
+  },
+  // JSON Web Key Set for id_tokens and JWT access tokens
+  {
+    method: 'GET',
+    path: '/.well-known/jwks.json',
+    handler: 'oauth.jwks',
+    config: {
+      auth: false,
+      policies: [],
+    },
+  },
   // OAuth 2.0 Authorization Endpoint
   {
     method: 'GET',
@@ -27,6 +66,73 @@ export default [
     config: {
       auth: false,
       policies: [],
+      middlewares: rateLimit('authorize'),
+    },
+  },
+  // Resource owner login for the authorization flow
+  {
+    method: 'POST',
+    path: '/oauth/authorize/login',
+    handler: 'consent.login',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('authorize'),
+    },
+  },
+  // Resource owner consent decision (approve / deny)
+  {
+    method: 'POST',
+    path: '/oauth/authorize/consent',
+    handler: 'consent.consent',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('authorize'),
+    },
+  },
+  // Return from the external OpenID Connect provider (see federation config)
+  {
+    method: 'GET',
+    path: '/oauth/federation/callback',
+    handler: 'federation.callback',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('authorize'),
+    },
+  },
+  // Device verification page where the user enters the code shown on the device (RFC 8628)
+  {
+    method: 'GET',
+    path: '/oauth/device',
+    handler: 'device.verify',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('authorize'),
+    },
+  },
+  // User code entry, followed by the login and consent steps
+  {
+    method: 'POST',
+    path: '/oauth/device',
+    handler: 'device.submit',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('authorize'),
+    },
+  },
+  // Device Authorization Endpoint (RFC 8628)
+  {
+    method: 'POST',
+    path: '/oauth/device_authorization',
+    handler: 'oauth.deviceAuthorization',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
     },
   },
   // OAuth 2.0 Token Endpoint
@@ -37,6 +143,83 @@ export default [
     config: {
       auth: false,
       policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  // OAuth 2.0 Token Revocation (RFC 7009)
+  {
+    method: 'POST',
+    path: '/oauth/revoke',
+    handler: 'oauth.revoke',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  // OAuth 2.0 Token Introspection (RFC 7662)
+  {
+    method: 'POST',
+    path: '/oauth/introspect',
+    handler: 'oauth.introspect',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  // OpenID Connect UserInfo Endpoint
+  {
+    method: 'GET',
+    path: '/oauth/userinfo',
+    handler: 'oauth.userinfo',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  {
+    method: 'POST',
+    path: '/oauth/userinfo',
+    handler: 'oauth.userinfo',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  // Clients the signed-in Users & Permissions user has authorized (JWT checked by the handler)
+  {
+    method: 'GET',
+    path: '/account/apps',
+    handler: 'account.apps',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  // Revoke a client the signed-in user has authorized, with its tokens
+  {
+    method: 'POST',
+    path: '/account/apps/:clientId/revoke',
+    handler: 'account.revokeApp',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
+    },
+  },
+  // OAuth 2.0 Dynamic Client Registration (RFC 7591)
+  {
+    method: 'POST',
+    path: '/oauth/register',
+    handler: 'registration.register',
+    config: {
+      auth: false,
+      policies: [],
+      middlewares: rateLimit('token'),
     },
   },
 ];
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createContext, createStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+
+const AUDIT_UID = `plugin::${PLUGIN_ID}.mcp-oauth-audit-event`;
+
+describe('audit record', () => {
+  it('skips MCP requests by default', async () => {
+    const strapi = createStrapi();
+
+    await strapi.plugin(PLUGIN_ID).service('audit').record(createContext(), 'mcp_request', {
+      outcome: 'success',
+    });
+
+    expect(strapi.rows(AUDIT_UID)).toHaveLength(0);
+  });
+
+  it('records MCP requests in the background when enabled', async () => {
+    const strapi = createStrapi({ config: { audit: { mcpRequests: true } } });
+    let finishWrite = () => {};
+    const query = strapi.db.query;
+    strapi.db.query = ((uid: string) => {
+      const table = query(uid);
+      return {
+        ...table,
+        create: async (params: any) => {
+          await new Promise<void>((resolve) => (finishWrite = resolve));
+          return table.create(params);
+        },
+      };
+    }) as any;
+
+    await strapi.plugin(PLUGIN_ID).service('audit').record(createContext(), 'mcp_request', {
+      outcome: 'success',
+    });
+    expect(strapi.rows(AUDIT_UID)).toHaveLength(0);
+
+    finishWrite();
+    await vi.waitFor(() => expect(strapi.rows(AUDIT_UID)).toHaveLength(1));
+  });
+
+  it('waits for OAuth events to be written', async () => {
+    const strapi = createStrapi();
+
+    await strapi.plugin(PLUGIN_ID).service('audit').record(createContext(), 'consent_denied', {
+      outcome: 'failure',
+      clientId: 'client',
+    });
+
+    expect(strapi.rows(AUDIT_UID)).toMatchObject([
+      { event: 'consent_denied', outcome: 'failure', clientId: 'client' },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import type { StorageAdapter } from '../../storage';
+
+const HOUR = 60 * 60 * 1000;
+
+let strapi: TestStrapi;
+let storage: StorageAdapter;
+
+const inHours = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+
+function saveCode(code: string, expiresAt: string) {
+  return storage.saveCode({
+    code,
+    clientId: 'client',
+    redirectUri: 'https://client.example/callback',
+    userId: '1',
+    userType: 'admin',
+    scope: 'mcp',
+    resource: null,
+    codeChallenge: null,
+    codeChallengeMethod: null,
+    nonce: null,
+    expiresAt,
+    used: false,
+  });
+}
+
+function saveToken(accessToken: string, refreshExpiresAt: string) {
+  return storage.saveToken({
+    accessToken,
+    refreshToken: `refresh-${accessToken}`,
+    clientId: 'client',
+    userId: '1',
+    userType: 'admin',
+    scope: 'mcp',
+    resource: null,
+    grantType: 'authorization_code',
+    familyId: null,
+    jti: null,
+    expiresAt: inHours(1),
+    refreshExpiresAt,
+  });
+}
+
+beforeEach(() => {
+  strapi = createStrapi({ config: { cleanup: { retention: 60 * 60 } } });
+  storage = strapi.plugin(PLUGIN_ID).service('storage').get();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('cleanup', () => {
+  it('removes expired codes and tokens right away', async () => {
+    await saveCode('expired', inHours(-1));
+    await saveCode('valid', inHours(24));
+    await saveToken('expired', inHours(-1));
+    await saveToken('valid', inHours(24));
+
+    const result = await strapi.plugin(PLUGIN_ID).service('oauth').cleanupExpired();
+
+    expect(result).toMatchObject({ codes: 1, tokens: 1 });
+    expect(await storage.findCode('valid')).not.toBeNull();
+    expect(await storage.findTokenByAccessToken('valid')).not.toBeNull();
+  });
+
+  it('keeps used codes and revoked tokens for the retention period', async () => {
+    await saveCode('used', inHours(24));
+    await storage.useCode('used');
+    const token = await saveToken('revoked', inHours(24));
+    await storage.revokeToken(token.id);
+    const oauth = strapi.plugin(PLUGIN_ID).service('oauth');
+
+    expect(await oauth.cleanupExpired()).toMatchObject({ codes: 0, tokens: 0 });
+
+    vi.useFakeTimers({ now: Date.now() + 2 * HOUR, toFake: ['Date'] });
+    expect(await oauth.cleanupExpired()).toMatchObject({ codes: 1, tokens: 1 });
+    expect(await storage.findTokenByRefreshToken('refresh-revoked')).toBeNull();
+  });
+
+  it('logs a summary of each run', async () => {
+    await saveCode('expired', inHours(-1));
+    const info = vi.spyOn(strapi.log, 'info');
+
+    await strapi.plugin(PLUGIN_ID).service('cleanup').run();
+
+    expect(info).toHaveBeenCalledWith(
+      expect.stringMatching(/Cleanup removed 1 code\(s\), 0 token\(s\)/)
+    );
+  });
+
+  it('schedules a cron task unless disabled', () => {
+    const add = vi.spyOn(strapi.cron, 'add');
+    strapi.plugin(PLUGIN_ID).service('cleanup').schedule();
+    expect(add).toHaveBeenCalledTimes(1);
+
+    strapi = createStrapi({ config: { cleanup: { enabled: false } } });
+    const disabledAdd = vi.spyOn(strapi.cron, 'add');
+    strapi.plugin(PLUGIN_ID).service('cleanup').schedule();
+    expect(disabledAdd).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CLIENT_UID, createClient, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+
+let strapi: TestStrapi;
+let apiTokens: Map<number, any>;
+
+const credential = () => strapi.plugin(PLUGIN_ID).service('credential');
+const storedClient = (id: number) => strapi.rows(CLIENT_UID).find((client) => client.id === id);
+
+/**
+ * Strapi's admin::api-token service over a map of token records
+ */
+function createApiTokenService() {
+  return {
+    hash: (accessKey: string) => `hashed:${accessKey}`,
+    getById: async (id: number) => apiTokens.get(id) ?? null,
+    exists: async ({ id, accessKey }: any) => apiTokens.get(id)?.hashedKey === accessKey,
+    create: vi.fn(async (attributes: any) => {
+      const apiToken = { ...attributes, id: 42, accessKey: 'created-key' };
+      apiTokens.set(apiToken.id, apiToken);
+      return apiToken;
+    }),
+    revoke: vi.fn(async (id: number) => apiTokens.delete(id)),
+  };
+}
+
+beforeEach(() => {
+  apiTokens = new Map();
+  strapi = createStrapi({ services: { 'admin::api-token': createApiTokenService() } });
+});
+
+describe('credential resolution', () => {
+  it('uses the pasted token of clients without a linked record', async () => {
+    const client = await createClient(strapi, { strapiApiToken: 'pasted-token' });
+
+    expect(await credential().resolve(client)).toBe('pasted-token');
+  });
+
+  it('uses the access key of the linked token', async () => {
+    apiTokens.set(7, { id: 7, name: 'MCP', accessKey: 'linked-key' });
+    const client = await createClient(strapi, { apiTokenId: 7, strapiApiToken: null });
+
+    expect(await credential().resolve(client)).toBe('linked-key');
+  });
+
+  it('uses the stored copy while the linked token has not been regenerated', async () => {
+    apiTokens.set(7, { id: 7, name: 'MCP', hashedKey: 'hashed:stored-key' });
+    const client = await createClient(strapi, { apiTokenId: 7, strapiApiToken: 'stored-key' });
+
+    expect(await credential().resolve(client)).toBe('stored-key');
+    expect(storedClient(client.id).active).toBe(true);
+  });
+
+  it('deactivates the client when the linked token was regenerated', async () => {
+    apiTokens.set(7, { id: 7, name: 'MCP', hashedKey: 'hashed:new-key' });
+    const client = await createClient(strapi, { apiTokenId: 7, strapiApiToken: 'stored-key' });
+
+    expect(await credential().resolve(client)).toBeNull();
+    expect(storedClient(client.id).active).toBe(false);
+  });
+
+  it('deactivates the client when the linked token was deleted or has expired', async () => {
+    apiTokens.set(8, { id: 8, name: 'Expired', accessKey: 'key', expiresAt: '2000-01-01' });
+    const deleted = await createClient(strapi, { apiTokenId: 7 });
+    const expired = await createClient(strapi, { apiTokenId: 8 });
+
+    expect(await credential().resolve(deleted)).toBeNull();
+    expect(await credential().resolve(expired)).toBeNull();
+    expect(storedClient(deleted.id).active).toBe(false);
+    expect(storedClient(expired.id).active).toBe(false);
+  });
+
+  it('deactivates every client linked to a deleted token', async () => {
+    const linked = await createClient(strapi, { apiTokenId: 7 });
+    const other = await createClient(strapi, { apiTokenId: 8 });
+
+    await credential().handleApiTokenDeleted(7);
+
+    expect(storedClient(linked.id).active).toBe(false);
+    expect(storedClient(other.id).active).toBe(true);
+  });
+});
+
+describe('plugin-owned API tokens', () => {
+  it('creates a token for the client and links it', async () => {
+    const client = await createClient(strapi, { strapiApiToken: null });
+
+    await credential().provision(client);
+
+    expect(strapi.service('admin::api-token').create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'full-access',
+        name: expect.stringContaining(client.clientId),
+      })
+    );
+    expect(storedClient(client.id)).toMatchObject({
+      apiTokenId: 42,
+      ownsApiToken: true,
+      strapiApiToken: 'created-key',
+    });
+  });
+
+  it('only deletes tokens the client owns', async () => {
+    const owner = await createClient(strapi, { apiTokenId: 7, ownsApiToken: true });
+    const linked = await createClient(strapi, { apiTokenId: 8, ownsApiToken: false });
+
+    await credential().release(owner);
+    await credential().release(linked);
+
+    expect(strapi.service('admin::api-token').revoke).toHaveBeenCalledTimes(1);
+    expect(strapi.service('admin::api-token').revoke).toHaveBeenCalledWith(7);
+  });
+});
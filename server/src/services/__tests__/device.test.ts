@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+
+const CLIENT = { clientId: 'device-client' };
+const USER = { id: '1', type: 'admin' as const, email: 'ada@example.com' };
+
+describe.each(['database', 'memory'])('device authorizations with the %s adapter', (adapter) => {
+  let strapi: TestStrapi;
+
+  const device = () => strapi.plugin(PLUGIN_ID).service('device');
+
+  beforeEach(() => {
+    strapi = createStrapi({ config: { storage: { adapter } } });
+  });
+
+  it('finds a pending authorization by its user code', async () => {
+    const { userCode } = await device().create(CLIENT, { scope: 'mcp', resource: null });
+
+    const record = await device().findPending(userCode.toLowerCase());
+
+    expect(record).toMatchObject({ clientId: CLIENT.clientId, scope: 'mcp', status: 'pending' });
+    expect(await device().findPending('BCDF-GHJK')).toBeNull();
+  });
+
+  it('redeems an approved code once', async () => {
+    const { deviceCode, userCode } = await device().create(CLIENT, {
+      scope: 'mcp',
+      resource: null,
+    });
+    const { id } = await device().findPending(userCode);
+
+    expect(await device().poll(deviceCode, CLIENT.clientId)).toMatchObject({
+      error: 'authorization_pending',
+    });
+    expect(await device().decide(id, 'approved', USER)).toBe(true);
+    expect(await device().decide(id, 'denied', USER)).toBe(false);
+    expect(await device().findPending(userCode)).toBeNull();
+
+    const { record } = await device().poll(deviceCode, CLIENT.clientId);
+    expect(record).toMatchObject({ userId: USER.id, userType: USER.type, scope: 'mcp' });
+    expect(await device().poll(deviceCode, CLIENT.clientId)).toMatchObject({
+      error: 'invalid_grant',
+    });
+  });
+
+  it('reports denials and codes of other clients', async () => {
+    const { deviceCode, userCode } = await device().create(CLIENT, { scope: null, resource: null });
+    const { id } = await device().findPending(userCode);
+    await device().decide(id, 'denied', USER);
+
+    expect(await device().poll(deviceCode, 'other-client')).toMatchObject({
+      error: 'invalid_grant',
+    });
+    expect(await device().poll(deviceCode, CLIENT.clientId)).toMatchObject({
+      error: 'access_denied',
+    });
+  });
+
+  it('slows down devices polling faster than their interval', async () => {
+    const { deviceCode } = await device().create(CLIENT, { scope: null, resource: null });
+
+    await device().poll(deviceCode, CLIENT.clientId);
+
+    expect(await device().poll(deviceCode, CLIENT.clientId)).toMatchObject({ error: 'slow_down' });
+  });
+
+  it('purges expired and redeemed authorizations', async () => {
+    await device().create(CLIENT, { scope: null, resource: null });
+    const redeemed = await device().create(CLIENT, { scope: null, resource: null });
+    const { id } = await device().findPending(redeemed.userCode);
+    await device().decide(id, 'approved', USER);
+    await device().poll(redeemed.deviceCode, CLIENT.clientId);
+
+    vi.useFakeTimers({ now: Date.now() + 5 * 60 * 1000 });
+    try {
+      const later = await device().create(CLIENT, { scope: null, resource: null });
+      vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+
+      const { deviceCodes } = await strapi.plugin(PLUGIN_ID).service('oauth').cleanupExpired();
+
+      expect(deviceCodes).toBe(2);
+      expect(await device().findPending(later.userCode)).not.toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CLIENT_UID, createClient, createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import { encrypt, getKeyId, getValueKeyId } from '../../utils/encryption';
+
+const OLD_KEY = 'old-encryption-key';
+const KEY = 'current-encryption-key';
+
+let strapi: TestStrapi;
+
+const encryption = () => strapi.plugin(PLUGIN_ID).service('encryption');
+const storedToken = (clientId: string) =>
+  strapi.rows(CLIENT_UID).find((client) => client.clientId === clientId).strapiApiToken;
+
+beforeEach(() => {
+  strapi = createStrapi({ config: { encryption: { key: KEY, previousKeys: [OLD_KEY] } } });
+});
+
+describe('encryption service', () => {
+  it('decrypts what it encrypts and passes plaintext through', () => {
+    const encrypted = encryption().encrypt('strapi-api-token');
+
+    expect(encrypted).not.toContain('strapi-api-token');
+    expect(encryption().decrypt(encrypted)).toBe('strapi-api-token');
+    expect(encryption().decrypt('plaintext-token')).toBe('plaintext-token');
+  });
+
+  it('encrypts plaintext and previous-key tokens under the current key', async () => {
+    const plaintext = await createClient(strapi, { strapiApiToken: 'plaintext-token' });
+    const previous = await createClient(strapi, {
+      strapiApiToken: encrypt('previous-token', OLD_KEY),
+    });
+    const current = await createClient(strapi, {
+      strapiApiToken: encrypt('current-token', KEY),
+    });
+    const unchanged = storedToken(current.clientId);
+
+    expect(await encryption().rotate()).toBe(2);
+
+    for (const client of [plaintext, previous]) {
+      expect(getValueKeyId(storedToken(client.clientId))).toBe(getKeyId(KEY));
+    }
+    expect(encryption().decrypt(storedToken(plaintext.clientId))).toBe('plaintext-token');
+    expect(encryption().decrypt(storedToken(previous.clientId))).toBe('previous-token');
+    expect(storedToken(current.clientId)).toBe(unchanged);
+  });
+
+  it('refuses to start when stored tokens were encrypted under an unknown key', async () => {
+    await createClient(strapi, { strapiApiToken: encrypt('token', 'forgotten-key') });
+
+    await expect(strapi.plugin(PLUGIN_ID).service('migration').run()).rejects.toThrow(
+      /1 OAuth client\(s\) have an encrypted strapiApiToken/
+    );
+  });
+
+  it('refuses to start when the key was removed', async () => {
+    await createClient(strapi, { strapiApiToken: encrypt('token', KEY) });
+    strapi = createStrapi({ data: { [CLIENT_UID]: strapi.rows(CLIENT_UID) } });
+
+    await expect(encryption().rotate()).rejects.toThrow(
+      /key used to encrypt them is not configured/
+    );
+  });
+});
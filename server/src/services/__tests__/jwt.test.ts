@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import { generateSigningKeyPair, signJwt } from '../../utils/jwt';
+import jwtService from '../jwt';
+
+const EXPECTED = {
+  issuer: 'https://strapi.example/api/plugin',
+  audiences: ['https://strapi.example/api'],
+};
+
+let strapi: TestStrapi;
+
+const storedKids = async () => {
+  const stored: any = await strapi
+    .store({ type: 'plugin', name: PLUGIN_ID, key: 'signing-keys' })
+    .get();
+  return (stored?.keys ?? []).map((key: any) => key.kid);
+};
+
+beforeEach(() => {
+  strapi = createStrapi();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('JWT signing keys', () => {
+  it('keeps the keys of instances creating them at the same time', async () => {
+    const instances = [jwtService({ strapi }), jwtService({ strapi }), jwtService({ strapi })];
+
+    const kids = await Promise.all(instances.map((instance) => instance.rotateKeys()));
+
+    expect((await storedKids()).sort()).toEqual([...kids].sort());
+  });
+
+  it('verifies tokens signed by another instance', async () => {
+    const other = jwtService({ strapi });
+    const jwt = strapi.plugin(PLUGIN_ID).service('jwt');
+    await jwt.maintainKeys();
+    await jwt.getJwks();
+
+    vi.useFakeTimers({ now: Date.now() + 5 * 1000 });
+    await other.rotateKeys();
+    const token = await other.sign(
+      {
+        iss: EXPECTED.issuer,
+        aud: EXPECTED.audiences[0],
+        sub: '1',
+        client_id: 'client',
+        jti: 'jti',
+      },
+      60
+    );
+
+    expect(await jwt.verify(token, EXPECTED)).toMatchObject({ valid: true });
+  });
+
+  it('drops expired keys without dropping keys another instance added', async () => {
+    const jwt = strapi.plugin(PLUGIN_ID).service('jwt');
+    const retired = await jwt.rotateKeys();
+    const current = await jwt.rotateKeys();
+
+    vi.useFakeTimers({ now: Date.now() + 2 * 24 * 60 * 60 * 1000 });
+    const added = await jwtService({ strapi }).rotateKeys();
+    await jwt.maintainKeys();
+
+    const kids = await storedKids();
+    expect(kids).toContain(added);
+    expect(kids).toContain(current);
+    expect(kids).not.toContain(retired);
+  });
+
+  it('does not reload the keys for every token with an unknown key id', async () => {
+    const jwt = strapi.plugin(PLUGIN_ID).service('jwt');
+    await jwt.maintainKeys();
+    const { privateKey } = generateSigningKeyPair('RS256');
+    const forged = signJwt(
+      { iss: EXPECTED.issuer, aud: EXPECTED.audiences[0], exp: Math.floor(Date.now() / 1000) + 60 },
+      { alg: 'RS256', typ: 'at+jwt', kid: 'unknown' },
+      privateKey
+    );
+    const get = vi.fn(strapi.store({ type: 'plugin', name: PLUGIN_ID, key: 'signing-keys' }).get);
+    const store = strapi.store;
+    strapi.store = ((params: any) => ({ ...store(params), get })) as any;
+
+    vi.useFakeTimers({ now: Date.now() + 60 * 1000 });
+    for (let i = 0; i < 5; i++) {
+      expect(await jwt.verify(forged, EXPECTED)).toMatchObject({ valid: false });
+    }
+    expect(get).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    await jwt.verify(forged, EXPECTED);
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
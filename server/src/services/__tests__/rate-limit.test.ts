@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+
+const CLIENT_ID = 'client';
+const ATTACKER_IP = '203.0.113.1';
+const CLIENT_IP = '198.51.100.7';
+
+let strapi: TestStrapi;
+
+const rateLimit = () => strapi.plugin(PLUGIN_ID).service('rate-limit');
+
+async function fail(times: number, ip: string) {
+  for (let i = 0; i < times; i++) {
+    await rateLimit().recordAuthFailure(CLIENT_ID, ip);
+  }
+}
+
+beforeEach(() => {
+  strapi = createStrapi({
+    config: { rateLimit: { lockout: { maxFailures: 3, maxClientFailures: 5 } } },
+  });
+});
+
+describe('client lockout', () => {
+  it('locks the client on the failing IP address only', async () => {
+    await fail(3, ATTACKER_IP);
+
+    expect(await rateLimit().getLockout(CLIENT_ID, ATTACKER_IP)).toBeGreaterThan(0);
+    expect(await rateLimit().getLockout(CLIENT_ID, CLIENT_IP)).toBeNull();
+  });
+
+  it('forgets failures from an address after a success from it', async () => {
+    await fail(2, CLIENT_IP);
+    await rateLimit().clearAuthFailures(CLIENT_ID, CLIENT_IP);
+    await fail(2, CLIENT_IP);
+
+    expect(await rateLimit().getLockout(CLIENT_ID, CLIENT_IP)).toBeNull();
+  });
+
+  it('locks the client everywhere past the client ceiling', async () => {
+    for (const ip of ['10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.0.4', '10.0.0.5']) {
+      await fail(1, ip);
+    }
+
+    expect(await rateLimit().getLockout(CLIENT_ID, CLIENT_IP)).toBeGreaterThan(0);
+  });
+
+  it('does not lock the client everywhere by default', async () => {
+    strapi = createStrapi();
+
+    for (let i = 0; i < 50; i++) {
+      await fail(5, `10.0.${i}.1`);
+    }
+
+    expect(await rateLimit().getLockout(CLIENT_ID, CLIENT_IP)).toBeNull();
+  });
+
+  it('can be disabled', async () => {
+    strapi = createStrapi({
+      config: { rateLimit: { lockout: { maxFailures: null, maxClientFailures: null } } },
+    });
+
+    await fail(20, ATTACKER_IP);
+
+    expect(await rateLimit().getLockout(CLIENT_ID, ATTACKER_IP)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createStrapi, type TestStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+
+let strapi: TestStrapi;
+
+const registry = () => strapi.plugin(PLUGIN_ID).service('registry');
+
+beforeEach(() => {
+  strapi = createStrapi();
+});
+
+describe('registry', () => {
+  it('resolves a path to the longest declared endpoint that prefixes it', () => {
+    registry().register({ pluginId: 'outer', path: '/api/tools/' });
+    registry().register({ pluginId: 'inner', path: '/api/tools/mcp' });
+
+    expect(registry().resolve('/api/tools/mcp/sse').endpoint.pluginId).toBe('inner');
+    expect(registry().resolve('/api/tools/other').endpoint).toMatchObject({
+      pluginId: 'outer',
+      path: '/api/tools',
+      declared: true,
+    });
+    expect(registry().resolve('/api/toolsmith')).toBeNull();
+  });
+
+  it('falls back to mcpEndpointPattern for undeclared endpoints', () => {
+    expect(registry().resolve('/api/my-plugin/mcp/sse')).toEqual({
+      endpoint: expect.objectContaining({
+        pluginId: 'my-plugin',
+        path: '/api/my-plugin/mcp',
+        declared: false,
+      }),
+      isPublic: false,
+    });
+    expect(registry().resolve('/api/articles')).toBeNull();
+  });
+
+  it('marks public sub-paths of an endpoint', () => {
+    registry().register({
+      pluginId: 'my-plugin',
+      path: '/api/my-plugin/mcp',
+      publicPaths: ['/health/'],
+    });
+
+    expect(registry().resolve('/api/my-plugin/mcp/health').isPublic).toBe(true);
+    expect(registry().resolve('/api/my-plugin/mcp/health/live').isPublic).toBe(true);
+    expect(registry().resolve('/api/my-plugin/mcp/healthz').isPublic).toBe(false);
+    expect(registry().resolve('/api/my-plugin/mcp').isPublic).toBe(false);
+  });
+
+  it('rejects invalid declarations and paths taken by another plugin', () => {
+    expect(() =>
+      registry().register({ pluginId: 'my-plugin', path: 'mcp', publicPaths: ['health'] })
+    ).toThrow(
+      'Invalid MCP endpoint declaration: path must start with /, publicPaths must be a list of paths starting with /'
+    );
+
+    registry().register({ pluginId: 'my-plugin', path: '/api/my-plugin/mcp' });
+    expect(() => registry().register({ pluginId: 'other', path: '/api/my-plugin/mcp/' })).toThrow(
+      'is already registered by my-plugin'
+    );
+  });
+
+  it('adds declared scopes to the scopes config', () => {
+    registry().register({
+      pluginId: 'transcripts',
+      path: '/api/transcripts/mcp',
+      name: 'Transcripts',
+      scopes: ['mcp', 'transcripts'],
+    });
+
+    expect(registry().getScopesConfig().transcripts).toEqual({
+      description: 'Access Transcripts',
+      paths: ['/api/transcripts/mcp'],
+    });
+    expect(registry().list()[0].scopes).toEqual(['transcripts']);
+  });
+});
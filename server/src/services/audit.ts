@@ -0,0 +1,141 @@
+/**
+ * Audit Service
+ *
+ * Records OAuth and MCP authentication events in mcp-oauth-audit-event.
+ * Recording never fails the request: errors are logged and swallowed.
+ * mcp_request events are written in the background so MCP requests don't
+ * wait on the insert.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { AuditConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+export const AUDIT_EVENTS = [
+  'code_issued',
+  'consent_denied',
+  'token_issued',
+  'token_refreshed',
+  'token_revoked',
+  'client_auth_failed',
+  'refresh_token_reuse',
+  'mcp_request',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENTS)[number];
+
+export interface AuditEventInput {
+  outcome: 'success' | 'failure';
+  clientId?: string | null;
+  userId?: string | null;
+  authMethod?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+  event?: string;
+  outcome?: string;
+  clientId?: string;
+  ip?: string;
+  /** ISO dates, inclusive */
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Build a query from admin filters, ignoring empty values
+ */
+function buildWhere(filters: AuditEventFilters) {
+  const where: Record<string, unknown> = {};
+
+  for (const key of ['event', 'outcome', 'clientId', 'ip'] as const) {
+    if (filters[key]) {
+      where[key] = filters[key];
+    }
+  }
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    };
+  }
+
+  return where;
+}
+
+const auditService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Record an event for the current request
+   */
+  async record(ctx: any, event: AuditEventType, input: AuditEventInput) {
+    const config = strapi.plugin(PLUGIN_ID).config<AuditConfig>('audit');
+    if (!config.enabled || (event === 'mcp_request' && !config.mcpRequests)) {
+      return;
+    }
+
+    const write = strapi.db
+      .query(`${PLUGIN_UID}.mcp-oauth-audit-event`)
+      .create({
+        data: {
+          event,
+          outcome: input.outcome,
+          clientId: input.clientId ?? null,
+          userId: input.userId ?? null,
+          authMethod: input.authMethod ?? null,
+          ip: ctx?.request?.ip ?? null,
+          userAgent: ctx?.request?.headers?.['user-agent'] ?? null,
+          path: ctx?.path ?? null,
+          details: input.details ?? null,
+        },
+      })
+      .catch((error: unknown) => {
+        strapi.log.error(`[${PLUGIN_ID}] Failed to record audit event ${event}`, { error });
+      });
+
+    if (event !== 'mcp_request') {
+      await write;
+    }
+  },
+
+  /**
+   * One page of events, newest first
+   */
+  async list(filters: AuditEventFilters, { page, pageSize }: { page: number; pageSize: number }) {
+    return strapi.db.query(`${PLUGIN_UID}.mcp-oauth-audit-event`).findPage({
+      where: buildWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      page,
+      pageSize,
+    });
+  },
+
+  /**
+   * Events for an export, newest first, up to limit
+   */
+  async export(filters: AuditEventFilters, limit: number) {
+    return strapi.db.query(`${PLUGIN_UID}.mcp-oauth-audit-event`).findMany({
+      where: buildWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      limit,
+    });
+  },
+
+  /**
+   * Delete events older than the retention period. Returns the number deleted.
+   */
+  async purge(): Promise<number> {
+    const { retention } = strapi.plugin(PLUGIN_ID).config<AuditConfig>('audit');
+    const cutoff = new Date(Date.now() - retention * 1000).toISOString();
+
+    const { count } = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-audit-event`).deleteMany({
+      where: { createdAt: { $lt: cutoff } },
+    });
+
+    return count;
+  },
+});
+
+export default auditService;
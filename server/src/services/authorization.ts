@@ -0,0 +1,401 @@
+/**
+ * Authorization Service
+ *
+ * Authenticates resource owners, records their consent and issues
+ * authorization codes for the interactive authorize flow.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { AuthorizationConfig, FederationConfig, TokensConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import type { StorageAdapter } from '../storage';
+import { generateToken, hashToken } from '../utils/hash';
+import { coversScopes, formatScope, getGrantedScopes, parseScope } from '../utils/scopes';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+export type UserType = 'admin' | 'users-permissions';
+
+export interface AuthorizedUser {
+  id: string;
+  type: UserType;
+  email: string;
+  username?: string | null;
+}
+
+/**
+ * The user a code or token was issued to, as stored on it
+ */
+export type TokenUser = Pick<AuthorizedUser, 'id' | 'type'>;
+
+/**
+ * The user behind an MCP request, exposed as ctx.state.mcpUser
+ */
+export interface McpUser extends TokenUser {
+  email: string;
+  username: string | null;
+  /** Role names (admin users) or the role type (Users & Permissions) */
+  roles: string[];
+}
+
+/**
+ * Fields never exposed from user records
+ */
+const PRIVATE_USER_FIELDS = [
+  'password',
+  'resetPasswordToken',
+  'confirmationToken',
+  'registrationToken',
+];
+
+/**
+ * A validated request to GET /oauth/authorize, carried through login and consent
+ */
+export interface AuthorizationRequest {
+  clientId: string;
+  /** Unset for device authorization requests */
+  redirectUri?: string;
+  state?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  scope?: string;
+  /** MCP endpoint the client asked access to (RFC 8707) */
+  resource?: string;
+  /** OpenID Connect nonce, echoed in the id_token */
+  nonce?: string;
+  /**
+   * Device authorization the user is approving (RFC 8628). The decision is
+   * stored for the device to poll instead of being sent to a redirect URI.
+   */
+  device?: { id: string; userCode: string };
+}
+
+/**
+ * Build a redirect URL back to the client with the given query parameters
+ */
+export function buildClientRedirect(
+  redirectUri: string,
+  params: Record<string, string | undefined>
+): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * The configured storage adapter for codes, tokens and grants
+ */
+function getStorage(strapi: Core.Strapi): StorageAdapter {
+  return strapi.plugin(PLUGIN_ID).service('storage').get();
+}
+
+const authorizationService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Resolve the configured user source
+   */
+  getUserSource(): UserType {
+    return strapi.plugin(PLUGIN_ID).config<AuthorizationConfig>('authorization').userSource;
+  },
+
+  /**
+   * Check email/password credentials against the configured user source
+   */
+  async authenticateUser(email: unknown, password: unknown): Promise<AuthorizedUser | null> {
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return null;
+    }
+
+    const { userSource } = strapi.plugin(PLUGIN_ID).config<AuthorizationConfig>('authorization');
+
+    if (userSource === 'admin') {
+      const [, adminUser] = await strapi
+        .service('admin::auth')
+        .checkCredentials({ email: email.toLowerCase(), password });
+
+      if (!adminUser) {
+        return null;
+      }
+
+      return { id: String(adminUser.id), type: 'admin', email: adminUser.email };
+    }
+
+    const usersPermissions = strapi.plugin('users-permissions');
+    if (!usersPermissions) {
+      throw new Error(
+        `[${PLUGIN_ID}] authorization.userSource is 'users-permissions' but the plugin is not installed`
+      );
+    }
+
+    const user = await strapi.db.query('plugin::users-permissions.user').findOne({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (!user?.password || user.blocked) {
+      return null;
+    }
+
+    const validPassword = await usersPermissions
+      .service('user')
+      .validatePassword(password, user.password);
+
+    if (!validPassword) {
+      return null;
+    }
+
+    const advancedSettings: any = await strapi
+      .store({ type: 'plugin', name: 'users-permissions', key: 'advanced' })
+      .get();
+
+    if (advancedSettings?.email_confirmation && user.confirmed !== true) {
+      return null;
+    }
+
+    return {
+      id: String(user.id),
+      type: 'users-permissions',
+      email: user.email,
+      username: user.username,
+    };
+  },
+
+  /**
+   * Match a user signed in at the federated identity provider to the
+   * configured user source by email. Users & Permissions users are created
+   * on first sign-in when federation.createUsers is on.
+   */
+  async findFederatedUser(profile: {
+    email: string;
+    username?: string;
+  }): Promise<AuthorizedUser | null> {
+    const email = profile.email.toLowerCase();
+    const { userSource } = strapi.plugin(PLUGIN_ID).config<AuthorizationConfig>('authorization');
+
+    if (userSource === 'admin') {
+      const adminUser = await strapi.db.query('admin::user').findOne({ where: { email } });
+      if (!adminUser?.isActive || adminUser.blocked) {
+        return null;
+      }
+      return { id: String(adminUser.id), type: 'admin', email: adminUser.email };
+    }
+
+    if (!strapi.plugin('users-permissions')) {
+      throw new Error(
+        `[${PLUGIN_ID}] authorization.userSource is 'users-permissions' but the plugin is not installed`
+      );
+    }
+
+    let user = await strapi.db.query('plugin::users-permissions.user').findOne({
+      where: { email },
+    });
+
+    if (!user) {
+      const { createUsers } = strapi.plugin(PLUGIN_ID).config<FederationConfig>('federation');
+      if (!createUsers) {
+        return null;
+      }
+
+      const advancedSettings: any = await strapi
+        .store({ type: 'plugin', name: 'users-permissions', key: 'advanced' })
+        .get();
+      const defaultRole = await strapi.db.query('plugin::users-permissions.role').findOne({
+        where: { type: advancedSettings?.default_role ?? 'authenticated' },
+      });
+
+      const usernameTaken =
+        !profile.username ||
+        (await strapi.db.query('plugin::users-permissions.user').count({
+          where: { username: profile.username },
+        })) > 0;
+
+      user = await strapi.db.query('plugin::users-permissions.user').create({
+        data: {
+          email,
+          username: usernameTaken ? email : profile.username,
+          provider: 'oidc',
+          confirmed: true,
+          blocked: false,
+          role: defaultRole?.id,
+        },
+      });
+      strapi.log.info(`[${PLUGIN_ID}] Created user ${user.id} for federated sign-in`);
+    }
+
+    if (user.blocked) {
+      return null;
+    }
+
+    return {
+      id: String(user.id),
+      type: 'users-permissions',
+      email: user.email,
+      username: user.username,
+    };
+  },
+
+  /**
+   * Find an active consent grant for the client and user that covers the requested scope
+   */
+  async findGrant(clientId: string, user: AuthorizedUser, scope?: string) {
+    const grant = await getStorage(strapi).findGrant(clientId, user.id, user.type);
+
+    if (!grant || !coversScopes(getGrantedScopes(grant), parseScope(scope))) {
+      return null;
+    }
+
+    return grant;
+  },
+
+  /**
+   * Record that the user approved the client. Scopes accumulate across approvals.
+   */
+  async recordGrant(clientId: string, user: AuthorizedUser, scope?: string) {
+    const storage = getStorage(strapi);
+    const existing = await storage.findGrant(clientId, user.id, user.type);
+
+    if (existing) {
+      const scopes = new Set([...parseScope(existing.scope), ...parseScope(scope)]);
+      return storage.updateGrantScope(existing.id, formatScope([...scopes]) || null);
+    }
+
+    return storage.saveGrant({
+      clientId,
+      userId: user.id,
+      userType: user.type,
+      scope: scope || null,
+    });
+  },
+
+  /**
+   * List the active consent grants given to a client
+   */
+  async listGrants(clientId: string) {
+    return getStorage(strapi).listGrants({ clientId });
+  },
+
+  /**
+   * Revoke a consent grant and the tokens the user got with it.
+   * The user is asked for consent again on the next authorization.
+   */
+  async revokeGrant(id: string) {
+    const grant = await getStorage(strapi).revokeGrant(id);
+
+    if (grant) {
+      await strapi
+        .plugin(PLUGIN_ID)
+        .service('oauth')
+        .revokeUserTokens(grant.clientId, { id: grant.userId, type: grant.userType });
+    }
+
+    return grant;
+  },
+
+  /**
+   * Clients a user has approved, with the number of tokens they still hold
+   */
+  async listUserApps(user: TokenUser) {
+    const storage = getStorage(strapi);
+    const grants = await storage.listGrants({ userId: user.id, userType: user.type });
+
+    return Promise.all(
+      grants.map(async (grant) => {
+        const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
+          filters: { clientId: grant.clientId },
+          fields: ['name', 'description'],
+        });
+        const tokens = await storage.listActiveTokens({
+          clientId: grant.clientId,
+          userId: user.id,
+          userType: user.type,
+        });
+
+        return {
+          clientId: grant.clientId,
+          name: client?.name ?? grant.clientId,
+          description: client?.description ?? null,
+          scope: grant.scope,
+          approvedAt: grant.updatedAt,
+          activeTokens: tokens.length,
+        };
+      })
+    );
+  },
+
+  /**
+   * Withdraw a user's approval of a client and revoke the user's tokens for it.
+   * Returns null if the user has neither a grant nor tokens for the client.
+   */
+  async revokeUserApp(user: TokenUser, clientId: string) {
+    const grants = await getStorage(strapi).revokeGrants(clientId, user.id, user.type);
+    const tokens = await strapi.plugin(PLUGIN_ID).service('oauth').revokeUserTokens(clientId, user);
+
+    return grants || tokens ? { grants, tokens } : null;
+  },
+
+  /**
+   * Load the user a token was issued to. Returns null if the user was
+   * deleted, blocked or deactivated since.
+   */
+  async findUser(user: TokenUser): Promise<{ user: McpUser; record: any } | null> {
+    const isAdmin = user.type === 'admin';
+    const uid = isAdmin ? 'admin::user' : 'plugin::users-permissions.user';
+    const record = await strapi.db.query(uid).findOne({
+      where: { id: user.id },
+      populate: [isAdmin ? 'roles' : 'role'],
+    });
+
+    if (!record || record.blocked || (isAdmin && !record.isActive)) {
+      return null;
+    }
+
+    const roles = isAdmin
+      ? (record.roles ?? []).map((role: any) => role.name)
+      : [record.role?.type].filter(Boolean);
+
+    for (const field of PRIVATE_USER_FIELDS) {
+      delete record[field];
+    }
+
+    return {
+      user: {
+        id: user.id,
+        type: user.type,
+        email: record.email,
+        username: record.username ?? null,
+        roles,
+      },
+      record,
+    };
+  },
+
+  /**
+   * Issue and store an authorization code for a request the user approved
+   */
+  async issueCode(request: AuthorizationRequest, user: TokenUser): Promise<string> {
+    const code = generateToken();
+    const { authorizationCodeTtl } = strapi.plugin(PLUGIN_ID).config<TokensConfig>('tokens');
+    const expiresAt = new Date(Date.now() + authorizationCodeTtl * 1000);
+
+    await getStorage(strapi).saveCode({
+      code: hashToken(code),
+      clientId: request.clientId,
+      redirectUri: request.redirectUri,
+      scope: request.scope || null,
+      codeChallenge: request.codeChallenge || null,
+      codeChallengeMethod: request.codeChallengeMethod || null,
+      resource: request.resource || null,
+      nonce: request.nonce || null,
+      userId: user.id,
+      userType: user.type,
+      expiresAt: expiresAt.toISOString(),
+      used: false,
+    });
+
+    return code;
+  },
+});
+
+export default authorizationService;
@@ -0,0 +1,65 @@
+/**
+ * Cleanup Service
+ *
+ * Schedules the periodic purge of expired and spent codes and tokens,
+ * device authorizations, abandoned federated sign-ins and audit events past
+ * their retention, with Strapi's cron.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { CleanupConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+
+const CLEANUP_TASK = `${PLUGIN_ID}::cleanup`;
+
+const cleanupService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Purge expired codes, tokens and sign-ins and old audit events now and log a summary
+   */
+  async run() {
+    const startedAt = Date.now();
+
+    try {
+      const { codes, tokens, deviceCodes, federationStates } = await strapi
+        .plugin(PLUGIN_ID)
+        .service('oauth')
+        .cleanupExpired();
+      const events = await strapi.plugin(PLUGIN_ID).service('audit').purge();
+      strapi.log.info(
+        `[${PLUGIN_ID}] Cleanup removed ${codes} code(s), ${tokens} token(s), ` +
+          `${deviceCodes} device code(s), ${federationStates} federated sign-in(s) and ` +
+          `${events} audit event(s) in ${Date.now() - startedAt}ms`
+      );
+    } catch (error) {
+      strapi.log.error(`[${PLUGIN_ID}] Cleanup failed`, { error });
+    }
+  },
+
+  /**
+   * Register the cleanup cron task, unless disabled
+   */
+  schedule() {
+    const config = strapi.plugin(PLUGIN_ID).config<CleanupConfig>('cleanup');
+    if (!config.enabled) {
+      return;
+    }
+
+    strapi.cron.add({
+      [CLEANUP_TASK]: {
+        task: () => strapi.plugin(PLUGIN_ID).service('cleanup').run(),
+        options: { rule: config.rule },
+      },
+    });
+
+    strapi.log.info(`[${PLUGIN_ID}] Cleanup scheduled (${config.rule})`);
+  },
+
+  /**
+   * Remove the cleanup cron task
+   */
+  unschedule() {
+    strapi.cron.remove(CLEANUP_TASK);
+  },
+});
+
+export default cleanupService;
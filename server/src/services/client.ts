@@ -0,0 +1,148 @@
+/**
+ * Client Service
+ *
+ * Creates and updates OAuth clients and generates their credentials.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { randomBytes } from 'node:crypto';
+import { PLUGIN_ID } from '../pluginId';
+import type { GrantType } from '../utils/grant-types';
+import { hashSecret } from '../utils/hash';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+export type ClientType = 'confidential' | 'public';
+
+export interface CreateClientInput {
+  name: string;
+  clientType: ClientType;
+  redirectUris: string[];
+  requirePkce?: boolean;
+  allowedScopes?: string[] | null;
+  /** null: authorization_code and refresh_token */
+  allowedGrantTypes?: GrantType[] | null;
+  apiTokenId?: number | null;
+  strapiApiToken?: string | null;
+  accessTokenTtl?: number | null;
+  refreshTokenTtl?: number | null;
+  description?: string | null;
+  active?: boolean;
+}
+
+/**
+ * Fields that can be changed after creation. The client type is fixed.
+ */
+export type UpdateClientInput = Partial<Omit<CreateClientInput, 'clientType'>>;
+
+export interface CreateClientResult {
+  client: any;
+  /**
+   * Plaintext secret for confidential clients. Only available at creation time.
+   */
+  clientSecret: string | null;
+}
+
+/**
+ * Generate a new random client identifier
+ */
+function generateClientId(): string {
+  return `mcp_${randomBytes(16).toString('hex')}`;
+}
+
+/**
+ * Generate a new random client secret
+ */
+function generateClientSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+const clientService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Create a client with freshly generated credentials
+   */
+  async createClient(input: CreateClientInput): Promise<CreateClientResult> {
+    const clientId = generateClientId();
+    const clientSecret = input.clientType === 'confidential' ? generateClientSecret() : null;
+
+    const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).create({
+      data: {
+        name: input.name,
+        clientId,
+        clientType: input.clientType,
+        clientSecret: clientSecret && (await hashSecret(clientSecret)),
+        redirectUris: input.redirectUris,
+        requirePkce: input.requirePkce ?? false,
+        allowedScopes: input.allowedScopes ?? null,
+        allowedGrantTypes: input.allowedGrantTypes ?? null,
+        apiTokenId: input.apiTokenId ?? null,
+        strapiApiToken: input.strapiApiToken ?? null,
+        accessTokenTtl: input.accessTokenTtl ?? null,
+        refreshTokenTtl: input.refreshTokenTtl ?? null,
+        description: input.description ?? null,
+        active: input.active ?? true,
+      } as any,
+    });
+
+    strapi.log.info(`[${PLUGIN_ID}] Created ${input.clientType} OAuth client ${clientId}`);
+
+    return { client, clientSecret };
+  },
+
+  /**
+   * List all clients, newest first
+   */
+  async listClients() {
+    return strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findMany({
+      sort: { createdAt: 'desc' } as any,
+    });
+  },
+
+  /**
+   * Find a client by document id
+   */
+  async getClient(documentId: string) {
+    return strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findOne({ documentId });
+  },
+
+  /**
+   * Update a client's settings
+   */
+  async updateClient(documentId: string, input: UpdateClientInput) {
+    const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).update({
+      documentId,
+      data: input as any,
+    });
+
+    if (client && input.active === false) {
+      strapi.log.info(`[${PLUGIN_ID}] Deactivated OAuth client ${client.clientId}`);
+    }
+
+    return client;
+  },
+
+  /**
+   * Replace a confidential client's secret. The new plaintext secret is only returned here.
+   */
+  async rotateSecret(documentId: string): Promise<CreateClientResult | null> {
+    const existing = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findOne({
+      documentId,
+    });
+
+    if (!existing || existing.clientType !== 'confidential') {
+      return null;
+    }
+
+    const clientSecret = generateClientSecret();
+    const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).update({
+      documentId,
+      data: { clientSecret: await hashSecret(clientSecret) } as any,
+    });
+
+    strapi.log.info(`[${PLUGIN_ID}] Rotated secret of OAuth client ${existing.clientId}`);
+
+    return { client, clientSecret };
+  },
+});
+
+export default clientService;
@@ -0,0 +1,137 @@
+/**
+ * Credential Service
+ *
+ * Resolves the Strapi API token an OAuth client acts with. Clients either
+ * reference an admin API token record (apiTokenId), optionally created and
+ * owned by this plugin, or carry a pasted token string (strapiApiToken).
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { ApiTokensConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+function getApiTokenService(strapi: Core.Strapi) {
+  return strapi.service('admin::api-token');
+}
+
+/**
+ * Deactivate a client whose credential can no longer be used
+ */
+async function deactivateClient(strapi: Core.Strapi, client: any, reason: string) {
+  await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).update({
+    where: { id: client.id },
+    data: { active: false },
+  });
+
+  strapi.log.warn(`[${PLUGIN_ID}] Deactivated OAuth client ${client.clientId}: ${reason}`);
+}
+
+const credentialService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Resolve the current Strapi API token for a client at request time.
+   * Returns null (and deactivates the client) if the linked token is gone or expired.
+   */
+  async resolve(client: any): Promise<string | null> {
+    const encryptionService = strapi.plugin(PLUGIN_ID).service('encryption');
+
+    if (!client.apiTokenId) {
+      return encryptionService.decrypt(client.strapiApiToken);
+    }
+
+    const apiTokenService = getApiTokenService(strapi);
+    const apiToken = await apiTokenService.getById(client.apiTokenId);
+
+    if (!apiToken) {
+      await deactivateClient(strapi, client, `linked API token #${client.apiTokenId} was deleted`);
+      return null;
+    }
+
+    if (apiToken.expiresAt && new Date(apiToken.expiresAt) < new Date()) {
+      await deactivateClient(strapi, client, `linked API token "${apiToken.name}" has expired`);
+      return null;
+    }
+
+    // Strapi can decrypt the access key itself when admin.secrets.encryptionKey is set
+    if (apiToken.accessKey) {
+      return apiToken.accessKey;
+    }
+
+    // Otherwise use the copy stored when the plugin created the token,
+    // as long as the token has not been regenerated since
+    const storedKey = encryptionService.decrypt(client.strapiApiToken);
+    if (
+      storedKey &&
+      (await apiTokenService.exists({
+        id: apiToken.id,
+        accessKey: apiTokenService.hash(storedKey),
+      }))
+    ) {
+      return storedKey;
+    }
+
+    await deactivateClient(
+      strapi,
+      client,
+      `linked API token "${apiToken.name}" was regenerated and its new key cannot be read. ` +
+        `Configure admin.secrets.encryptionKey or paste the new key into strapiApiToken.`
+    );
+    return null;
+  },
+
+  /**
+   * Create an API token owned by the plugin for the client and link it
+   */
+  async provision(client: any) {
+    const config = strapi.plugin(PLUGIN_ID).config<ApiTokensConfig>('apiTokens');
+
+    const apiToken = await getApiTokenService(strapi).create({
+      name: `MCP OAuth: ${client.name} (${client.clientId})`,
+      description: `Created by ${PLUGIN_ID} for OAuth client ${client.clientId}`,
+      type: config.type,
+      permissions: config.type === 'custom' ? config.permissions : [],
+      lifespan: config.lifespan,
+    });
+
+    await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).update({
+      where: { id: client.id },
+      data: { apiTokenId: apiToken.id, ownsApiToken: true, strapiApiToken: apiToken.accessKey },
+    });
+
+    strapi.log.info(
+      `[${PLUGIN_ID}] Created ${config.type} API token #${apiToken.id} for client ${client.clientId}`
+    );
+
+    return apiToken;
+  },
+
+  /**
+   * Delete the API token owned by a deleted client
+   */
+  async release(client: any) {
+    if (!client.ownsApiToken || !client.apiTokenId) {
+      return;
+    }
+
+    await getApiTokenService(strapi).revoke(client.apiTokenId);
+    strapi.log.info(
+      `[${PLUGIN_ID}] Deleted API token #${client.apiTokenId} owned by client ${client.clientId}`
+    );
+  },
+
+  /**
+   * Deactivate every client linked to an API token that was deleted
+   */
+  async handleApiTokenDeleted(apiTokenId: number) {
+    const clients = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).findMany({
+      where: { apiTokenId, active: true },
+    });
+
+    for (const client of clients) {
+      await deactivateClient(strapi, client, `linked API token #${apiTokenId} was deleted`);
+    }
+  },
+});
+
+export default credentialService;
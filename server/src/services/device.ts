@@ -0,0 +1,186 @@
+/**
+ * Device Service
+ *
+ * Device authorization grant (RFC 8628) for clients that can't receive a
+ * redirect, like CLIs and agents on remote machines. The client gets a
+ * device code to poll the token endpoint with and a short user code the
+ * user enters on the verification page, where they sign in and approve the
+ * client. Both codes are stored hashed, with the configured storage adapter.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { randomInt } from 'node:crypto';
+import type { TokensConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import type { DeviceCodeRecord, StorageAdapter } from '../storage';
+import { generateToken, hashToken } from '../utils/hash';
+import type { AuthorizedUser } from './authorization';
+
+/**
+ * Consonants only, so user codes are easy to type and never spell words (RFC 8628 Section 6.1)
+ */
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+const USER_CODE_LENGTH = 8;
+
+/**
+ * Seconds added to a device's polling interval each time it polls too fast (RFC 8628 Section 3.5)
+ */
+const SLOW_DOWN_INCREMENT = 5;
+
+export interface DeviceAuthorization {
+  deviceCode: string;
+  /** Formatted for display, e.g. WDJB-MJHT */
+  userCode: string;
+  expiresIn: number;
+  interval: number;
+}
+
+export interface DevicePollResult {
+  /** Set once the user approved and the code is redeemed */
+  record?: DeviceCodeRecord;
+  error?:
+    | 'authorization_pending'
+    | 'slow_down'
+    | 'access_denied'
+    | 'expired_token'
+    | 'invalid_grant';
+  errorDescription?: string;
+}
+
+/**
+ * Uppercase a user code and drop the separator and anything else that isn't part of it
+ */
+export function normalizeUserCode(value: unknown): string {
+  return typeof value === 'string' ? value.toUpperCase().replace(/[^A-Z]/g, '') : '';
+}
+
+/**
+ * Split a normalized user code in two for display, e.g. WDJB-MJHT
+ */
+export function formatUserCode(code: string): string {
+  return `${code.slice(0, USER_CODE_LENGTH / 2)}-${code.slice(USER_CODE_LENGTH / 2)}`;
+}
+
+function generateUserCode(): string {
+  let code = '';
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    code += USER_CODE_ALPHABET[randomInt(USER_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+const isExpired = (record: DeviceCodeRecord) => new Date(record.expiresAt) < new Date();
+
+/**
+ * The configured storage adapter for device authorizations
+ */
+function getStorage(strapi: Core.Strapi): StorageAdapter {
+  return strapi.plugin(PLUGIN_ID).service('storage').get();
+}
+
+const deviceService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Start a device authorization for the client
+   */
+  async create(
+    client: any,
+    request: { scope: string | null; resource: string | null }
+  ): Promise<DeviceAuthorization> {
+    const { deviceCodeTtl, devicePollInterval } = strapi
+      .plugin(PLUGIN_ID)
+      .config<TokensConfig>('tokens');
+    const deviceCode = generateToken();
+    const userCode = generateUserCode();
+
+    await getStorage(strapi).saveDeviceCode({
+      deviceCode: hashToken(deviceCode),
+      userCode: hashToken(userCode),
+      clientId: client.clientId,
+      scope: request.scope,
+      resource: request.resource,
+      interval: devicePollInterval,
+      expiresAt: new Date(Date.now() + deviceCodeTtl * 1000).toISOString(),
+    });
+
+    return {
+      deviceCode,
+      userCode: formatUserCode(userCode),
+      expiresIn: deviceCodeTtl,
+      interval: devicePollInterval,
+    };
+  },
+
+  /**
+   * The pending device authorization a user code belongs to, or null if it
+   * is unknown, expired or already decided
+   */
+  async findPending(userCode: unknown): Promise<DeviceCodeRecord | null> {
+    const code = normalizeUserCode(userCode);
+    if (code.length !== USER_CODE_LENGTH) {
+      return null;
+    }
+
+    const record = await getStorage(strapi).findPendingDeviceCode(hashToken(code));
+
+    return record && !isExpired(record) ? record : null;
+  },
+
+  /**
+   * Record the user's decision. Returns false if the authorization was
+   * decided already or has expired.
+   */
+  async decide(id: string, decision: 'approved' | 'denied', user: AuthorizedUser) {
+    return getStorage(strapi).decideDeviceCode(id, decision, user.id, user.type);
+  },
+
+  /**
+   * Check a device code polled at the token endpoint. An approved code is
+   * redeemed once; devices polling faster than their interval are slowed down.
+   */
+  async poll(deviceCode: string, clientId: string): Promise<DevicePollResult> {
+    const storage = getStorage(strapi);
+    const record = await storage.findDeviceCode(hashToken(deviceCode));
+
+    if (!record || record.clientId !== clientId || record.status === 'used') {
+      return { error: 'invalid_grant', errorDescription: 'Invalid device code' };
+    }
+
+    if (isExpired(record)) {
+      return { error: 'expired_token', errorDescription: 'The device code has expired' };
+    }
+
+    if (record.status === 'denied') {
+      return {
+        error: 'access_denied',
+        errorDescription: 'The user denied the authorization request',
+      };
+    }
+
+    if (record.status === 'pending') {
+      const now = Date.now();
+      const tooFast =
+        record.lastPolledAt &&
+        now - new Date(record.lastPolledAt).getTime() < record.interval * 1000;
+
+      await storage.updateDevicePoll(
+        record.id,
+        new Date(now).toISOString(),
+        tooFast ? record.interval + SLOW_DOWN_INCREMENT : record.interval
+      );
+
+      return tooFast
+        ? { error: 'slow_down', errorDescription: 'Polling too fast, increase the interval' }
+        : { error: 'authorization_pending', errorDescription: 'The user has not decided yet' };
+    }
+
+    // Approved: only one poll may redeem the code
+    if (!(await storage.useDeviceCode(record.id))) {
+      return { error: 'invalid_grant', errorDescription: 'Invalid device code' };
+    }
+
+    return { record };
+  },
+});
+
+export default deviceService;
@@ -0,0 +1,114 @@
+/**
+ * Encryption Service
+ *
+ * Encrypts the Strapi API token linked to each OAuth client at rest and
+ * re-encrypts stored values when the key is rotated.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { EncryptionConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { decrypt, encrypt, getKeyId, getValueKeyId, isEncrypted } from '../utils/encryption';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+export const ENCRYPTION_KEY_ENV = 'MCP_OAUTH_ENCRYPTION_KEY';
+
+/**
+ * Current key first, then previous keys still accepted for decryption
+ */
+function getKeys(strapi: Core.Strapi): { current: string | null; all: string[] } {
+  const config = strapi.plugin(PLUGIN_ID).config<EncryptionConfig>('encryption');
+  const current = config.key || process.env[ENCRYPTION_KEY_ENV] || null;
+  const all = [current, ...(config.previousKeys ?? [])].filter((key): key is string => !!key);
+  return { current, all };
+}
+
+const encryptionService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Whether an encryption key is configured
+   */
+  isEnabled(): boolean {
+    return !!getKeys(strapi).current;
+  },
+
+  /**
+   * Encrypt a value under the current key. Without a key the value is returned as is.
+   */
+  encrypt(plaintext: string): string {
+    const { current } = getKeys(strapi);
+    if (!current || isEncrypted(plaintext)) {
+      return plaintext;
+    }
+    return encrypt(plaintext, current);
+  },
+
+  /**
+   * Decrypt a stored value. Plaintext values from before encryption are returned as is.
+   */
+  decrypt(value: string | null | undefined): string | null {
+    if (!value) {
+      return null;
+    }
+    if (!isEncrypted(value)) {
+      return value;
+    }
+    return decrypt(value, getKeys(strapi).all);
+  },
+
+  /**
+   * Re-encrypt every client's API token under the current key.
+   * Encrypts plaintext tokens and tokens written under a previous key.
+   *
+   * Throws if encrypted tokens exist but no configured key can decrypt them.
+   */
+  async rotate(): Promise<number> {
+    const { current, all } = getKeys(strapi);
+    const knownKeyIds = new Set(all.map(getKeyId));
+
+    const clients = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).findMany({
+      where: { strapiApiToken: { $notNull: true } },
+      select: ['id', 'clientId', 'strapiApiToken'],
+    });
+
+    const unreadable = clients.filter(
+      (client) =>
+        isEncrypted(client.strapiApiToken) &&
+        !knownKeyIds.has(getValueKeyId(client.strapiApiToken))
+    );
+
+    if (unreadable.length) {
+      throw new Error(
+        `[${PLUGIN_ID}] ${unreadable.length} OAuth client(s) have an encrypted strapiApiToken but ` +
+          `the key used to encrypt them is not configured. Set the plugin config ` +
+          `'encryption.key' or the ${ENCRYPTION_KEY_ENV} environment variable ` +
+          `(and 'encryption.previousKeys' when rotating).`
+      );
+    }
+
+    if (!current) {
+      return 0;
+    }
+
+    const currentKeyId = getKeyId(current);
+    let rotated = 0;
+
+    for (const client of clients) {
+      const { strapiApiToken } = client;
+      if (isEncrypted(strapiApiToken) && getValueKeyId(strapiApiToken) === currentKeyId) {
+        continue;
+      }
+
+      const plaintext = isEncrypted(strapiApiToken) ? decrypt(strapiApiToken, all) : strapiApiToken;
+      await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).update({
+        where: { id: client.id },
+        data: { strapiApiToken: encrypt(plaintext, current) },
+      });
+      rotated++;
+    }
+
+    return rotated;
+  },
+});
+
+export default encryptionService;
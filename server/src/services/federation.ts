@@ -0,0 +1,310 @@
+/**
+ * Federation Service
+ *
+ * Hands the login step of the authorize flow to an external OpenID Connect
+ * provider (authorization code flow with PKCE). Pending logins are kept by
+ * the storage adapter, bound to the browser that started them; once
+ * the provider redirects back to that browser, its ID token is verified and
+ * the user is matched to a Strapi user by email.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { createHash, createPublicKey, type KeyObject } from 'node:crypto';
+import type { FederationConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import type { StorageAdapter } from '../storage';
+import { generateToken, hashToken } from '../utils/hash';
+import { decodeJwt, JWT_ALGORITHMS, verifyJwtSignature } from '../utils/jwt';
+import { getBrowserNonce, readBrowserNonce } from '../utils/ticket';
+import { getBaseUrl } from '../utils/url';
+import type { AuthorizationRequest, AuthorizedUser } from './authorization';
+
+export const FEDERATION_CALLBACK_PATH = `/api/${PLUGIN_ID}/oauth/federation/callback`;
+
+/**
+ * How long the user has to sign in at the provider (seconds)
+ */
+const STATE_TTL = 10 * 60;
+
+/**
+ * How long provider metadata and keys are cached (milliseconds)
+ */
+const METADATA_TTL = 60 * 60 * 1000;
+
+/**
+ * Tolerated clock difference with the provider when checking the ID token (seconds)
+ */
+const CLOCK_SKEW = 60;
+
+const FETCH_TIMEOUT = 10 * 1000;
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface FederationResult {
+  /** The authorization request the login belongs to. Unset if the state is unknown or expired. */
+  request?: AuthorizationRequest;
+  user?: AuthorizedUser;
+  /** OAuth error code to send back to the client */
+  error?: 'access_denied' | 'server_error';
+  errorDescription?: string;
+}
+
+/**
+ * The configured storage adapter for pending logins
+ */
+function getStorage(strapi: Core.Strapi): StorageAdapter {
+  return strapi.plugin(PLUGIN_ID).service('storage').get();
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`);
+  }
+  return response.json();
+}
+
+const normalizeIssuer = (issuer: string) => issuer.replace(/\/+$/, '');
+
+const federationService = ({ strapi }: { strapi: Core.Strapi }) => {
+  let metadata: { value: ProviderMetadata; fetchedAt: number } | null = null;
+  let keys: { value: any[]; fetchedAt: number } | null = null;
+
+  const getConfig = () => strapi.plugin(PLUGIN_ID).config<FederationConfig>('federation');
+
+  /**
+   * Provider metadata from its discovery document, cached
+   */
+  const getMetadata = async (): Promise<ProviderMetadata> => {
+    if (metadata && Date.now() - metadata.fetchedAt < METADATA_TTL) {
+      return metadata.value;
+    }
+
+    const issuer = normalizeIssuer(getConfig().issuer!);
+    const value = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+    if (normalizeIssuer(value.issuer ?? '') !== issuer) {
+      throw new Error(`Provider metadata is for issuer ${value.issuer}, expected ${issuer}`);
+    }
+
+    metadata = { value, fetchedAt: Date.now() };
+    return value;
+  };
+
+  /**
+   * Public key of the provider for a key id. The key set is reloaded once for unknown ids.
+   */
+  const getSigningKey = async (kid: string | undefined): Promise<KeyObject | null> => {
+    const find = (jwks: any[]) =>
+      jwks.find((jwk) => (kid ? jwk.kid === kid : jwk.use !== 'enc'));
+
+    let jwk = keys && Date.now() - keys.fetchedAt < METADATA_TTL ? find(keys.value) : undefined;
+    if (!jwk) {
+      const { jwks_uri } = await getMetadata();
+      const { keys: value = [] } = await fetchJson(jwks_uri);
+      keys = { value, fetchedAt: Date.now() };
+      jwk = find(value);
+    }
+
+    return jwk ? createPublicKey({ key: jwk, format: 'jwk' }) : null;
+  };
+
+  /**
+   * Verify the provider's ID token. Returns its claims, or an error message.
+   */
+  const verifyIdToken = async (
+    idToken: string,
+    nonce: string
+  ): Promise<{ claims?: Record<string, any>; error?: string }> => {
+    const decoded = decodeJwt(idToken);
+    if (!decoded || !JWT_ALGORITHMS.includes(decoded.header.alg)) {
+      return { error: 'ID token is malformed or uses an unsupported algorithm' };
+    }
+
+    const key = await getSigningKey(decoded.header.kid);
+    if (!key || !verifyJwtSignature(decoded, key)) {
+      return { error: 'ID token signature is invalid' };
+    }
+
+    const { clientId } = getConfig();
+    const { issuer } = await getMetadata();
+    const claims = decoded.payload;
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== issuer) {
+      return { error: 'ID token was issued by another provider' };
+    }
+    if (!audiences.includes(clientId) || (audiences.length > 1 && claims.azp !== clientId)) {
+      return { error: 'ID token was issued to another client' };
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW < now) {
+      return { error: 'ID token expired' };
+    }
+    if (claims.nonce !== nonce) {
+      return { error: 'ID token nonce does not match' };
+    }
+
+    return { claims };
+  };
+
+  return {
+    /**
+     * Whether logins are handed to an external provider
+     */
+    isEnabled(): boolean {
+      return getConfig().enabled;
+    },
+
+    /**
+     * Store a pending login for the request and return the provider URL to send the user to
+     */
+    async start(ctx: any, request: AuthorizationRequest): Promise<string> {
+      const config = getConfig();
+      const { authorization_endpoint } = await getMetadata();
+      const state = generateToken();
+      const nonce = generateToken();
+      const codeVerifier = generateToken();
+
+      await getStorage(strapi).saveFederationState({
+        state: hashToken(state),
+        browser: hashToken(getBrowserNonce(ctx)),
+        nonce,
+        codeVerifier,
+        request,
+        expiresAt: new Date(Date.now() + STATE_TTL * 1000).toISOString(),
+      });
+
+      const url = new URL(authorization_endpoint);
+      url.searchParams.set('response_type', 'code');
+      url.searchParams.set('client_id', config.clientId!);
+      url.searchParams.set('redirect_uri', `${getBaseUrl(ctx, strapi)}${FEDERATION_CALLBACK_PATH}`);
+      url.searchParams.set('scope', config.scopes.join(' '));
+      url.searchParams.set('state', state);
+      url.searchParams.set('nonce', nonce);
+      url.searchParams.set(
+        'code_challenge',
+        createHash('sha256').update(codeVerifier).digest('base64url')
+      );
+      url.searchParams.set('code_challenge_method', 'S256');
+      return url.toString();
+    },
+
+    /**
+     * Finish a login when the provider redirects back. The pending login is
+     * consumed whatever the outcome, unless another browser presents it.
+     */
+    async complete(
+      ctx: any,
+      params: { code?: string; state?: string; error?: string }
+    ): Promise<FederationResult> {
+      if (typeof params.state !== 'string' || !params.state) {
+        return {};
+      }
+
+      // A state from someone else's login must not sign this browser in
+      const browser = readBrowserNonce(ctx);
+      if (!browser) {
+        return {};
+      }
+
+      const pending = await getStorage(strapi).takeFederationState(
+        hashToken(params.state),
+        hashToken(browser)
+      );
+      if (!pending || new Date(pending.expiresAt) < new Date()) {
+        return {};
+      }
+
+      const request = pending.request;
+      if (params.error || typeof params.code !== 'string') {
+        return {
+          request,
+          error: 'access_denied',
+          errorDescription: `Sign-in at the identity provider failed: ${params.error ?? 'no code'}`,
+        };
+      }
+
+      const config = getConfig();
+      try {
+        const { token_endpoint, userinfo_endpoint } = await getMetadata();
+        const tokens = await fetchJson(token_endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+          },
+          body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code: params.code,
+            redirect_uri: `${getBaseUrl(ctx, strapi)}${FEDERATION_CALLBACK_PATH}`,
+            client_id: config.clientId!,
+            code_verifier: pending.codeVerifier,
+            ...(config.clientSecret && { client_secret: config.clientSecret }),
+          }),
+        });
+
+        const { claims, error } = await verifyIdToken(tokens.id_token ?? '', pending.nonce);
+        if (!claims) {
+          strapi.log.warn(`[${PLUGIN_ID}] Rejected ID token from identity provider: ${error}`);
+          return { request, error: 'access_denied', errorDescription: error };
+        }
+
+        // Some providers only return profile claims from the userinfo endpoint
+        let profile = claims;
+        if (!profile[config.claims.email] && userinfo_endpoint && tokens.access_token) {
+          const userinfo = await fetchJson(userinfo_endpoint, {
+            headers: { Authorization: `Bearer ${tokens.access_token}` },
+          });
+          if (userinfo.sub === claims.sub) {
+            profile = { ...userinfo, ...claims };
+          }
+        }
+
+        const email = profile[config.claims.email];
+        if (typeof email !== 'string' || !email) {
+          return {
+            request,
+            error: 'access_denied',
+            errorDescription: 'The identity provider did not share an email address',
+          };
+        }
+        if (config.claims.emailVerified && profile[config.claims.emailVerified] !== true) {
+          return {
+            request,
+            error: 'access_denied',
+            errorDescription: 'The email address is not verified at the identity provider',
+          };
+        }
+
+        const user: AuthorizedUser | null = await strapi
+          .plugin(PLUGIN_ID)
+          .service('authorization')
+          .findFederatedUser({ email, username: profile[config.claims.username] });
+        if (!user) {
+          return {
+            request,
+            error: 'access_denied',
+            errorDescription: 'No account matches the signed-in user',
+          };
+        }
+
+        return { request, user };
+      } catch (error) {
+        strapi.log.error(`[${PLUGIN_ID}] Sign-in with the identity provider failed`, { error });
+        return {
+          request,
+          error: 'server_error',
+          errorDescription: 'Sign-in with the identity provider failed',
+        };
+      }
+    },
+  };
+};
+
+export default federationService;
@@ -1,5 +1,33 @@
+import audit from './audit';
+import authorization from './authorization';
+import cleanup from './cleanup';
+import client from './client';
+import credential from './credential';
+import device from './device';
+import encryption from './encryption';
+import federation from './federation';
+import jwt from './jwt';
+import migration from './migration';
 import oauth from './oauth';
+import rateLimit from './rate-limit';
+import registry from './registry';
+import storage from './storage';
+import tokenCache from './token-cache';
 
 export default {
+  audit,
+  authorization,
+  cleanup,
+  client,
+  credential,
+  device,
+  encryption,
+  federation,
+  jwt,
+  migration,
   oauth,
+  'rate-limit': rateLimit,
+  registry,
+  storage,
+  'token-cache': tokenCache,
 };
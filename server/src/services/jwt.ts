@@ -0,0 +1,370 @@
+/**
+ * JWT Service
+ *
+ * Signs and verifies JWT access tokens (RFC 9068) and signs OpenID Connect
+ * id_tokens with keys managed by the plugin, publishes them as a JWKS and
+ * keeps a denylist of revoked tokens so verification doesn't need a database
+ * lookup per request.
+ *
+ * Keys are shared by every instance through the plugin store, which has no
+ * transactions: changes are merged into the stored keys by kid and read back,
+ * and retried if another instance wrote at the same time.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { createPrivateKey, createPublicKey, randomUUID } from 'node:crypto';
+import type { JwtConfig, TokensConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { decodeJwt, generateSigningKeyPair, signJwt, verifyJwtSignature } from '../utils/jwt';
+import type { JwtAlgorithm } from '../utils/jwt';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+/**
+ * JWT type for access tokens (RFC 9068 Section 2.1)
+ */
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+/**
+ * JWT type for OpenID Connect id_tokens, so they can't pass as access tokens
+ */
+const ID_TOKEN_TYPE = 'JWT';
+
+/**
+ * Allowed clock difference between servers, in seconds
+ */
+const CLOCK_TOLERANCE = 30;
+
+const KEY_MAINTENANCE_TASK = `${PLUGIN_ID}::jwt-keys`;
+
+/**
+ * Least time between key reloads for tokens signed with an unknown key, in milliseconds
+ */
+const KEY_RELOAD_INTERVAL = 5 * 1000;
+
+/**
+ * Attempts at writing keys while other instances write them too
+ */
+const KEY_WRITE_ATTEMPTS = 5;
+
+interface SigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  publicJwk: Record<string, any>;
+  /** PKCS#8 PEM, encrypted by the encryption service when a key is configured */
+  privateKey: string;
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+export interface AccessTokenClaims {
+  iss: string;
+  aud: string;
+  sub: string;
+  client_id: string;
+  scope?: string;
+  jti: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerificationResult {
+  valid: boolean;
+  claims?: Record<string, any>;
+  error?: string;
+}
+
+function getKeyStore(strapi: Core.Strapi) {
+  return strapi.store({ type: 'plugin', name: PLUGIN_ID, key: 'signing-keys' });
+}
+
+/**
+ * Longest access token lifetime in use, across the plugin config and client overrides
+ */
+async function getMaxAccessTokenTtl(strapi: Core.Strapi): Promise<number> {
+  const { accessTokenTtl } = strapi.plugin(PLUGIN_ID).config<TokensConfig>('tokens');
+  const clients = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).findMany({
+    where: { accessTokenTtl: { $notNull: true } },
+    select: ['accessTokenTtl'],
+  });
+
+  return Math.max(accessTokenTtl, ...clients.map((client) => client.accessTokenTtl));
+}
+
+const jwtService = ({ strapi }: { strapi: Core.Strapi }) => {
+  let keys: SigningKey[] | null = null;
+  let keysLoadedAt = 0;
+  const denylist = new Set<string>();
+  let denylistLoadedAt = 0;
+
+  const loadKeys = async (): Promise<SigningKey[]> => {
+    keysLoadedAt = Date.now();
+    const stored = (await getKeyStore(strapi).get()) as { keys?: SigningKey[] } | null;
+    keys = stored?.keys ?? [];
+    return keys;
+  };
+
+  /**
+   * Apply a change to the stored keys and read them back, retrying until the
+   * change is there (isApplied) because another instance may have written in between
+   */
+  const updateKeys = async (
+    change: (stored: SigningKey[]) => SigningKey[],
+    isApplied: (stored: SigningKey[]) => boolean
+  ) => {
+    for (let attempt = 0; attempt < KEY_WRITE_ATTEMPTS; attempt++) {
+      const next = change(await loadKeys());
+      await getKeyStore(strapi).set({ value: { keys: next } });
+      if (isApplied(await loadKeys())) {
+        return;
+      }
+    }
+    throw new Error(`[${PLUGIN_ID}] JWT signing keys kept changing while being written`);
+  };
+
+  const createKey = (): SigningKey => {
+    const { algorithm } = strapi.plugin(PLUGIN_ID).config<JwtConfig>('jwt');
+    const { publicKey, privateKey } = generateSigningKeyPair(algorithm);
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    return {
+      kid: randomUUID(),
+      alg: algorithm,
+      publicJwk: publicKey.export({ format: 'jwk' }),
+      privateKey: strapi.plugin(PLUGIN_ID).service('encryption').encrypt(pem),
+      createdAt: new Date().toISOString(),
+      retiredAt: null,
+    };
+  };
+
+  const signWithCurrentKey = async (
+    payload: Record<string, any>,
+    typ: string,
+    expiresIn: number
+  ): Promise<string> => {
+    let [key] = keys ?? (await loadKeys());
+    if (!key) {
+      await strapi.plugin(PLUGIN_ID).service('jwt').rotateKeys();
+      [key] = keys!;
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    const privateKey = createPrivateKey(
+      strapi.plugin(PLUGIN_ID).service('encryption').decrypt(key.privateKey)
+    );
+
+    return signJwt(
+      { ...payload, iat, exp: iat + expiresIn },
+      { alg: key.alg, typ, kid: key.kid },
+      privateKey
+    );
+  };
+
+  const loadDenylist = async () => {
+    const revoked: string[] = await strapi
+      .plugin(PLUGIN_ID)
+      .service('storage')
+      .get()
+      .listRevokedJtis();
+
+    denylist.clear();
+    for (const jti of revoked) {
+      denylist.add(jti);
+    }
+    denylistLoadedAt = Date.now();
+  };
+
+  return {
+    /**
+     * Whether access tokens are issued as JWTs
+     */
+    isEnabled(): boolean {
+      return strapi.plugin(PLUGIN_ID).config<TokensConfig>('tokens').format === 'jwt';
+    },
+
+    /**
+     * Create a new signing key. The current key is retired but stays published
+     * until every token it signed has expired.
+     */
+    async rotateKeys(): Promise<string> {
+      const key = createKey();
+
+      await updateKeys(
+        (stored) => {
+          const now = new Date().toISOString();
+          return [
+            key,
+            ...stored
+              .filter((existing) => existing.kid !== key.kid)
+              .map((existing) => ({ ...existing, retiredAt: existing.retiredAt ?? now })),
+          ];
+        },
+        (stored) => stored.some((existing) => existing.kid === key.kid)
+      );
+
+      strapi.log.info(`[${PLUGIN_ID}] Created JWT signing key ${key.kid} (${key.alg})`);
+      return key.kid;
+    },
+
+    /**
+     * Create the first key, rotate it when it is older than keyRotationInterval
+     * and drop retired keys that can no longer have valid tokens
+     */
+    async maintainKeys() {
+      const jwt = strapi.plugin(PLUGIN_ID).service('jwt');
+      const { keyRotationInterval } = strapi.plugin(PLUGIN_ID).config<JwtConfig>('jwt');
+      const [current] = await loadKeys();
+
+      if (
+        !current ||
+        (keyRotationInterval &&
+          Date.now() - new Date(current.createdAt).getTime() > keyRotationInterval * 1000)
+      ) {
+        await jwt.rotateKeys();
+      }
+
+      const maxTtl = await getMaxAccessTokenTtl(strapi);
+      const isExpired = (key: SigningKey) =>
+        !!key.retiredAt &&
+        new Date(key.retiredAt).getTime() + (maxTtl + CLOCK_TOLERANCE) * 1000 <= Date.now();
+      const expired = (await loadKeys()).filter(isExpired).length;
+
+      // Only drop expired keys, so keys another instance just added are kept
+      if (expired) {
+        await updateKeys(
+          (stored) => stored.filter((key) => !isExpired(key)),
+          (stored) => !stored.some(isExpired)
+        );
+        strapi.log.info(`[${PLUGIN_ID}] Removed ${expired} expired JWT signing key(s)`);
+      }
+    },
+
+    /**
+     * Maintain the signing keys now and hourly. Keys are needed for id_tokens
+     * even when access tokens are opaque.
+     */
+    async schedule() {
+      const jwt = strapi.plugin(PLUGIN_ID).service('jwt');
+      await jwt.maintainKeys();
+      strapi.cron.add({
+        [KEY_MAINTENANCE_TASK]: {
+          task: async () => {
+            try {
+              await jwt.maintainKeys();
+            } catch (error) {
+              strapi.log.error(`[${PLUGIN_ID}] JWT key maintenance failed`, { error });
+            }
+          },
+          options: { rule: '0 * * * *' },
+        },
+      });
+    },
+
+    /**
+     * Remove the key maintenance cron task
+     */
+    unschedule() {
+      strapi.cron.remove(KEY_MAINTENANCE_TASK);
+    },
+
+    /**
+     * Public keys for the jwks_uri endpoint
+     */
+    async getJwks() {
+      const current = keys ?? (await loadKeys());
+      return {
+        keys: current.map((key) => ({ ...key.publicJwk, kid: key.kid, alg: key.alg, use: 'sig' })),
+      };
+    },
+
+    /**
+     * Sign an access token with the current key
+     */
+    async sign(claims: AccessTokenClaims, expiresIn: number): Promise<string> {
+      return signWithCurrentKey(claims, ACCESS_TOKEN_TYPE, expiresIn);
+    },
+
+    /**
+     * Sign an OpenID Connect id_token with the current key
+     */
+    async signIdToken(claims: IdTokenClaims, expiresIn: number): Promise<string> {
+      return signWithCurrentKey(claims, ID_TOKEN_TYPE, expiresIn);
+    },
+
+    /**
+     * Verify an access token's signature, issuer, audience, expiry and revocation.
+     * The audience must be one of the accepted resources.
+     */
+    async verify(
+      token: string,
+      expected: { issuer: string; audiences: string[] }
+    ): Promise<JwtVerificationResult> {
+      const decoded = decodeJwt(token);
+      if (!decoded || decoded.header.typ !== ACCESS_TOKEN_TYPE) {
+        return { valid: false, error: 'Malformed token' };
+      }
+
+      // Reload for keys created by another instance since they were cached, but
+      // not for every token signed with a key that doesn't exist
+      const findKey = (list: SigningKey[] | null) =>
+        list?.find((key) => key.kid === decoded.header.kid && key.alg === decoded.header.alg);
+      let key = findKey(keys);
+      if (!key && Date.now() - keysLoadedAt >= KEY_RELOAD_INTERVAL) {
+        key = findKey(await loadKeys());
+      }
+
+      const publicKey = key && createPublicKey({ key: key.publicJwk, format: 'jwk' });
+      if (!publicKey || !verifyJwtSignature(decoded, publicKey)) {
+        return { valid: false, error: 'Invalid token signature' };
+      }
+
+      const { payload } = decoded;
+      const now = Math.floor(Date.now() / 1000);
+
+      if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE < now) {
+        return { valid: false, error: 'Token expired' };
+      }
+
+      if (payload.iss !== expected.issuer) {
+        return { valid: false, error: 'Token was issued by another server' };
+      }
+
+      if (!expected.audiences.includes(payload.aud)) {
+        return { valid: false, error: 'Token audience does not match this MCP endpoint' };
+      }
+
+      if (await strapi.plugin(PLUGIN_ID).service('jwt').isRevoked(payload.jti)) {
+        return { valid: false, error: 'Token revoked' };
+      }
+
+      return { valid: true, claims: payload };
+    },
+
+    /**
+     * Check the denylist, reloading it from the database when it is stale
+     */
+    async isRevoked(jti: string): Promise<boolean> {
+      const { denylistRefreshInterval } = strapi.plugin(PLUGIN_ID).config<JwtConfig>('jwt');
+      if (Date.now() - denylistLoadedAt > denylistRefreshInterval * 1000) {
+        await loadDenylist();
+      }
+
+      return denylist.has(jti);
+    },
+
+    /**
+     * Reload the denylist on the next verification, after tokens were revoked
+     */
+    invalidateDenylist() {
+      denylistLoadedAt = 0;
+    },
+  };
+};
+
+export default jwtService;
@@ -0,0 +1,121 @@
+/**
+ * Migration Service
+ *
+ * Upgrades rows written by earlier plugin versions. Runs on every bootstrap;
+ * completed one-off steps are recorded in the plugin store.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import { hashSecret, hashToken, isHashedSecret } from '../utils/hash';
+import { ENCRYPTION_KEY_ENV } from './encryption';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+interface MigrationState {
+  hashedTokens?: boolean;
+}
+
+function getMigrationStore(strapi: Core.Strapi) {
+  return strapi.store({ type: 'plugin', name: PLUGIN_ID, key: 'migrations' });
+}
+
+/**
+ * Hash client secrets that are still stored in plaintext.
+ * Hashed secrets are recognizable by their prefix, so this step is idempotent.
+ */
+async function hashClientSecrets(strapi: Core.Strapi): Promise<number> {
+  const clients = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).findMany({
+    where: { clientSecret: { $notNull: true } },
+    select: ['id', 'clientSecret'],
+  });
+
+  let migrated = 0;
+  for (const client of clients) {
+    if (!isHashedSecret(client.clientSecret)) {
+      await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-client`).update({
+        where: { id: client.id },
+        data: { clientSecret: await hashSecret(client.clientSecret) },
+      });
+      migrated++;
+    }
+  }
+
+  return migrated;
+}
+
+/**
+ * Replace plaintext codes and tokens with their SHA-256 digests.
+ * Digests look like plaintext tokens, so this runs once inside a transaction.
+ */
+async function hashCodesAndTokens(strapi: Core.Strapi): Promise<number> {
+  let migrated = 0;
+
+  await strapi.db.transaction(async () => {
+    const codes = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-code`).findMany({
+      select: ['id', 'code'],
+    });
+
+    for (const code of codes) {
+      await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-code`).update({
+        where: { id: code.id },
+        data: { code: hashToken(code.code) },
+      });
+    }
+
+    const tokens = await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-token`).findMany({
+      select: ['id', 'accessToken', 'refreshToken'],
+    });
+
+    for (const token of tokens) {
+      await strapi.db.query(`${PLUGIN_UID}.mcp-oauth-token`).update({
+        where: { id: token.id },
+        data: {
+          accessToken: hashToken(token.accessToken),
+          refreshToken: hashToken(token.refreshToken),
+        },
+      });
+    }
+
+    migrated = codes.length + tokens.length;
+  });
+
+  return migrated;
+}
+
+const migrationService = ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Run all pending migrations
+   */
+  async run() {
+    const store = getMigrationStore(strapi);
+    const state = ((await store.get()) as MigrationState) ?? {};
+
+    const secrets = await hashClientSecrets(strapi);
+    if (secrets) {
+      strapi.log.info(`[${PLUGIN_ID}] Hashed ${secrets} plaintext client secret(s)`);
+    }
+
+    // Encrypt linked API tokens under the current key (fails if stored tokens can't be decrypted)
+    const encryptionService = strapi.plugin(PLUGIN_ID).service('encryption');
+    const encrypted = await encryptionService.rotate();
+    if (encrypted) {
+      strapi.log.info(`[${PLUGIN_ID}] Encrypted ${encrypted} linked API token(s) under the current key`);
+    } else if (!encryptionService.isEnabled()) {
+      strapi.log.warn(
+        `[${PLUGIN_ID}] No encryption key configured: linked API tokens are stored in plaintext. ` +
+          `Set ${ENCRYPTION_KEY_ENV} to encrypt them.`
+      );
+    }
+
+    if (!state.hashedTokens) {
+      const rows = await hashCodesAndTokens(strapi);
+      await store.set({ value: { ...state, hashedTokens: true } });
+      if (rows) {
+        strapi.log.info(`[${PLUGIN_ID}] Hashed ${rows} stored code(s) and token(s)`);
+      }
+    }
+  },
+});
+
+export default migrationService;
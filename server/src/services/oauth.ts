@@ -5,7 +5,12 @@
  */
 
 import type { Core } from '@strapi/strapi';
+import type { AuthorizationConfig, CleanupConfig } from '../config';
 import { PLUGIN_ID } from '../pluginId';
+import type { PurgeResult, StorageAdapter } from '../storage';
+import { hashToken } from '../utils/hash';
+import { getGrantedScopes } from '../utils/scopes';
+import type { TokenUser } from './authorization';
 
 const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
 
@@ -13,42 +18,113 @@ export interface TokenValidationResult {
   valid: boolean;
   strapiApiToken?: string;
   clientId?: string;
+  scopes?: string[];
+  /** Audience of the token, or null if it is valid on every MCP endpoint */
+  resource?: string | null;
+  /** User who authorized the token, or null for client_credentials and older tokens */
+  user?: TokenUser | null;
+  expiresAt?: Date;
+  issuedAt?: Date;
   error?: string;
 }
 
+/**
+ * The configured storage adapter for codes, tokens and grants
+ */
+function getStorage(strapi: Core.Strapi): StorageAdapter {
+  return strapi.plugin(PLUGIN_ID).service('storage').get();
+}
+
+/**
+ * The user stored on a code or token, if any
+ */
+export function getTokenUser(record: any): TokenUser | null {
+  return record.userId && record.userType
+    ? { id: String(record.userId), type: record.userType }
+    : null;
+}
+
+/**
+ * Check that an access token exists, is not revoked or expired, and that its
+ * client is still active. The client is returned alongside a valid result.
+ */
+async function checkAccessToken(
+  strapi: Core.Strapi,
+  accessToken: string
+): Promise<{ result: TokenValidationResult; client?: any }> {
+  const tokenRecord = await getStorage(strapi).findTokenByAccessToken(hashToken(accessToken));
+
+  if (!tokenRecord || tokenRecord.revoked) {
+    return { result: { valid: false } };
+  }
+
+  // Check expiration
+  if (new Date(tokenRecord.expiresAt) < new Date()) {
+    return { result: { valid: false, error: 'Token expired' } };
+  }
+
+  // Get the linked OAuth client
+  const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
+    filters: { clientId: tokenRecord.clientId, active: true },
+  });
+
+  if (!client) {
+    return { result: { valid: false, error: 'Client not found' } };
+  }
+
+  return {
+    client,
+    result: {
+      valid: true,
+      clientId: client.clientId as string,
+      scopes: getGrantedScopes(tokenRecord),
+      resource: tokenRecord.resource || null,
+      user: getTokenUser(tokenRecord),
+      expiresAt: new Date(tokenRecord.expiresAt),
+      issuedAt: new Date(tokenRecord.createdAt),
+    },
+  };
+}
+
 const oauthService = ({ strapi }: { strapi: Core.Strapi }) => ({
   /**
-   * Validate an OAuth access token
+   * Validate an OAuth access token and resolve the Strapi API token its
+   * client acts with
    */
   async validateToken(accessToken: string): Promise<TokenValidationResult> {
     try {
-      const tokenRecord = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).findFirst({
-        filters: { accessToken, revoked: false },
-      });
-
-      if (!tokenRecord) {
-        return { valid: false };
+      const { result, client } = await checkAccessToken(strapi, accessToken);
+      if (!result.valid) {
+        return result;
       }
 
-      // Check expiration
-      if (new Date(tokenRecord.expiresAt as string) < new Date()) {
-        return { valid: false, error: 'Token expired' };
+      // Requests acting as a Users & Permissions user don't need the client's API token
+      const { userPermissions } = strapi
+        .plugin(PLUGIN_ID)
+        .config<AuthorizationConfig>('authorization');
+      const actsAsUser = userPermissions && result.user?.type === 'users-permissions';
+      const strapiApiToken = actsAsUser
+        ? undefined
+        : await strapi.plugin(PLUGIN_ID).service('credential').resolve(client);
+
+      if (!actsAsUser && !strapiApiToken) {
+        return { valid: false, error: 'Client has no usable API token' };
       }
 
-      // Get the linked OAuth client
-      const client = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-client`).findFirst({
-        filters: { clientId: tokenRecord.clientId as string },
-      });
-
-      if (!client) {
-        return { valid: false, error: 'Client not found' };
-      }
+      return { ...result, strapiApiToken };
+    } catch (error) {
+      strapi.log.error(`[${PLUGIN_ID}] Error validating token`, { error });
+      return { valid: false, error: 'Token validation failed' };
+    }
+  },
 
-      return {
-        valid: true,
-        strapiApiToken: client.strapiApiToken as string,
-        clientId: client.clientId as string,
-      };
+  /**
+   * Validate an OAuth access token without resolving its client's API token,
+   * for endpoints that don't act on Strapi's content API such as userinfo
+   */
+  async validateTokenRecord(accessToken: string): Promise<TokenValidationResult> {
+    try {
+      return (await checkAccessToken(strapi, accessToken)).result;
     } catch (error) {
       strapi.log.error(`[${PLUGIN_ID}] Error validating token`, { error });
       return { valid: false, error: 'Token validation failed' };
@@ -56,55 +132,109 @@ const oauthService = ({ strapi }: { strapi: Core.Strapi }) => ({
   },
 
   /**
-   * Revoke all tokens for a client
+   * Revoke a single access or refresh token issued to the given client.
+   * Returns false if no matching active token exists.
    */
-  async revokeClientTokens(clientId: string): Promise<number> {
-    const tokens = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).findMany({
-      filters: { clientId, revoked: false },
-    });
-
-    for (const token of tokens) {
-      await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).update({
-        documentId: token.documentId,
-        data: { revoked: true } as any,
-      });
+  async revokeToken(
+    token: string,
+    clientId: string,
+    tokenTypeHint?: 'access_token' | 'refresh_token'
+  ): Promise<boolean> {
+    const storage = getStorage(strapi);
+    const byAccessToken = () => storage.findTokenByAccessToken(hashToken(token));
+    const byRefreshToken = () => storage.findTokenByRefreshToken(hashToken(token));
+
+    // Look up by the hinted type first, then fall back to the other (RFC 7009 Section 2.1)
+    const lookups =
+      tokenTypeHint === 'refresh_token'
+        ? [byRefreshToken, byAccessToken]
+        : [byAccessToken, byRefreshToken];
+
+    for (const lookup of lookups) {
+      const tokenRecord = await lookup();
+      if (!tokenRecord || tokenRecord.clientId !== clientId || tokenRecord.revoked) {
+        continue;
+      }
+
+      await storage.revokeToken(tokenRecord.id);
+      strapi.plugin(PLUGIN_ID).service('jwt').invalidateDenylist();
+      strapi.plugin(PLUGIN_ID).service('token-cache').invalidateToken(tokenRecord.accessToken);
+
+      // Revoking a refresh token ends the whole grant, including tokens rotated from it
+      if (lookup === byRefreshToken) {
+        await strapi.plugin(PLUGIN_ID).service('oauth').revokeTokenFamily(tokenRecord.familyId);
+      }
+      return true;
     }
 
-    return tokens.length;
+    return false;
   },
 
   /**
-   * Clean up expired tokens and codes
+   * Revoke every active token in a refresh token family
    */
-  async cleanupExpired(): Promise<{ tokens: number; codes: number }> {
-    const now = new Date().toISOString();
-
-    // Find and delete expired codes
-    const expiredCodes = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-code`).findMany({
-      filters: { expiresAt: { $lt: now } },
-    });
-
-    for (const code of expiredCodes) {
-      await strapi.documents(`${PLUGIN_UID}.mcp-oauth-code`).delete({
-        documentId: code.documentId,
-      });
+  async revokeTokenFamily(familyId: string | null): Promise<number> {
+    if (!familyId) {
+      return 0;
     }
 
-    // Find and delete expired tokens (both access and refresh expired)
-    const expiredTokens = await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).findMany({
-      filters: { refreshExpiresAt: { $lt: now } },
-    });
+    const count = await getStorage(strapi).revokeTokens({ familyId });
+    strapi.plugin(PLUGIN_ID).service('jwt').invalidateDenylist();
+    strapi.plugin(PLUGIN_ID).service('token-cache').invalidateTokens({ familyId });
+    return count;
+  },
 
-    for (const token of expiredTokens) {
-      await strapi.documents(`${PLUGIN_UID}.mcp-oauth-token`).delete({
-        documentId: token.documentId,
-      });
-    }
+  /**
+   * Revoke all tokens for a client
+   */
+  async revokeClientTokens(clientId: string): Promise<number> {
+    const count = await getStorage(strapi).revokeTokens({ clientId });
+    strapi.plugin(PLUGIN_ID).service('jwt').invalidateDenylist();
+    strapi.plugin(PLUGIN_ID).service('token-cache').invalidateTokens({ clientId });
+    return count;
+  },
+
+  /**
+   * Revoke the tokens a user authorized for a client
+   */
+  async revokeUserTokens(clientId: string, user: TokenUser): Promise<number> {
+    const filter = { clientId, userId: user.id, userType: user.type };
+    const count = await getStorage(strapi).revokeTokens(filter);
+    strapi.plugin(PLUGIN_ID).service('jwt').invalidateDenylist();
+    const tokenCache = strapi.plugin(PLUGIN_ID).service('token-cache');
+    tokenCache.invalidateTokens(filter);
+    tokenCache.invalidateUser(user.type, user.id);
+    return count;
+  },
+
+  /**
+   * List a client's tokens that can still be used or refreshed, without their digests
+   */
+  async listClientTokens(clientId: string) {
+    const tokens = await getStorage(strapi).listActiveTokens({ clientId });
+    return tokens.map((token) => ({
+      id: token.id,
+      scope: token.scope,
+      resource: token.resource,
+      grantType: token.grantType,
+      userId: token.userId,
+      userType: token.userType,
+      familyId: token.familyId,
+      expiresAt: token.expiresAt,
+      refreshExpiresAt: token.refreshExpiresAt,
+      createdAt: token.createdAt,
+    }));
+  },
+
+  /**
+   * Delete expired codes, tokens, device authorizations and federated
+   * sign-ins, and used codes and revoked tokens older than the retention period
+   */
+  async cleanupExpired(): Promise<PurgeResult> {
+    const { retention } = strapi.plugin(PLUGIN_ID).config<CleanupConfig>('cleanup');
+    const cutoff = new Date(Date.now() - retention * 1000).toISOString();
 
-    return {
-      tokens: expiredTokens.length,
-      codes: expiredCodes.length,
-    };
+    return getStorage(strapi).purge(cutoff);
   },
 });
 
@@ -0,0 +1,126 @@
+/**
+ * Rate Limit Service
+ *
+ * Counts requests per IP address and per client for the OAuth endpoints and
+ * MCP endpoints, and temporarily locks clients that keep failing to
+ * authenticate, per IP address and, past a higher ceiling, everywhere.
+ * Store errors are logged and let the request through.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { RateLimitConfig, RateLimitRule, RateLimitScope } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { createMemoryStore, getRetryAfter, type RateLimitStore } from '../utils/rate-limit';
+
+const rateLimitService = ({ strapi }: { strapi: Core.Strapi }) => {
+  let memoryStore: RateLimitStore | null = null;
+
+  const getConfig = () => strapi.plugin(PLUGIN_ID).config<RateLimitConfig>('rateLimit');
+  const getStore = () => getConfig().store ?? (memoryStore ??= createMemoryStore());
+
+  const isLockoutEnabled = () => {
+    const { enabled, lockout } = getConfig();
+    return enabled && !!(lockout.maxFailures || lockout.maxClientFailures);
+  };
+
+  return {
+    /**
+     * Count a request against the IP or client limit of a scope. Only count
+     * clients that have authenticated, or anyone could use up their limit.
+     * Returns the seconds to wait if the limit is exceeded, otherwise null.
+     */
+    async hit(scope: RateLimitScope, kind: 'ip' | 'client', id: string): Promise<number | null> {
+      const config = getConfig();
+      const rule: Partial<RateLimitRule> = config[scope];
+      const max = rule[kind];
+      if (!config.enabled || !max || !id) {
+        return null;
+      }
+
+      try {
+        const entry = await getStore().increment(`${scope}:${kind}:${id}`, config.window * 1000);
+        return entry.count > max ? getRetryAfter(entry) : null;
+      } catch (error) {
+        strapi.log.error(`[${PLUGIN_ID}] Rate limit store failed`, { error });
+        return null;
+      }
+    },
+
+    /**
+     * Seconds until a client may authenticate again from an IP address, or
+     * null if neither the client nor the client on that address is locked
+     */
+    async getLockout(clientId: string, ip: string): Promise<number | null> {
+      if (!isLockoutEnabled() || !clientId) {
+        return null;
+      }
+
+      try {
+        const store = getStore();
+        const locks = await Promise.all([
+          store.get(`lockout:${clientId}:${ip}`),
+          store.get(`lockout:${clientId}`),
+        ]);
+        const retryAfter = locks.filter(Boolean).map(getRetryAfter);
+        return retryAfter.length ? Math.max(...retryAfter) : null;
+      } catch (error) {
+        strapi.log.error(`[${PLUGIN_ID}] Rate limit store failed`, { error });
+        return null;
+      }
+    },
+
+    /**
+     * Count a failed client authentication. Too many from one IP address lock
+     * the client on that address only, so anyone who knows a client_id can't
+     * lock the client out everywhere. If maxClientFailures is set, that many
+     * from all addresses together lock the client itself.
+     */
+    async recordAuthFailure(clientId: string, ip: string) {
+      if (!isLockoutEnabled() || !clientId) {
+        return;
+      }
+
+      const { lockout } = getConfig();
+      const store = getStore();
+      const lock = async (key: string, max: number | null) => {
+        const failures = await store.increment(`auth-failures:${key}`, lockout.window * 1000);
+        if (!max || failures.count < max) {
+          return;
+        }
+
+        await store.increment(`lockout:${key}`, lockout.duration * 1000);
+        await store.reset(`auth-failures:${key}`);
+        strapi.log.warn(
+          `[${PLUGIN_ID}] [audit] client_locked client=${clientId} ip=${ip} ` +
+            `scope=${key === clientId ? 'client' : 'ip'} failures=${failures.count} ` +
+            `duration=${lockout.duration}s`
+        );
+      };
+
+      try {
+        await lock(`${clientId}:${ip}`, lockout.maxFailures);
+        await lock(clientId, lockout.maxClientFailures);
+      } catch (error) {
+        strapi.log.error(`[${PLUGIN_ID}] Rate limit store failed`, { error });
+      }
+    },
+
+    /**
+     * Forget failed authentications from an IP address after the client
+     * authenticated successfully from it
+     */
+    async clearAuthFailures(clientId: string, ip: string) {
+      if (!isLockoutEnabled()) {
+        return;
+      }
+
+      try {
+        await getStore().reset(`auth-failures:${clientId}:${ip}`);
+      } catch (error) {
+        strapi.log.error(`[${PLUGIN_ID}] Rate limit store failed`, { error });
+      }
+    },
+  };
+};
+
+export default rateLimitService;
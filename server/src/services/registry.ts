@@ -0,0 +1,186 @@
+/**
+ * Registry Service
+ *
+ * MCP plugins declare their endpoints here, usually in their register phase:
+ *
+ *   strapi.plugin('strapi-oauth-mcp-manager').service('registry').register({
+ *     pluginId: 'my-mcp-plugin',
+ *     path: '/api/my-mcp-plugin/mcp',
+ *     name: 'My MCP Plugin',
+ *   });
+ *
+ * The middleware, protected resource metadata and admin panel read from it.
+ * Paths that match mcpEndpointPattern but were not declared stay protected
+ * with the defaults.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { ScopesConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { getMcpEndpointPath, getMcpEndpointPattern } from '../utils/resource';
+import { DEFAULT_SCOPE, matchesPathPrefix } from '../utils/scopes';
+
+export interface McpEndpointDeclaration {
+  /** Plugin serving the endpoint */
+  pluginId: string;
+  /** Path of the MCP endpoint. Sub-paths are protected too. */
+  path: string;
+  /** Name shown on the consent screen and in the admin panel (default: pluginId) */
+  name?: string;
+  description?: string;
+  /** Scopes that unlock the endpoint, in addition to the built-in mcp scope */
+  scopes?: string[];
+  /** Accept Strapi API tokens as bearer tokens (default: allowDirectApiTokens) */
+  allowApiTokens?: boolean;
+  /** Sub-paths served without authentication, e.g. /health */
+  publicPaths?: string[];
+}
+
+export interface McpEndpoint {
+  pluginId: string;
+  path: string;
+  name: string;
+  description: string | null;
+  scopes: string[];
+  allowApiTokens: boolean | null;
+  publicPaths: string[];
+  /** False for endpoints only matched by mcpEndpointPattern */
+  declared: boolean;
+}
+
+const normalizePath = (path: string) => path.replace(/\/+$/, '') || '/';
+
+/**
+ * Check a declaration and fill in the defaults. Throws on invalid input.
+ */
+function toEndpoint(declaration: McpEndpointDeclaration): McpEndpoint {
+  const { pluginId, path, name, description, scopes, allowApiTokens, publicPaths } =
+    declaration ?? ({} as McpEndpointDeclaration);
+  const isPath = (value: unknown) => typeof value === 'string' && value.startsWith('/');
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string' && item);
+
+  const errors = [
+    !(typeof pluginId === 'string' && pluginId) && 'pluginId is required',
+    !isPath(path) && 'path must start with /',
+    scopes !== undefined && !isStringList(scopes) && 'scopes must be a list of scope names',
+    allowApiTokens !== undefined &&
+      typeof allowApiTokens !== 'boolean' &&
+      'allowApiTokens must be a boolean',
+    publicPaths !== undefined &&
+      !(Array.isArray(publicPaths) && publicPaths.every(isPath)) &&
+      'publicPaths must be a list of paths starting with /',
+  ].filter(Boolean);
+
+  if (errors.length) {
+    throw new Error(`[${PLUGIN_ID}] Invalid MCP endpoint declaration: ${errors.join(', ')}`);
+  }
+
+  return {
+    pluginId,
+    path: normalizePath(path),
+    name: name || pluginId,
+    description: description ?? null,
+    scopes: (scopes ?? []).filter((scope) => scope !== DEFAULT_SCOPE),
+    allowApiTokens: allowApiTokens ?? null,
+    publicPaths: (publicPaths ?? []).map(normalizePath),
+    declared: true,
+  };
+}
+
+const registryService = ({ strapi }: { strapi: Core.Strapi }) => {
+  const endpoints = new Map<string, McpEndpoint>();
+  let fallbackPattern: RegExp | null = null;
+
+  return {
+    /**
+     * Declare an MCP endpoint. Declaring the same path again replaces it.
+     */
+    register(declaration: McpEndpointDeclaration): McpEndpoint {
+      const endpoint = toEndpoint(declaration);
+      const existing = endpoints.get(endpoint.path);
+
+      if (existing && existing.pluginId !== endpoint.pluginId) {
+        throw new Error(
+          `[${PLUGIN_ID}] MCP endpoint ${endpoint.path} is already registered by ${existing.pluginId}`
+        );
+      }
+
+      endpoints.set(endpoint.path, endpoint);
+      strapi.log.debug(`[${PLUGIN_ID}] Registered MCP endpoint ${endpoint.path} (${endpoint.pluginId})`);
+      return endpoint;
+    },
+
+    /**
+     * Remove a declared endpoint. It falls back to mcpEndpointPattern afterwards.
+     */
+    unregister(path: string): boolean {
+      return endpoints.delete(normalizePath(path));
+    },
+
+    /**
+     * Declared endpoints
+     */
+    list(): McpEndpoint[] {
+      return [...endpoints.values()].sort((a, b) => a.path.localeCompare(b.path));
+    },
+
+    /**
+     * Find the endpoint a request path belongs to: the longest declared path
+     * that prefixes it, then mcpEndpointPattern. Returns null for unprotected paths.
+     */
+    resolve(path: string): { endpoint: McpEndpoint; isPublic: boolean } | null {
+      const declared = [...endpoints.values()]
+        .filter((endpoint) => matchesPathPrefix(path, endpoint.path))
+        .sort((a, b) => b.path.length - a.path.length)[0];
+
+      if (declared) {
+        const isPublic = declared.publicPaths.some((publicPath) =>
+          matchesPathPrefix(path, `${declared.path}${publicPath}`)
+        );
+        return { endpoint: declared, isPublic };
+      }
+
+      fallbackPattern ??= getMcpEndpointPattern(strapi);
+      if (!fallbackPattern.test(path)) {
+        return null;
+      }
+
+      const endpointPath = getMcpEndpointPath(path);
+      const pluginId = endpointPath.split('/')[2] ?? endpointPath;
+      return {
+        endpoint: {
+          pluginId,
+          path: endpointPath,
+          name: pluginId,
+          description: null,
+          scopes: [],
+          allowApiTokens: null,
+          publicPaths: [],
+          declared: false,
+        },
+        isPublic: false,
+      };
+    },
+
+    /**
+     * The configured scopes, extended with the scopes declared by endpoints
+     */
+    getScopesConfig(): ScopesConfig {
+      const scopes: ScopesConfig = { ...strapi.plugin(PLUGIN_ID).config<ScopesConfig>('scopes') };
+
+      for (const endpoint of endpoints.values()) {
+        for (const scope of endpoint.scopes) {
+          scopes[scope] = {
+            description: scopes[scope]?.description ?? `Access ${endpoint.name}`,
+            paths: [...(scopes[scope]?.paths ?? []), endpoint.path],
+          };
+        }
+      }
+
+      return scopes;
+    },
+  };
+};
+
+export default registryService;
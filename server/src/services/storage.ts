@@ -0,0 +1,81 @@
+/**
+ * Storage Service
+ *
+ * Resolves the storage adapter for codes, tokens, grants and device
+ * authorizations selected by storage.adapter. Other plugins can add adapters
+ * in their register phase:
+ *
+ *   strapi.plugin('strapi-oauth-mcp-manager').service('storage').registerAdapter(
+ *     'redis',
+ *     ({ strapi }) => createRedisStorage(strapi)
+ *   );
+ *
+ * The adapter is created on first use and kept for the life of the process.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { StorageConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { isStorageAdapter, type StorageAdapter, type StorageAdapterFactory } from '../storage';
+import { createDatabaseStorage } from '../storage/database';
+import { createMemoryStorage } from '../storage/memory';
+
+const storageService = ({ strapi }: { strapi: Core.Strapi }) => {
+  const factories = new Map<string, StorageAdapterFactory>([
+    ['database', createDatabaseStorage],
+    ['memory', () => createMemoryStorage()],
+  ]);
+  let adapter: StorageAdapter | null = null;
+
+  return {
+    /**
+     * Make an adapter available under a name for storage.adapter.
+     * Throws if the name is taken.
+     */
+    registerAdapter(name: string, factory: StorageAdapterFactory) {
+      if (factories.has(name)) {
+        throw new Error(`[${PLUGIN_ID}] Storage adapter '${name}' is already registered`);
+      }
+      if (typeof factory !== 'function') {
+        throw new Error(`[${PLUGIN_ID}] Storage adapter '${name}' must be a factory function`);
+      }
+      factories.set(name, factory);
+    },
+
+    /**
+     * Names of the available adapters
+     */
+    listAdapters(): string[] {
+      return [...factories.keys()];
+    },
+
+    /**
+     * The configured adapter. Throws if it is unknown or incomplete.
+     */
+    get(): StorageAdapter {
+      if (adapter) {
+        return adapter;
+      }
+
+      const name = strapi.plugin(PLUGIN_ID).config<StorageConfig>('storage').adapter;
+      const factory = factories.get(name);
+      if (!factory) {
+        throw new Error(
+          `[${PLUGIN_ID}] Unknown storage adapter '${name}'. Available: ${[...factories.keys()].join(', ')}`
+        );
+      }
+
+      const created = factory({ strapi });
+      if (!isStorageAdapter(created)) {
+        throw new Error(
+          `[${PLUGIN_ID}] Storage adapter '${name}' does not implement the StorageAdapter interface`
+        );
+      }
+
+      adapter = created;
+      return adapter;
+    },
+  };
+};
+
+export default storageService;
@@ -0,0 +1,219 @@
+/**
+ * Token Cache Service
+ *
+ * Keeps opaque access tokens validated by the MCP middleware, and the OAuth
+ * clients and users they resolve to, in process memory so chatty MCP
+ * sessions don't look them up on every request. Entries live for
+ * tokenCache.ttl seconds at most, and never past the token's expiry.
+ * Revoking tokens and changing or deleting clients or users invalidates the
+ * affected entries; on other instances they expire after the TTL.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { TokenCacheConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { matchesTokenFilter, type TokenFilter } from '../storage';
+import type { McpUser, TokenUser, UserType } from './authorization';
+
+export interface CachedToken {
+  clientId: string;
+  familyId: string | null;
+  userId: string | null;
+  userType: UserType | null;
+  resource: string | null;
+  scopes: string[];
+  expiresAt: Date;
+}
+
+export interface CachedClient {
+  /** Null when resolved for a request acting as the token's user */
+  strapiApiToken: string | null;
+}
+
+export interface CachedUser {
+  user: McpUser;
+  /** The user record, without private fields */
+  record: any;
+}
+
+export interface CacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+interface Entry<T> {
+  value: T;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Map bounded to maxEntries that evicts the least recently used entry
+ */
+function createBoundedCache<T>(getMaxEntries: () => number) {
+  const entries = new Map<string, Entry<T>>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  return {
+    get(key: string): T | null {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        misses++;
+        return null;
+      }
+
+      // Move to the end so the oldest entry is the least recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+
+    set(key: string, value: T, expiresAt: number) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt });
+
+      while (entries.size > getMaxEntries()) {
+        entries.delete(entries.keys().next().value);
+        evictions++;
+      }
+    },
+
+    delete(key: string) {
+      entries.delete(key);
+    },
+
+    deleteWhere(predicate: (value: T) => boolean): number {
+      let count = 0;
+      for (const [key, entry] of entries) {
+        if (predicate(entry.value)) {
+          entries.delete(key);
+          count++;
+        }
+      }
+      return count;
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    stats(): CacheStats {
+      return { size: entries.size, hits, misses, evictions };
+    },
+  };
+}
+
+const tokenCacheService = ({ strapi }: { strapi: Core.Strapi }) => {
+  const getConfig = () => strapi.plugin(PLUGIN_ID).config<TokenCacheConfig>('tokenCache');
+  const tokens = createBoundedCache<CachedToken>(() => getConfig().maxEntries);
+  const clients = createBoundedCache<CachedClient>(() => getConfig().maxEntries);
+  const users = createBoundedCache<CachedUser>(() => getConfig().maxEntries);
+  const userKey = (user: TokenUser) => `${user.type}:${user.id}`;
+
+  const expiresAt = (cap?: Date) => {
+    const expiry = Date.now() + getConfig().ttl * 1000;
+    return cap ? Math.min(expiry, cap.getTime()) : expiry;
+  };
+
+  return {
+    /**
+     * A validated token by its digest
+     */
+    getToken(tokenHash: string): CachedToken | null {
+      return getConfig().enabled ? tokens.get(tokenHash) : null;
+    },
+
+    setToken(tokenHash: string, token: CachedToken) {
+      if (getConfig().enabled) {
+        tokens.set(tokenHash, token, expiresAt(token.expiresAt));
+      }
+    },
+
+    /**
+     * An active client by its clientId
+     */
+    getClient(clientId: string): CachedClient | null {
+      return getConfig().enabled ? clients.get(clientId) : null;
+    },
+
+    setClient(clientId: string, client: CachedClient) {
+      if (getConfig().enabled) {
+        clients.set(clientId, client, expiresAt());
+      }
+    },
+
+    /**
+     * An existing, unblocked user who authorized a token
+     */
+    getUser(user: TokenUser): CachedUser | null {
+      return getConfig().enabled ? users.get(userKey(user)) : null;
+    },
+
+    setUser(user: TokenUser, found: CachedUser) {
+      if (getConfig().enabled) {
+        users.set(userKey(user), found, expiresAt());
+      }
+    },
+
+    /**
+     * Forget one token, e.g. after it was revoked or rotated
+     */
+    invalidateToken(tokenHash: string) {
+      tokens.delete(tokenHash);
+    },
+
+    /**
+     * Forget the tokens matching every field set on the filter
+     */
+    invalidateTokens(filter: TokenFilter): number {
+      return tokens.deleteWhere((token) => matchesTokenFilter(token, filter));
+    },
+
+    /**
+     * Forget a client after it was changed or deleted, or every client when
+     * the clientId is unknown (e.g. after a bulk update)
+     */
+    invalidateClient(clientId?: string | null) {
+      if (clientId) {
+        clients.delete(clientId);
+      } else {
+        clients.clear();
+      }
+    },
+
+    /**
+     * Forget a user after it was changed or deleted, or every user of a type
+     * when the id is unknown (e.g. after a bulk update)
+     */
+    invalidateUser(type: UserType, id?: string | number | null) {
+      if (id != null) {
+        users.delete(userKey({ id: String(id), type }));
+      } else {
+        users.deleteWhere((cached) => cached.user.type === type);
+      }
+    },
+
+    /**
+     * Entry counts and hit/miss counters since startup, for tuning ttl and maxEntries
+     */
+    stats() {
+      const { enabled, ttl, maxEntries } = getConfig();
+      return {
+        enabled,
+        ttl,
+        maxEntries,
+        tokens: tokens.stats(),
+        clients: clients.stats(),
+        users: users.stats(),
+      };
+    },
+  };
+};
+
+export default tokenCacheService;
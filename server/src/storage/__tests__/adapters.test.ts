@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createStrapi } from '../../__tests__/strapi';
+import { PLUGIN_ID } from '../../pluginId';
+import type { CodeRecord, NewTokenRecord, StorageAdapter } from '..';
+
+const HOUR = 60 * 60 * 1000;
+const ADMIN = { userId: '1', userType: 'admin' as const };
+
+const inHours = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+
+const code = (overrides: Partial<CodeRecord> = {}): CodeRecord => ({
+  code: 'code',
+  clientId: 'client',
+  redirectUri: 'https://client.example/callback',
+  ...ADMIN,
+  scope: 'mcp',
+  resource: null,
+  codeChallenge: null,
+  codeChallengeMethod: null,
+  nonce: null,
+  expiresAt: inHours(1),
+  used: false,
+  ...overrides,
+});
+
+const token = (overrides: Partial<NewTokenRecord> = {}): NewTokenRecord => ({
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  clientId: 'client',
+  ...ADMIN,
+  scope: 'mcp',
+  resource: null,
+  grantType: 'authorization_code',
+  familyId: 'family',
+  jti: null,
+  expiresAt: inHours(1),
+  refreshExpiresAt: inHours(24),
+  ...overrides,
+});
+
+describe.each(['database', 'memory'])('storage with the %s adapter', (adapter) => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    const strapi = createStrapi({ config: { storage: { adapter } } });
+    storage = strapi.plugin(PLUGIN_ID).service('storage').get();
+  });
+
+  it('redeems an authorization code once', async () => {
+    await storage.saveCode(code({ nonce: 'nonce' }));
+
+    expect(await storage.findCode('code')).toMatchObject({ clientId: 'client', nonce: 'nonce' });
+    expect(await storage.useCode('code')).toBe(true);
+    expect(await storage.useCode('code')).toBe(false);
+    expect(await storage.findCode('code')).toMatchObject({ used: true });
+    expect(await storage.findCode('unknown')).toBeNull();
+  });
+
+  it('finds tokens by access and refresh token and revokes them once', async () => {
+    const saved = await storage.saveToken(token());
+
+    expect(saved).toMatchObject({ revoked: false, rotatedAt: null, replayedAt: null });
+    expect((await storage.findTokenByAccessToken('access'))!.id).toBe(saved.id);
+    expect((await storage.findTokenByRefreshToken('refresh'))!.id).toBe(saved.id);
+
+    const rotatedAt = new Date().toISOString();
+    expect(await storage.revokeToken(saved.id, rotatedAt)).toBe(true);
+    expect(await storage.revokeToken(saved.id)).toBe(false);
+    expect(await storage.findTokenByAccessToken('access')).toMatchObject({
+      revoked: true,
+      rotatedAt,
+    });
+
+    expect(await storage.markTokenReplayed(saved.id)).toBe(true);
+    expect(await storage.markTokenReplayed(saved.id)).toBe(false);
+  });
+
+  it('revokes and lists tokens by filter', async () => {
+    await storage.saveToken(token({ accessToken: 'a', refreshToken: null, jti: 'jti-a' }));
+    await storage.saveToken(token({ accessToken: 'b', refreshToken: null, clientId: 'other' }));
+    await storage.saveToken(
+      token({
+        accessToken: 'c',
+        refreshToken: null,
+        expiresAt: inHours(-2),
+        refreshExpiresAt: inHours(-1),
+      })
+    );
+
+    expect(await storage.listActiveTokens({ clientId: 'client' })).toHaveLength(1);
+    expect(await storage.revokeTokens({ clientId: 'client', ...ADMIN })).toBe(2);
+    expect(await storage.revokeTokens({ clientId: 'client' })).toBe(0);
+    expect(await storage.listActiveTokens({ ...ADMIN })).toEqual([
+      expect.objectContaining({ accessToken: 'b' }),
+    ]);
+    expect(await storage.listRevokedJtis()).toEqual(['jti-a']);
+  });
+
+  it('keeps one active grant per client and user', async () => {
+    const grant = await storage.saveGrant({ clientId: 'client', ...ADMIN, scope: 'mcp' });
+    await storage.saveGrant({ clientId: 'client', userId: '2', userType: 'admin', scope: null });
+
+    expect(await storage.findGrant('client', '1', 'admin')).toMatchObject({ id: grant.id });
+    expect(await storage.updateGrantScope(grant.id, 'mcp openid')).toMatchObject({
+      scope: 'mcp openid',
+    });
+    expect(await storage.listGrants({ clientId: 'client' })).toHaveLength(2);
+
+    expect(await storage.revokeGrants('client', '1', 'admin')).toBe(1);
+    expect(await storage.findGrant('client', '1', 'admin')).toBeNull();
+    expect(await storage.listGrants({ ...ADMIN })).toEqual([]);
+    expect(await storage.revokeGrant(grant.id)).toMatchObject({ revoked: true });
+    expect(await storage.revokeGrant('unknown')).toBeNull();
+  });
+
+  it('decides and redeems a device authorization once', async () => {
+    const deviceCode = await storage.saveDeviceCode({
+      deviceCode: 'device',
+      userCode: 'USERCODE',
+      clientId: 'client',
+      scope: 'mcp',
+      resource: null,
+      interval: 5,
+      expiresAt: inHours(1),
+    });
+
+    expect(await storage.findPendingDeviceCode('USERCODE')).toMatchObject({ id: deviceCode.id });
+    expect(await storage.useDeviceCode(deviceCode.id)).toBe(false);
+
+    await storage.updateDevicePoll(deviceCode.id, new Date().toISOString(), 10);
+    expect(await storage.decideDeviceCode(deviceCode.id, 'approved', '1', 'admin')).toBe(true);
+    expect(await storage.decideDeviceCode(deviceCode.id, 'denied', '1', 'admin')).toBe(false);
+    expect(await storage.findPendingDeviceCode('USERCODE')).toBeNull();
+    expect(await storage.findDeviceCode('device')).toMatchObject({
+      status: 'approved',
+      interval: 10,
+      ...ADMIN,
+    });
+
+    expect(await storage.useDeviceCode(deviceCode.id)).toBe(true);
+    expect(await storage.useDeviceCode(deviceCode.id)).toBe(false);
+  });
+
+  it('hands a federated sign-in back once, to the browser that started it', async () => {
+    await storage.saveFederationState({
+      state: 'state',
+      browser: 'browser',
+      nonce: 'nonce',
+      codeVerifier: 'verifier',
+      request: { clientId: 'client', redirectUri: 'https://client.example/callback' } as any,
+      expiresAt: inHours(1),
+    });
+
+    expect(await storage.takeFederationState('state', 'other-browser')).toBeNull();
+    expect(await storage.takeFederationState('state', 'browser')).toMatchObject({
+      nonce: 'nonce',
+      request: { clientId: 'client' },
+    });
+    expect(await storage.takeFederationState('state', 'browser')).toBeNull();
+  });
+
+  it('purges expired records, and spent ones changed before the cutoff', async () => {
+    await storage.saveCode(code({ code: 'expired', expiresAt: inHours(-1) }));
+    await storage.saveCode(code({ code: 'used' }));
+    await storage.useCode('used');
+    await storage.saveToken(token({ accessToken: 'expired', refreshExpiresAt: inHours(-1) }));
+    const revoked = await storage.saveToken(token({ accessToken: 'revoked', refreshToken: null }));
+    await storage.revokeToken(revoked.id);
+    await storage.saveFederationState({
+      state: 'state',
+      browser: 'browser',
+      nonce: 'nonce',
+      codeVerifier: 'verifier',
+      request: {} as any,
+      expiresAt: inHours(-1),
+    });
+
+    expect(await storage.purge(inHours(-1))).toEqual({
+      codes: 1,
+      tokens: 1,
+      deviceCodes: 0,
+      federationStates: 1,
+    });
+    expect(await storage.purge(inHours(1))).toMatchObject({ codes: 1, tokens: 1 });
+    expect(await storage.findTokenByAccessToken('revoked')).toBeNull();
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Database storage
+ *
+ * Keeps codes, tokens, grants, device authorizations and federated sign-ins
+ * in the plugin's content types, using the query engine directly rather than
+ * the Document Service. Records are
+ * identified by their documentId. This is the default adapter.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { PLUGIN_ID } from '../pluginId';
+import type {
+  CodeRecord,
+  DeviceCodeRecord,
+  FederationStateRecord,
+  GrantRecord,
+  StorageAdapter,
+  TokenFilter,
+  TokenRecord,
+} from './index';
+
+const PLUGIN_UID = `plugin::${PLUGIN_ID}` as const;
+
+const CODE_UID = `${PLUGIN_UID}.mcp-oauth-code` as const;
+const TOKEN_UID = `${PLUGIN_UID}.mcp-oauth-token` as const;
+const GRANT_UID = `${PLUGIN_UID}.mcp-oauth-grant` as const;
+const DEVICE_CODE_UID = `${PLUGIN_UID}.mcp-oauth-device-code` as const;
+const FEDERATION_STATE_UID = `${PLUGIN_UID}.mcp-oauth-federation-state` as const;
+
+/**
+ * Datetime columns come back as Date or string depending on the database
+ */
+function toIso(value: unknown): string | null {
+  if (!value) {
+    return null;
+  }
+  return value instanceof Date ? value.toISOString() : new Date(value as string).toISOString();
+}
+
+function toCodeRecord(row: any): CodeRecord | null {
+  return row
+    ? {
+        code: row.code,
+        clientId: row.clientId,
+        redirectUri: row.redirectUri,
+        userId: row.userId ?? null,
+        userType: row.userType ?? null,
+        scope: row.scope ?? null,
+        resource: row.resource ?? null,
+        codeChallenge: row.codeChallenge ?? null,
+        codeChallengeMethod: row.codeChallengeMethod ?? null,
+        nonce: row.nonce ?? null,
+        expiresAt: toIso(row.expiresAt)!,
+        used: !!row.used,
+      }
+    : null;
+}
+
+function toTokenRecord(row: any): TokenRecord | null {
+  return row
+    ? {
+        id: row.documentId,
+        accessToken: row.accessToken,
+        refreshToken: row.refreshToken ?? null,
+        clientId: row.clientId,
+        userId: row.userId ?? null,
+        userType: row.userType ?? null,
+        scope: row.scope ?? null,
+        resource: row.resource ?? null,
+        grantType: row.grantType ?? null,
+        familyId: row.familyId ?? null,
+        jti: row.jti ?? null,
+        expiresAt: toIso(row.expiresAt)!,
+        refreshExpiresAt: toIso(row.refreshExpiresAt)!,
+        revoked: !!row.revoked,
+        rotatedAt: toIso(row.rotatedAt),
+        replayedAt: toIso(row.replayedAt),
+        createdAt: toIso(row.createdAt)!,
+        updatedAt: toIso(row.updatedAt)!,
+      }
+    : null;
+}
+
+function toGrantRecord(row: any): GrantRecord | null {
+  return row
+    ? {
+        id: row.documentId,
+        clientId: row.clientId,
+        userId: row.userId,
+        userType: row.userType,
+        scope: row.scope ?? null,
+        revoked: !!row.revoked,
+        createdAt: toIso(row.createdAt)!,
+        updatedAt: toIso(row.updatedAt)!,
+      }
+    : null;
+}
+
+function toDeviceCodeRecord(row: any): DeviceCodeRecord | null {
+  return row
+    ? {
+        id: row.documentId,
+        deviceCode: row.deviceCode,
+        userCode: row.userCode,
+        clientId: row.clientId,
+        scope: row.scope ?? null,
+        resource: row.resource ?? null,
+        status: row.status,
+        userId: row.userId ?? null,
+        userType: row.userType ?? null,
+        interval: row.interval,
+        lastPolledAt: toIso(row.lastPolledAt),
+        expiresAt: toIso(row.expiresAt)!,
+      }
+    : null;
+}
+
+function toFederationStateRecord(row: any): FederationStateRecord {
+  return {
+    state: row.state,
+    browser: row.browser,
+    nonce: row.nonce,
+    codeVerifier: row.codeVerifier,
+    request: row.request,
+    expiresAt: toIso(row.expiresAt)!,
+  };
+}
+
+/**
+ * Query conditions for the fields set on a filter
+ */
+function toWhere(filter: TokenFilter | Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined));
+}
+
+export function createDatabaseStorage({ strapi }: { strapi: Core.Strapi }): StorageAdapter {
+  const codes = () => strapi.db.query(CODE_UID);
+  const tokens = () => strapi.db.query(TOKEN_UID);
+  const grants = () => strapi.db.query(GRANT_UID);
+  const deviceCodes = () => strapi.db.query(DEVICE_CODE_UID);
+  const federationStates = () => strapi.db.query(FEDERATION_STATE_UID);
+
+  return {
+    async saveCode(code) {
+      await codes().create({ data: code });
+    },
+
+    async findCode(code) {
+      return toCodeRecord(await codes().findOne({ where: { code } }));
+    },
+
+    async useCode(code) {
+      const { count } = await codes().updateMany({
+        where: { code, used: false },
+        data: { used: true },
+      });
+      return count > 0;
+    },
+
+    async saveToken(token) {
+      return toTokenRecord(await tokens().create({ data: { ...token, revoked: false } }))!;
+    },
+
+    async findTokenByAccessToken(accessToken) {
+      return toTokenRecord(await tokens().findOne({ where: { accessToken } }));
+    },
+
+    async findTokenByRefreshToken(refreshToken) {
+      return toTokenRecord(await tokens().findOne({ where: { refreshToken } }));
+    },
+
+    async revokeToken(id, rotatedAt) {
+      const { count } = await tokens().updateMany({
+        where: { documentId: id, revoked: false },
+        data: { revoked: true, ...(rotatedAt && { rotatedAt }) },
+      });
+      return count > 0;
+    },
+
+    async markTokenReplayed(id) {
+      const { count } = await tokens().updateMany({
+        where: { documentId: id, replayedAt: { $null: true } },
+        data: { replayedAt: new Date().toISOString() },
+      });
+      return count > 0;
+    },
+
+    async revokeTokens(filter) {
+      const { count } = await tokens().updateMany({
+        where: { ...toWhere(filter), revoked: false },
+        data: { revoked: true },
+      });
+      return count;
+    },
+
+    async listActiveTokens(filter) {
+      const rows = await tokens().findMany({
+        where: {
+          ...toWhere(filter),
+          revoked: false,
+          refreshExpiresAt: { $gt: new Date().toISOString() },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      return rows.map(toTokenRecord);
+    },
+
+    async listRevokedJtis() {
+      const rows = await tokens().findMany({
+        where: {
+          revoked: true,
+          jti: { $notNull: true },
+          expiresAt: { $gt: new Date().toISOString() },
+        },
+        select: ['jti'],
+      });
+      return rows.map((row) => row.jti);
+    },
+
+    async findGrant(clientId, userId, userType) {
+      return toGrantRecord(
+        await grants().findOne({ where: { clientId, userId, userType, revoked: false } })
+      );
+    },
+
+    async listGrants(filter) {
+      const rows = await grants().findMany({
+        where: { ...toWhere(filter), revoked: false },
+        orderBy: { updatedAt: 'desc' },
+      });
+      return rows.map(toGrantRecord);
+    },
+
+    async saveGrant(grant) {
+      return toGrantRecord(await grants().create({ data: { ...grant, revoked: false } }))!;
+    },
+
+    async updateGrantScope(id, scope) {
+      return toGrantRecord(await grants().update({ where: { documentId: id }, data: { scope } }));
+    },
+
+    async revokeGrant(id) {
+      return toGrantRecord(
+        await grants().update({ where: { documentId: id }, data: { revoked: true } })
+      );
+    },
+
+    async revokeGrants(clientId, userId, userType) {
+      const { count } = await grants().updateMany({
+        where: { clientId, userId, userType, revoked: false },
+        data: { revoked: true },
+      });
+      return count;
+    },
+
+    async saveDeviceCode(deviceCode) {
+      return toDeviceCodeRecord(
+        await deviceCodes().create({ data: { ...deviceCode, status: 'pending' } })
+      )!;
+    },
+
+    async findDeviceCode(deviceCode) {
+      return toDeviceCodeRecord(await deviceCodes().findOne({ where: { deviceCode } }));
+    },
+
+    async findPendingDeviceCode(userCode) {
+      return toDeviceCodeRecord(
+        await deviceCodes().findOne({ where: { userCode, status: 'pending' } })
+      );
+    },
+
+    async decideDeviceCode(id, status, userId, userType) {
+      const { count } = await deviceCodes().updateMany({
+        where: {
+          documentId: id,
+          status: 'pending',
+          expiresAt: { $gt: new Date().toISOString() },
+        },
+        data: { status, userId, userType },
+      });
+      return count > 0;
+    },
+
+    async updateDevicePoll(id, lastPolledAt, interval) {
+      await deviceCodes().update({ where: { documentId: id }, data: { lastPolledAt, interval } });
+    },
+
+    async useDeviceCode(id) {
+      const { count } = await deviceCodes().updateMany({
+        where: { documentId: id, status: 'approved' },
+        data: { status: 'used' },
+      });
+      return count > 0;
+    },
+
+    async saveFederationState(state) {
+      await federationStates().create({ data: state });
+    },
+
+    async takeFederationState(state, browser) {
+      const row = await federationStates().findOne({ where: { state, browser } });
+      if (!row) {
+        return null;
+      }
+
+      // Only the request that deletes the row may continue the sign-in
+      const { count } = await federationStates().deleteMany({ where: { id: row.id } });
+      return count > 0 ? toFederationStateRecord(row) : null;
+    },
+
+    async purge(cutoff) {
+      const now = new Date().toISOString();
+
+      const deletedCodes = await codes().deleteMany({
+        where: {
+          $or: [{ expiresAt: { $lt: now } }, { used: true, updatedAt: { $lt: cutoff } }],
+        },
+      });
+
+      // Revoked tokens are kept until the cutoff so refresh token reuse can be detected
+      const deletedTokens = await tokens().deleteMany({
+        where: {
+          $or: [{ refreshExpiresAt: { $lt: now } }, { revoked: true, updatedAt: { $lt: cutoff } }],
+        },
+      });
+
+      const deletedDeviceCodes = await deviceCodes().deleteMany({
+        where: { $or: [{ expiresAt: { $lt: now } }, { status: 'used' }] },
+      });
+
+      const deletedFederationStates = await federationStates().deleteMany({
+        where: { expiresAt: { $lt: now } },
+      });
+
+      return {
+        codes: deletedCodes.count,
+        tokens: deletedTokens.count,
+        deviceCodes: deletedDeviceCodes.count,
+        federationStates: deletedFederationStates.count,
+      };
+    },
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Storage adapters
+ *
+ * Authorization codes, tokens, consent grants, device authorizations and
+ * pending federated sign-ins are kept behind this interface. The database
+ * adapter stores them in the plugin's content types;
+ * the memory adapter keeps them in the process. Other plugins can register
+ * their own adapter (e.g. Redis) with the storage service and select it with
+ * the storage.adapter config.
+ *
+ * Codes and tokens, including device and user codes and federation states,
+ * are stored by the SHA-256 digest of their value, never in plaintext. Dates
+ * are ISO strings.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { AuthorizationRequest, UserType } from '../services/authorization';
+
+export interface CodeRecord {
+  /** Digest of the code */
+  code: string;
+  clientId: string;
+  redirectUri: string;
+  userId: string | null;
+  userType: UserType | null;
+  scope: string | null;
+  resource: string | null;
+  codeChallenge: string | null;
+  codeChallengeMethod: string | null;
+  nonce: string | null;
+  expiresAt: string;
+  used: boolean;
+}
+
+export interface TokenRecord {
+  id: string;
+  /** Digest of the access token */
+  accessToken: string;
+  /** Digest of the refresh token, or null if none was issued */
+  refreshToken: string | null;
+  clientId: string;
+  userId: string | null;
+  userType: UserType | null;
+  scope: string | null;
+  resource: string | null;
+  grantType: string | null;
+  familyId: string | null;
+  /** Id of JWT access tokens */
+  jti: string | null;
+  expiresAt: string;
+  refreshExpiresAt: string;
+  revoked: boolean;
+  /** When the refresh token was exchanged for a new one */
+  rotatedAt: string | null;
+  /** When the rotated refresh token was first presented again */
+  replayedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewTokenRecord = Omit<
+  TokenRecord,
+  'id' | 'revoked' | 'rotatedAt' | 'replayedAt' | 'createdAt' | 'updatedAt'
+>;
+
+export interface GrantRecord {
+  id: string;
+  clientId: string;
+  userId: string;
+  userType: UserType;
+  scope: string | null;
+  revoked: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewGrantRecord = Pick<GrantRecord, 'clientId' | 'userId' | 'userType' | 'scope'>;
+
+export type DeviceCodeStatus = 'pending' | 'approved' | 'denied' | 'used';
+
+export interface DeviceCodeRecord {
+  id: string;
+  /** Digest of the device code */
+  deviceCode: string;
+  /** Digest of the user code, without its separator */
+  userCode: string;
+  clientId: string;
+  scope: string | null;
+  resource: string | null;
+  status: DeviceCodeStatus;
+  /** User who approved or denied the authorization */
+  userId: string | null;
+  userType: UserType | null;
+  /** Seconds the device must wait between polls */
+  interval: number;
+  lastPolledAt: string | null;
+  expiresAt: string;
+}
+
+export type NewDeviceCodeRecord = Pick<
+  DeviceCodeRecord,
+  'deviceCode' | 'userCode' | 'clientId' | 'scope' | 'resource' | 'interval' | 'expiresAt'
+>;
+
+/**
+ * A sign-in at the external identity provider, pending until it redirects back
+ */
+export interface FederationStateRecord {
+  /** Digest of the state parameter */
+  state: string;
+  /** Digest of the browser cookie of the browser that started the sign-in */
+  browser: string;
+  nonce: string;
+  codeVerifier: string;
+  /** The authorization request to continue once the user is signed in */
+  request: AuthorizationRequest;
+  expiresAt: string;
+}
+
+/**
+ * Selects tokens. Every set field must match.
+ */
+export interface TokenFilter {
+  clientId?: string;
+  familyId?: string;
+  userId?: string;
+  userType?: UserType;
+}
+
+/**
+ * Selects grants of a client or of a user. Every set field must match.
+ */
+export interface GrantFilter {
+  clientId?: string;
+  userId?: string;
+  userType?: UserType;
+}
+
+/**
+ * Records deleted by a purge, per kind
+ */
+export interface PurgeResult {
+  codes: number;
+  tokens: number;
+  deviceCodes: number;
+  federationStates: number;
+}
+
+export interface StorageAdapter {
+  saveCode(code: CodeRecord): Promise<void>;
+  /** Code by digest, used or not */
+  findCode(code: string): Promise<CodeRecord | null>;
+  /** Mark a code used. Returns false if it was already used, so a code is redeemed once. */
+  useCode(code: string): Promise<boolean>;
+
+  saveToken(token: NewTokenRecord): Promise<TokenRecord>;
+  /** Token by access token digest, including revoked ones */
+  findTokenByAccessToken(accessToken: string): Promise<TokenRecord | null>;
+  /** Token by refresh token digest, including revoked ones */
+  findTokenByRefreshToken(refreshToken: string): Promise<TokenRecord | null>;
+  /** Revoke one token. Returns false if it was already revoked or doesn't exist. */
+  revokeToken(id: string, rotatedAt?: string): Promise<boolean>;
+  /**
+   * Record that a rotated refresh token was presented again. Returns false if
+   * it already was, so only one replay is tolerated.
+   */
+  markTokenReplayed(id: string): Promise<boolean>;
+  /** Revoke the active tokens matching a filter. Returns the number revoked. */
+  revokeTokens(filter: TokenFilter): Promise<number>;
+  /** Tokens matching a filter that can still be used or refreshed, newest first */
+  listActiveTokens(filter: TokenFilter): Promise<TokenRecord[]>;
+  /** Ids of revoked JWT access tokens that have not expired yet */
+  listRevokedJtis(): Promise<string[]>;
+
+  /** Active grant of a user to a client */
+  findGrant(clientId: string, userId: string, userType: UserType): Promise<GrantRecord | null>;
+  /** Active grants of a client or of a user, most recently approved first */
+  listGrants(filter: GrantFilter): Promise<GrantRecord[]>;
+  saveGrant(grant: NewGrantRecord): Promise<GrantRecord>;
+  /** Change the scope of a grant, marking it approved now */
+  updateGrantScope(id: string, scope: string | null): Promise<GrantRecord | null>;
+  /** Revoke one grant. Returns the grant, or null if it doesn't exist. */
+  revokeGrant(id: string): Promise<GrantRecord | null>;
+  /** Revoke a user's active grants to a client. Returns the number revoked. */
+  revokeGrants(clientId: string, userId: string, userType: UserType): Promise<number>;
+
+  saveDeviceCode(deviceCode: NewDeviceCodeRecord): Promise<DeviceCodeRecord>;
+  /** Device authorization by device code digest, whatever its status */
+  findDeviceCode(deviceCode: string): Promise<DeviceCodeRecord | null>;
+  /** Pending device authorization by user code digest, expired or not */
+  findPendingDeviceCode(userCode: string): Promise<DeviceCodeRecord | null>;
+  /**
+   * Record the user's decision. Returns false unless the authorization was
+   * pending and unexpired, so it is decided once.
+   */
+  decideDeviceCode(
+    id: string,
+    status: 'approved' | 'denied',
+    userId: string,
+    userType: UserType
+  ): Promise<boolean>;
+  /** Record a poll of a pending authorization, and the interval for the next one */
+  updateDevicePoll(id: string, lastPolledAt: string, interval: number): Promise<void>;
+  /**
+   * Mark an approved authorization used. Returns false if it wasn't approved,
+   * so it is redeemed once.
+   */
+  useDeviceCode(id: string): Promise<boolean>;
+
+  saveFederationState(state: FederationStateRecord): Promise<void>;
+  /**
+   * Remove and return a pending sign-in by state digest, expired or not, if
+   * the browser digest matches. Another browser gets null and leaves the
+   * sign-in in place. Must succeed only once per sign-in.
+   */
+  takeFederationState(state: string, browser: string): Promise<FederationStateRecord | null>;
+
+  /**
+   * Delete expired codes, tokens, device authorizations and federated
+   * sign-ins, used device authorizations, and used codes and revoked tokens
+   * last changed before the cutoff
+   */
+  purge(cutoff: string): Promise<PurgeResult>;
+}
+
+export type StorageAdapterFactory = (context: { strapi: Core.Strapi }) => StorageAdapter;
+
+const ADAPTER_METHODS: (keyof StorageAdapter)[] = [
+  'saveCode',
+  'findCode',
+  'useCode',
+  'saveToken',
+  'findTokenByAccessToken',
+  'findTokenByRefreshToken',
+  'revokeToken',
+  'markTokenReplayed',
+  'revokeTokens',
+  'listActiveTokens',
+  'listRevokedJtis',
+  'findGrant',
+  'listGrants',
+  'saveGrant',
+  'updateGrantScope',
+  'revokeGrant',
+  'revokeGrants',
+  'saveDeviceCode',
+  'findDeviceCode',
+  'findPendingDeviceCode',
+  'decideDeviceCode',
+  'updateDevicePoll',
+  'useDeviceCode',
+  'saveFederationState',
+  'takeFederationState',
+  'purge',
+];
+
+/**
+ * Whether a value implements the adapter interface
+ */
+export function isStorageAdapter(value: unknown): value is StorageAdapter {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ADAPTER_METHODS.every((method) => typeof (value as any)[method] === 'function')
+  );
+}
+
+/**
+ * Whether a token matches every field set on the filter
+ */
+export function matchesTokenFilter(
+  token: Pick<TokenRecord, keyof TokenFilter>,
+  filter: TokenFilter
+): boolean {
+  return Object.entries(filter).every(
+    ([key, value]) => value === undefined || token[key as keyof TokenFilter] === value
+  );
+}
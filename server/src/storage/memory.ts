@@ -0,0 +1,313 @@
+/**
+ * In-memory storage
+ *
+ * Keeps codes, tokens, grants, device authorizations and federated sign-ins
+ * in the process. Nothing survives a restart and instances don't share state,
+ * so it suits development, tests and single instance deployments that accept
+ * signing users in again after a restart.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  matchesTokenFilter,
+  type CodeRecord,
+  type DeviceCodeRecord,
+  type FederationStateRecord,
+  type GrantFilter,
+  type GrantRecord,
+  type StorageAdapter,
+  type TokenRecord,
+} from './index';
+
+const byNewest = (a: { createdAt: string }, b: { createdAt: string }) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+export function createMemoryStorage(): StorageAdapter {
+  const codes = new Map<string, CodeRecord & { updatedAt: string }>();
+  const tokens = new Map<string, TokenRecord>();
+  const accessTokens = new Map<string, string>();
+  const refreshTokens = new Map<string, string>();
+  const grants = new Map<string, GrantRecord>();
+  const deviceCodes = new Map<string, DeviceCodeRecord>();
+  const federationStates = new Map<string, FederationStateRecord>();
+
+  const now = () => new Date().toISOString();
+  const copy = <T>(record: T | undefined): T | null => (record ? { ...record } : null);
+
+  const isActive = (token: TokenRecord, at: string) =>
+    !token.revoked && token.refreshExpiresAt > at;
+
+  const revoke = (token: TokenRecord, rotatedAt?: string) => {
+    token.revoked = true;
+    token.rotatedAt = rotatedAt ?? token.rotatedAt;
+    token.updatedAt = now();
+  };
+
+  const isActiveGrantOf = (grant: GrantRecord, filter: GrantFilter) =>
+    !grant.revoked &&
+    Object.entries(filter).every(
+      ([key, value]) => value === undefined || grant[key as keyof GrantFilter] === value
+    );
+
+  return {
+    async saveCode(code) {
+      codes.set(code.code, { ...code, updatedAt: now() });
+    },
+
+    async findCode(code) {
+      return copy(codes.get(code));
+    },
+
+    async useCode(code) {
+      const record = codes.get(code);
+      if (!record || record.used) {
+        return false;
+      }
+      record.used = true;
+      record.updatedAt = now();
+      return true;
+    },
+
+    async saveToken(token) {
+      const createdAt = now();
+      const record: TokenRecord = {
+        ...token,
+        id: randomUUID(),
+        revoked: false,
+        rotatedAt: null,
+        replayedAt: null,
+        createdAt,
+        updatedAt: createdAt,
+      };
+
+      tokens.set(record.id, record);
+      accessTokens.set(record.accessToken, record.id);
+      if (record.refreshToken) {
+        refreshTokens.set(record.refreshToken, record.id);
+      }
+      return { ...record };
+    },
+
+    async findTokenByAccessToken(accessToken) {
+      return copy(tokens.get(accessTokens.get(accessToken) ?? ''));
+    },
+
+    async findTokenByRefreshToken(refreshToken) {
+      return copy(tokens.get(refreshTokens.get(refreshToken) ?? ''));
+    },
+
+    async revokeToken(id, rotatedAt) {
+      const token = tokens.get(id);
+      if (!token || token.revoked) {
+        return false;
+      }
+      revoke(token, rotatedAt);
+      return true;
+    },
+
+    async markTokenReplayed(id) {
+      const token = tokens.get(id);
+      if (!token || token.replayedAt) {
+        return false;
+      }
+      token.replayedAt = now();
+      token.updatedAt = token.replayedAt;
+      return true;
+    },
+
+    async revokeTokens(filter) {
+      let count = 0;
+      for (const token of tokens.values()) {
+        if (!token.revoked && matchesTokenFilter(token, filter)) {
+          revoke(token);
+          count++;
+        }
+      }
+      return count;
+    },
+
+    async listActiveTokens(filter) {
+      const at = now();
+      return [...tokens.values()]
+        .filter((token) => isActive(token, at) && matchesTokenFilter(token, filter))
+        .sort(byNewest)
+        .map((token) => ({ ...token }));
+    },
+
+    async listRevokedJtis() {
+      const at = now();
+      return [...tokens.values()]
+        .filter((token) => token.revoked && token.jti && token.expiresAt > at)
+        .map((token) => token.jti!);
+    },
+
+    async findGrant(clientId, userId, userType) {
+      const grant = [...grants.values()].find((candidate) =>
+        isActiveGrantOf(candidate, { clientId, userId, userType })
+      );
+      return copy(grant);
+    },
+
+    async listGrants(filter) {
+      return [...grants.values()]
+        .filter((grant) => isActiveGrantOf(grant, filter))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map((grant) => ({ ...grant }));
+    },
+
+    async saveGrant(grant) {
+      const createdAt = now();
+      const record: GrantRecord = {
+        ...grant,
+        id: randomUUID(),
+        revoked: false,
+        createdAt,
+        updatedAt: createdAt,
+      };
+      grants.set(record.id, record);
+      return { ...record };
+    },
+
+    async updateGrantScope(id, scope) {
+      const grant = grants.get(id);
+      if (!grant) {
+        return null;
+      }
+      grant.scope = scope;
+      grant.updatedAt = now();
+      return { ...grant };
+    },
+
+    async revokeGrant(id) {
+      const grant = grants.get(id);
+      if (!grant) {
+        return null;
+      }
+      grant.revoked = true;
+      grant.updatedAt = now();
+      return { ...grant };
+    },
+
+    async revokeGrants(clientId, userId, userType) {
+      let count = 0;
+      for (const grant of grants.values()) {
+        if (isActiveGrantOf(grant, { clientId, userId, userType })) {
+          grant.revoked = true;
+          grant.updatedAt = now();
+          count++;
+        }
+      }
+      return count;
+    },
+
+    async saveDeviceCode(deviceCode) {
+      const record: DeviceCodeRecord = {
+        ...deviceCode,
+        id: randomUUID(),
+        status: 'pending',
+        userId: null,
+        userType: null,
+        lastPolledAt: null,
+      };
+      deviceCodes.set(record.id, record);
+      return { ...record };
+    },
+
+    async findDeviceCode(deviceCode) {
+      return copy([...deviceCodes.values()].find((record) => record.deviceCode === deviceCode));
+    },
+
+    async findPendingDeviceCode(userCode) {
+      return copy(
+        [...deviceCodes.values()].find(
+          (record) => record.userCode === userCode && record.status === 'pending'
+        )
+      );
+    },
+
+    async decideDeviceCode(id, status, userId, userType) {
+      const record = deviceCodes.get(id);
+      if (!record || record.status !== 'pending' || record.expiresAt <= now()) {
+        return false;
+      }
+      Object.assign(record, { status, userId, userType });
+      return true;
+    },
+
+    async updateDevicePoll(id, lastPolledAt, interval) {
+      const record = deviceCodes.get(id);
+      if (record) {
+        Object.assign(record, { lastPolledAt, interval });
+      }
+    },
+
+    async useDeviceCode(id) {
+      const record = deviceCodes.get(id);
+      if (!record || record.status !== 'approved') {
+        return false;
+      }
+      record.status = 'used';
+      return true;
+    },
+
+    async saveFederationState(state) {
+      federationStates.set(state.state, { ...state });
+    },
+
+    async takeFederationState(state, browser) {
+      const record = federationStates.get(state);
+      if (!record || record.browser !== browser) {
+        return null;
+      }
+      federationStates.delete(state);
+      return record;
+    },
+
+    async purge(cutoff) {
+      const at = now();
+      let codeCount = 0;
+      let tokenCount = 0;
+      let deviceCodeCount = 0;
+      let federationStateCount = 0;
+
+      for (const [key, code] of codes) {
+        if (code.expiresAt < at || (code.used && code.updatedAt < cutoff)) {
+          codes.delete(key);
+          codeCount++;
+        }
+      }
+
+      for (const [id, token] of tokens) {
+        if (token.refreshExpiresAt < at || (token.revoked && token.updatedAt < cutoff)) {
+          tokens.delete(id);
+          accessTokens.delete(token.accessToken);
+          if (token.refreshToken) {
+            refreshTokens.delete(token.refreshToken);
+          }
+          tokenCount++;
+        }
+      }
+
+      for (const [id, record] of deviceCodes) {
+        if (record.expiresAt < at || record.status === 'used') {
+          deviceCodes.delete(id);
+          deviceCodeCount++;
+        }
+      }
+
+      for (const [key, record] of federationStates) {
+        if (record.expiresAt < at) {
+          federationStates.delete(key);
+          federationStateCount++;
+        }
+      }
+
+      return {
+        codes: codeCount,
+        tokens: tokenCount,
+        deviceCodes: deviceCodeCount,
+        federationStates: federationStateCount,
+      };
+    },
+  };
+}
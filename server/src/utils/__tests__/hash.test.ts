@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { hashSecret, hashToken, verifySecret, verifyUnknownClientSecret } from '../hash';
+
+describe('hashToken', () => {
+  it('returns a stable SHA-256 hex digest', () => {
+    expect(hashToken('token')).toBe(hashToken('token'));
+    expect(hashToken('token')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('verifySecret', () => {
+  it('accepts the secret a hash was made from', async () => {
+    const stored = await hashSecret('secret');
+
+    expect(await verifySecret('secret', stored)).toBe(true);
+    expect(await verifySecret('other', stored)).toBe(false);
+  });
+
+  it('rejects secrets that are not non-empty strings', async () => {
+    const stored = await hashSecret('secret');
+
+    for (const secret of [undefined, null, '', 42, ['secret'], { secret: 'secret' }]) {
+      expect(await verifySecret(secret, stored)).toBe(false);
+    }
+  });
+
+  it('rejects stored values that are not hashes', async () => {
+    expect(await verifySecret('secret', 'secret')).toBe(false);
+    expect(await verifySecret('secret', null)).toBe(false);
+  });
+});
+
+describe('verifyUnknownClientSecret', () => {
+  it('resolves for any presented value', async () => {
+    for (const secret of ['secret', undefined, 42]) {
+      await expect(verifyUnknownClientSecret(secret)).resolves.toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { resolveRequestedScopes } from '../scopes';
+
+const SCOPES_CONFIG = {
+  transcripts: { paths: ['/api/yt-transcript-strapi-plugin/mcp'] },
+};
+
+const client = { allowedScopes: ['transcripts', 'retired'] };
+
+describe('resolveRequestedScopes', () => {
+  it('gives the client its supported allowed scopes without a scope parameter', () => {
+    expect(resolveRequestedScopes(client, undefined, SCOPES_CONFIG, { allowOidc: true })).toEqual({
+      scopes: ['transcripts'],
+      error: null,
+    });
+  });
+
+  it('rejects scopes the client is not allowed', () => {
+    const { scopes, error } = resolveRequestedScopes(client, 'transcripts mcp', SCOPES_CONFIG, {
+      allowOidc: true,
+    });
+
+    expect(scopes).toEqual([]);
+    expect(error).toBe('Scope not allowed for this client: mcp');
+  });
+
+  it('accepts OpenID Connect scopes only when allowed', () => {
+    expect(
+      resolveRequestedScopes(client, 'transcripts openid', SCOPES_CONFIG, { allowOidc: true })
+    ).toEqual({ scopes: ['transcripts', 'openid'], error: null });
+    expect(
+      resolveRequestedScopes(client, 'transcripts openid', SCOPES_CONFIG, { allowOidc: false })
+        .error
+    ).toBe('Scope not allowed for this client: openid');
+  });
+
+  it('fails when no allowed scope is supported any more', () => {
+    expect(
+      resolveRequestedScopes({ allowedScopes: ['retired'] }, '', SCOPES_CONFIG, {
+        allowOidc: true,
+      }).error
+    ).toBe('No scopes available for this client');
+  });
+});
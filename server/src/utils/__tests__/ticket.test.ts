@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createContext, createStrapi } from '../../__tests__/strapi';
+import {
+  BROWSER_COOKIE,
+  signBrowserTicket,
+  signTicket,
+  verifyBrowserTicket,
+  verifyTicket,
+} from '../ticket';
+
+const strapi = createStrapi();
+
+describe('signed tickets', () => {
+  it('round-trips the payload', () => {
+    expect(verifyTicket(strapi, signTicket(strapi, { a: 1 }, 60))).toEqual({ a: 1 });
+  });
+
+  it('rejects tampered and expired tickets', () => {
+    const [payload, signature] = signTicket(strapi, { a: 1 }, 60).split('.');
+    const forged = Buffer.from(JSON.stringify({ a: 2, exp: Date.now() + 60_000 })).toString(
+      'base64url'
+    );
+
+    expect(verifyTicket(strapi, `${forged}.${signature}`)).toBeNull();
+    expect(verifyTicket(strapi, `${payload}.x`)).toBeNull();
+    expect(verifyTicket(strapi, signTicket(strapi, { a: 1 }, -1))).toBeNull();
+  });
+});
+
+describe('browser tickets', () => {
+  it('sets an HttpOnly, SameSite=Lax cookie once', () => {
+    const ctx = createContext();
+
+    signBrowserTicket(ctx, strapi, { a: 1 }, 60);
+
+    expect(ctx.setCookies[BROWSER_COOKIE].options).toMatchObject({
+      httpOnly: true,
+      sameSite: 'lax',
+    });
+
+    const next = createContext({
+      cookies: { [BROWSER_COOKIE]: ctx.setCookies[BROWSER_COOKIE].value },
+    });
+    signBrowserTicket(next, strapi, { a: 1 }, 60);
+    expect(next.setCookies[BROWSER_COOKIE]).toBeUndefined();
+  });
+
+  it('is only accepted from the browser it was issued to', () => {
+    const issuing = createContext();
+    const ticket = signBrowserTicket(issuing, strapi, { a: 1 }, 60);
+    const nonce = issuing.setCookies[BROWSER_COOKIE].value;
+
+    const other = createContext();
+    signBrowserTicket(other, strapi, {}, 60);
+
+    expect(
+      verifyBrowserTicket(createContext({ cookies: { [BROWSER_COOKIE]: nonce } }), strapi, ticket)
+    ).toEqual({ a: 1 });
+    expect(verifyBrowserTicket(createContext(), strapi, ticket)).toBeNull();
+    expect(
+      verifyBrowserTicket(
+        createContext({ cookies: { [BROWSER_COOKIE]: other.setCookies[BROWSER_COOKIE].value } }),
+        strapi,
+        ticket
+      )
+    ).toBeNull();
+  });
+});
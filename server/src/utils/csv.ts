@@ -0,0 +1,31 @@
+/**
+ * CSV helpers for admin exports
+ */
+
+/**
+ * Quote a field when needed. Values that a spreadsheet would run as a
+ * formula are prefixed with a single quote.
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line, taking the given columns from each row
+ */
+export function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvField(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
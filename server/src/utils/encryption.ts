@@ -0,0 +1,78 @@
+/**
+ * AES-256-GCM encryption for sensitive values stored on OAuth clients
+ *
+ * Encrypted values are self-describing: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>
+ * The key id lets values written under a previous key be decrypted during rotation.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Derive a 256-bit key from the configured secret
+ */
+function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Short, non-reversible identifier for a key
+ */
+export function getKeyId(secret: string): string {
+  return createHash('sha256').update(`key-id:${secret}`).digest('hex').slice(0, 8);
+}
+
+/**
+ * Whether a stored value was produced by encrypt()
+ */
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+/**
+ * Key id an encrypted value was written with
+ */
+export function getValueKeyId(value: string): string {
+  return value.slice(PREFIX.length).split(':')[0];
+}
+
+/**
+ * Encrypt a plaintext value under the given key
+ */
+export function encrypt(plaintext: string, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return (
+    PREFIX +
+    [
+      getKeyId(secret),
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join(':')
+  );
+}
+
+/**
+ * Decrypt a value with whichever of the given keys it was written with
+ */
+export function decrypt(value: string, secrets: string[]): string {
+  const [keyId, iv, authTag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const secret = secrets.find((candidate) => getKeyId(candidate) === keyId);
+
+  if (!secret) {
+    throw new Error(`No encryption key configured for key id ${keyId}`);
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,53 @@
+/**
+ * OAuth Grant Types
+ *
+ * Clients without an allowedGrantTypes list use the interactive flow:
+ * authorization_code with refresh tokens. client_credentials must be
+ * enabled per client, and only for confidential clients. The device
+ * authorization grant (RFC 8628) must be enabled per client too.
+ */
+
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+export const GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+  DEVICE_CODE_GRANT_TYPE,
+] as const;
+
+export type GrantType = (typeof GRANT_TYPES)[number];
+
+export const DEFAULT_GRANT_TYPES: GrantType[] = ['authorization_code', 'refresh_token'];
+
+/**
+ * Whether a value is a grant type this server implements
+ */
+export function isGrantType(value: unknown): value is GrantType {
+  return GRANT_TYPES.includes(value as GrantType);
+}
+
+/**
+ * Grant types a client may use
+ */
+export function getClientGrantTypes(client: any): GrantType[] {
+  let allowed = client.allowedGrantTypes;
+  if (typeof allowed === 'string') {
+    try {
+      allowed = JSON.parse(allowed);
+    } catch {
+      allowed = null;
+    }
+  }
+
+  return Array.isArray(allowed) && allowed.length
+    ? allowed.filter(isGrantType)
+    : DEFAULT_GRANT_TYPES;
+}
+
+/**
+ * Whether a client may use a grant type
+ */
+export function isGrantTypeAllowed(client: any, grantType: GrantType): boolean {
+  return getClientGrantTypes(client).includes(grantType);
+}
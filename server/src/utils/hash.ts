@@ -0,0 +1,102 @@
+/**
+ * Hashing helpers for OAuth credentials at rest
+ *
+ * Codes and tokens are high-entropy random values, so a fast SHA-256 digest
+ * is enough and keeps them indexable for lookups. Client secrets may be
+ * chosen by admins, so they are stored with scrypt and a per-secret salt.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number }
+) => Promise<Buffer>;
+
+const SCRYPT_PREFIX = 'scrypt';
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 32;
+
+/**
+ * Hash of a random, discarded secret. Presented secrets of unknown clients are
+ * checked against it, so they take as long to reject as wrong secrets.
+ */
+const DUMMY_SECRET_HASH =
+  'scrypt$16384$8$1$_lftbLJV5Mp3YbF7Nu2hhg$zvRFPPVVnOshGxZAM5yP22aTtgTcH3kg_j-vA05tBJE';
+
+/**
+ * Generate a random opaque token (codes, access and refresh tokens)
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Digest used to store and look up codes and tokens
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(
+    createHash('sha256').update(a).digest(),
+    createHash('sha256').update(b).digest()
+  );
+}
+
+/**
+ * Whether a stored client secret is already hashed
+ */
+export function isHashedSecret(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(`${SCRYPT_PREFIX}$`);
+}
+
+/**
+ * Hash a client secret for storage: scrypt$N$r$p$salt$hash
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(secret, salt, SCRYPT_KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [SCRYPT_PREFIX, N, r, p, salt.toString('base64url'), derived.toString('base64url')].join(
+    '$'
+  );
+}
+
+/**
+ * Verify a presented client secret against its stored hash. Anything but a
+ * non-empty string is rejected.
+ */
+export async function verifySecret(
+  secret: unknown,
+  stored: string | null | undefined
+): Promise<boolean> {
+  if (typeof secret !== 'string' || !secret || !isHashedSecret(stored)) {
+    return false;
+  }
+
+  const [, N, r, p, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64url');
+  const derived = await scryptAsync(secret, Buffer.from(salt, 'base64url'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return timingSafeEqual(derived, expected);
+}
+
+/**
+ * Do the work of verifying a secret for a client that doesn't exist, so
+ * response times don't reveal which client_ids are registered
+ */
+export async function verifyUnknownClientSecret(secret: unknown): Promise<void> {
+  await verifySecret(secret, DUMMY_SECRET_HASH);
+}
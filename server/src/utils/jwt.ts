@@ -0,0 +1,106 @@
+/**
+ * Minimal JWS compact serialization for RS256 / ES256 signed JWTs (RFC 7515, RFC 7519)
+ */
+
+import { generateKeyPairSync, sign, verify, type KeyObject } from 'node:crypto';
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export const JWT_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'ES256'];
+
+export interface JwtHeader {
+  alg: JwtAlgorithm;
+  typ?: string;
+  kid?: string;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+const JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+/**
+ * ES256 signatures are the raw r||s pair, not DER (RFC 7518 Section 3.4)
+ */
+function signatureOptions(alg: JwtAlgorithm, key: KeyObject) {
+  return alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' as const } : key;
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Whether a bearer value has the shape of a JWT
+ */
+export function isJwt(token: string): boolean {
+  return JWT_PATTERN.test(token);
+}
+
+/**
+ * Generate a key pair for the given algorithm
+ */
+export function generateSigningKeyPair(alg: JwtAlgorithm) {
+  return alg === 'ES256'
+    ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : generateKeyPairSync('rsa', { modulusLength: 2048 });
+}
+
+/**
+ * Sign a payload
+ */
+export function signJwt(
+  payload: Record<string, any>,
+  header: JwtHeader,
+  privateKey: KeyObject
+): string {
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), signatureOptions(header.alg, privateKey));
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Split and parse a JWT without verifying it. Returns null if it is malformed.
+ */
+export function decodeJwt(token: string): DecodedJwt | null {
+  if (!isJwt(token)) {
+    return null;
+  }
+
+  const [header, payload, signature] = token.split('.');
+  try {
+    return {
+      header: JSON.parse(Buffer.from(header, 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')),
+      signingInput: `${header}.${payload}`,
+      signature: Buffer.from(signature, 'base64url'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the signature of a decoded JWT with a public key
+ */
+export function verifyJwtSignature(decoded: DecodedJwt, publicKey: KeyObject): boolean {
+  const { alg } = decoded.header;
+  if (!JWT_ALGORITHMS.includes(alg)) {
+    return false;
+  }
+
+  try {
+    return verify(
+      'sha256',
+      Buffer.from(decoded.signingInput),
+      signatureOptions(alg, publicKey),
+      decoded.signature
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * OpenID Connect claims
+ *
+ * Standard claims about the user (OpenID Connect Core Section 5.1), released
+ * in id_tokens and at the userinfo endpoint by the scopes the user approved.
+ */
+
+import type { McpUser } from '../services/authorization';
+
+/**
+ * Claims this server can return, for the openid-configuration document
+ */
+export const CLAIMS_SUPPORTED = [
+  'sub',
+  'iss',
+  'aud',
+  'exp',
+  'iat',
+  'nonce',
+  'email',
+  'email_verified',
+  'name',
+  'preferred_username',
+  'updated_at',
+];
+
+/**
+ * Claims about a user covered by the granted scopes
+ */
+export function buildUserClaims(
+  user: McpUser,
+  record: any,
+  scopes: string[]
+): Record<string, unknown> {
+  const claims: Record<string, unknown> = { sub: user.id };
+
+  if (scopes.includes('email')) {
+    claims.email = user.email;
+    // Admin users are invited by email; Users & Permissions users confirm theirs
+    claims.email_verified = user.type === 'admin' || record.confirmed === true;
+  }
+
+  if (scopes.includes('profile')) {
+    const name = [record.firstname, record.lastname].filter(Boolean).join(' ');
+    if (name) {
+      claims.name = name;
+    }
+    if (user.username) {
+      claims.preferred_username = user.username;
+    }
+    if (record.updatedAt) {
+      claims.updated_at = Math.floor(new Date(record.updatedAt).getTime() / 1000);
+    }
+  }
+
+  return claims;
+}
@@ -0,0 +1,98 @@
+/**
+ * Rate limit counters
+ *
+ * Fixed-window hit counters behind a small store interface. The in-memory
+ * store is per process; deployments with several instances can plug in a
+ * shared store (e.g. Redis) with rateLimit.store.
+ */
+
+export interface RateLimitEntry {
+  count: number;
+  /** Epoch milliseconds when the window ends */
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /** Count a hit for the key, starting a new window of windowMs if the last one ended */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Current window of the key, or null if none is open */
+  get(key: string): Promise<RateLimitEntry | null>;
+  /** Forget the key */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * How often expired windows are swept from the in-memory store
+ */
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Whether a configured value implements the store interface
+ */
+export function isRateLimitStore(value: unknown): value is RateLimitStore {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ['increment', 'get', 'reset'].every((method) => typeof (value as any)[method] === 'function')
+  );
+}
+
+/**
+ * Process-local store. Expired windows are swept while it is in use.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitEntry>();
+  let sweptAt = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - sweptAt < SWEEP_INTERVAL) {
+      return;
+    }
+    for (const [key, entry] of windows) {
+      if (entry.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+    sweptAt = now;
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      sweep(now);
+
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+      entry.count += 1;
+
+      return { ...entry };
+    },
+
+    async get(key) {
+      const entry = windows.get(key);
+      return entry && entry.resetAt > Date.now() ? { ...entry } : null;
+    },
+
+    async reset(key) {
+      windows.delete(key);
+    },
+  };
+}
+
+/**
+ * Seconds until a window ends, for the Retry-After header
+ */
+export function getRetryAfter(entry: RateLimitEntry): number {
+  return Math.max(1, Math.ceil((entry.resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Answer 429 Too Many Requests with a Retry-After header. The caller sets the body.
+ */
+export function setTooManyRequests(ctx: any, retryAfter: number) {
+  ctx.status = 429;
+  ctx.set('Retry-After', String(retryAfter));
+}
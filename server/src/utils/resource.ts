@@ -0,0 +1,90 @@
+/**
+ * Resource Indicators (RFC 8707)
+ *
+ * Each MCP endpoint (declared in the registry, or /api/{plugin}/mcp by
+ * convention) is a protected resource of its own.
+ * The /api root stands for all of them: it is the audience of tokens
+ * requested without a resource parameter.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { PluginConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+import { getBaseUrl, getResource } from './url';
+
+const MCP_ENDPOINT_PREFIX = /^\/api\/[^/]+\/mcp(?=\/|$)/;
+
+/**
+ * Compile the configured MCP endpoint pattern.
+ * By convention any route matching /api/{plugin}/mcp is protected.
+ */
+export function getMcpEndpointPattern(strapi: Core.Strapi): RegExp {
+  const pattern = strapi
+    .plugin(PLUGIN_ID)
+    .config<PluginConfig['mcpEndpointPattern']>('mcpEndpointPattern');
+  return pattern instanceof RegExp ? pattern : new RegExp(pattern);
+}
+
+/**
+ * Path of the conventional MCP endpoint a request path belongs to,
+ * e.g. /api/my-plugin/mcp for /api/my-plugin/mcp/sse
+ */
+export function getMcpEndpointPath(path: string): string {
+  return path.match(MCP_ENDPOINT_PREFIX)?.[0] ?? path.replace(/\/+$/, '');
+}
+
+/**
+ * Resource identifier of the MCP endpoint a request path belongs to
+ */
+export function getResourceForPath(ctx: any, strapi: Core.Strapi, path: string): string {
+  const match = strapi.plugin(PLUGIN_ID).service('registry').resolve(path);
+  return `${getBaseUrl(ctx, strapi)}${match?.endpoint.path ?? getMcpEndpointPath(path)}`;
+}
+
+/**
+ * Audiences accepted on the requested MCP endpoint: the endpoint itself and the /api root
+ */
+export function getAcceptedAudiences(ctx: any, strapi: Core.Strapi): string[] {
+  return [getResource(ctx, strapi), getResourceForPath(ctx, strapi, ctx.path)];
+}
+
+/**
+ * Validate the resource parameter of an authorization or token request.
+ * Returns the normalized resource (null when absent), or an invalid_target description.
+ */
+export function parseResource(
+  value: unknown,
+  ctx: any,
+  strapi: Core.Strapi
+): { resource?: string | null; error?: string } {
+  if (value === undefined || value === '') {
+    return { resource: null };
+  }
+
+  if (Array.isArray(value)) {
+    return { error: 'Only one resource can be requested' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value as string);
+  } catch {
+    return { error: 'resource must be an absolute URI' };
+  }
+
+  if (url.search || url.hash) {
+    return { error: 'resource must not contain a query or fragment' };
+  }
+
+  const resource = `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  if (resource === getResource(ctx, strapi)) {
+    return { resource };
+  }
+
+  const match = strapi.plugin(PLUGIN_ID).service('registry').resolve(url.pathname);
+  const isMcpEndpoint =
+    url.origin === new URL(getBaseUrl(ctx, strapi)).origin &&
+    match?.endpoint.path === url.pathname.replace(/\/+$/, '');
+
+  return isMcpEndpoint ? { resource } : { error: `Unknown resource: ${value}` };
+}
@@ -0,0 +1,165 @@
+/**
+ * OAuth Scopes
+ *
+ * Scopes map to MCP endpoints by path prefix. The built-in `mcp` scope
+ * grants access to every MCP endpoint and is the default for clients
+ * without an explicit allowedScopes list.
+ */
+
+export const DEFAULT_SCOPE = 'mcp';
+
+/**
+ * OpenID Connect scopes. Any client may request them for a user; they
+ * grant no MCP access, only an id_token and claims at the userinfo endpoint.
+ */
+export const OIDC_SCOPES = ['openid', 'profile', 'email'];
+
+const OIDC_SCOPE_DESCRIPTIONS: Record<string, string> = {
+  openid: 'Confirm your identity',
+  profile: 'Read your name and username',
+  email: 'Read your email address',
+};
+
+export interface ScopeDefinition {
+  description?: string;
+  /**
+   * Path prefixes unlocked by this scope, e.g. /api/yt-transcript-strapi-plugin/mcp
+   */
+  paths: string[];
+}
+
+export type ScopesConfig = Record<string, ScopeDefinition>;
+
+/**
+ * Parse a space-delimited scope string (or array) into unique scope names
+ */
+export function parseScope(scope: unknown): string[] {
+  const values = Array.isArray(scope) ? scope : typeof scope === 'string' ? scope.split(' ') : [];
+  return [...new Set(values.filter((value): value is string => typeof value === 'string' && !!value))];
+}
+
+/**
+ * Format scopes as the space-delimited string used on the wire and in storage
+ */
+export function formatScope(scopes: string[]): string {
+  return scopes.join(' ');
+}
+
+/**
+ * All scopes this server knows about
+ */
+export function getSupportedScopes(scopesConfig: ScopesConfig): string[] {
+  return [DEFAULT_SCOPE, ...Object.keys(scopesConfig).filter((scope) => scope !== DEFAULT_SCOPE)];
+}
+
+/**
+ * Scopes a client may request. Clients without allowedScopes get full MCP access.
+ */
+export function getClientScopes(client: any): string[] {
+  let allowed = client.allowedScopes;
+  if (typeof allowed === 'string') {
+    try {
+      allowed = JSON.parse(allowed);
+    } catch {
+      // Fall back to treating it as a space-delimited list
+    }
+  }
+
+  const scopes = parseScope(allowed);
+  return scopes.length ? scopes : [DEFAULT_SCOPE];
+}
+
+/**
+ * Scopes a client may request that the server still supports
+ */
+export function getAllowedScopes(client: any, scopesConfig: ScopesConfig): string[] {
+  const supportedScopes = getSupportedScopes(scopesConfig);
+  return getClientScopes(client).filter((name) => supportedScopes.includes(name));
+}
+
+/**
+ * Validate the scope parameter of a request against the client's allowed
+ * scopes. Without a scope parameter the client gets everything it is allowed.
+ * OpenID Connect scopes are open to every client, but only with allowOidc, in
+ * flows that issue tokens for a user. Returns the scopes, or an error
+ * description for an invalid_scope response.
+ */
+export function resolveRequestedScopes(
+  client: any,
+  scope: unknown,
+  scopesConfig: ScopesConfig,
+  { allowOidc }: { allowOidc: boolean }
+): { scopes: string[]; error: string | null } {
+  const allowedScopes = getAllowedScopes(client, scopesConfig);
+  const scopes = scope ? parseScope(scope) : allowedScopes;
+  const invalidScopes = scopes.filter(
+    (name) => !allowedScopes.includes(name) && !(allowOidc && OIDC_SCOPES.includes(name))
+  );
+
+  if (invalidScopes.length) {
+    return { scopes: [], error: `Scope not allowed for this client: ${invalidScopes.join(' ')}` };
+  }
+  if (!scopes.length) {
+    return { scopes, error: 'No scopes available for this client' };
+  }
+  return { scopes, error: null };
+}
+
+/**
+ * Scopes stored on a code or token. Records created before scopes existed have full access.
+ */
+export function getGrantedScopes(record: any): string[] {
+  const scopes = parseScope(record.scope);
+  return scopes.length ? scopes : [DEFAULT_SCOPE];
+}
+
+/**
+ * Check whether previously granted scopes cover all requested scopes.
+ * The `mcp` scope covers every MCP scope, but not the OpenID Connect ones.
+ */
+export function coversScopes(granted: string[], requested: string[]): boolean {
+  return requested.every(
+    (scope) =>
+      granted.includes(scope) || (granted.includes(DEFAULT_SCOPE) && !OIDC_SCOPES.includes(scope))
+  );
+}
+
+/**
+ * Whether a path equals a prefix path or is below it
+ */
+export function matchesPathPrefix(path: string, prefix: string): boolean {
+  const normalized = prefix.replace(/\/+$/, '');
+  return path === normalized || path.startsWith(`${normalized}/`);
+}
+
+/**
+ * Scopes that unlock the given MCP path
+ */
+export function getScopesForPath(path: string, scopesConfig: ScopesConfig): string[] {
+  const scopes = Object.entries(scopesConfig)
+    .filter(([, definition]) => definition.paths?.some((prefix) => matchesPathPrefix(path, prefix)))
+    .map(([scope]) => scope);
+
+  return [DEFAULT_SCOPE, ...scopes];
+}
+
+/**
+ * Check whether granted scopes allow access to the given MCP path
+ */
+export function hasScopeForPath(
+  granted: string[],
+  path: string,
+  scopesConfig: ScopesConfig
+): boolean {
+  return getScopesForPath(path, scopesConfig).some((scope) => granted.includes(scope));
+}
+
+/**
+ * Human-readable description for the consent screen
+ */
+export function describeScope(scope: string, scopesConfig: ScopesConfig): string | undefined {
+  if (scope === DEFAULT_SCOPE) {
+    return 'Access all MCP endpoints';
+  }
+  return OIDC_SCOPE_DESCRIPTIONS[scope] ?? scopesConfig[scope]?.description;
+}
@@ -0,0 +1,126 @@
+/**
+ * Signed Tickets
+ *
+ * Short-lived, HMAC-signed payloads used to carry a validated authorization
+ * request between the login and consent steps without server-side sessions.
+ * Browser tickets also carry a nonce from an HttpOnly cookie, so a ticket
+ * copied out of a page can't be used from another browser.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { PLUGIN_ID } from '../pluginId';
+
+export const BROWSER_COOKIE = 'mcp_oauth_browser';
+
+/**
+ * Derive the signing key from the application keys so tickets work
+ * across every instance of the same Strapi deployment.
+ */
+function getSigningKey(strapi: Core.Strapi): Buffer {
+  const appKeys = strapi.config.get('server.app.keys') as string[] | undefined;
+  if (!appKeys?.length) {
+    throw new Error(`[${PLUGIN_ID}] server.app.keys must be configured to sign OAuth tickets`);
+  }
+  return createHmac('sha256', appKeys[0]).update(`${PLUGIN_ID}:ticket`).digest();
+}
+
+function sign(strapi: Core.Strapi, encodedPayload: string): string {
+  return createHmac('sha256', getSigningKey(strapi)).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Sign a payload that expires after ttlSeconds
+ */
+export function signTicket<T extends object>(strapi: Core.Strapi, payload: T, ttlSeconds: number): string {
+  const encodedPayload = Buffer.from(
+    JSON.stringify({ ...payload, exp: Date.now() + ttlSeconds * 1000 })
+  ).toString('base64url');
+  return `${encodedPayload}.${sign(strapi, encodedPayload)}`;
+}
+
+/**
+ * Verify a ticket and return its payload, or null if tampered or expired
+ */
+export function verifyTicket<T extends object>(strapi: Core.Strapi, ticket: unknown): T | null {
+  if (typeof ticket !== 'string') {
+    return null;
+  }
+
+  const [encodedPayload, signature] = ticket.split('.');
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(strapi, encodedPayload));
+  const presented = Buffer.from(signature);
+  if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) {
+    return null;
+  }
+
+  try {
+    const { exp, ...payload } = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    return typeof exp === 'number' && exp > Date.now() ? (payload as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The browser's nonce from its cookie, or null if it has none
+ */
+export function readBrowserNonce(ctx: any): string | null {
+  const nonce = ctx.cookies.get(BROWSER_COOKIE);
+  return typeof nonce === 'string' && /^[A-Za-z0-9_-]{43}$/.test(nonce) ? nonce : null;
+}
+
+/**
+ * The browser's nonce, set in an HttpOnly, SameSite=Lax cookie on first use
+ */
+export function getBrowserNonce(ctx: any): string {
+  const existing = readBrowserNonce(ctx);
+  if (existing) {
+    return existing;
+  }
+
+  const nonce = randomBytes(32).toString('base64url');
+  ctx.cookies.set(BROWSER_COOKIE, nonce, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: ctx.request.secure === true,
+    path: `/api/${PLUGIN_ID}/oauth`,
+    overwrite: true,
+  });
+  return nonce;
+}
+
+/**
+ * Sign a payload that is only accepted from the browser of the current request
+ */
+export function signBrowserTicket<T extends object>(
+  ctx: any,
+  strapi: Core.Strapi,
+  payload: T,
+  ttlSeconds: number
+): string {
+  return signTicket(strapi, { ...payload, browser: getBrowserNonce(ctx) }, ttlSeconds);
+}
+
+/**
+ * Verify a browser ticket and return its payload, or null if tampered, expired
+ * or presented by another browser
+ */
+export function verifyBrowserTicket<T extends object>(
+  ctx: any,
+  strapi: Core.Strapi,
+  ticket: unknown
+): T | null {
+  const payload = verifyTicket<T & { browser?: unknown }>(strapi, ticket);
+  const nonce = readBrowserNonce(ctx);
+  if (!payload || !nonce || payload.browser !== nonce) {
+    return null;
+  }
+
+  const { browser, ...rest } = payload;
+  return rest as T;
+}
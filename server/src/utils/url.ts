@@ -0,0 +1,41 @@
+/**
+ * Public base URL resolution
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { PluginConfig } from '../config';
+import { PLUGIN_ID } from '../pluginId';
+
+/**
+ * Build the base URL of the Strapi server.
+ * Uses the configured baseUrl, then request headers (supports ngrok/proxies),
+ * then server.url, then fallbackBaseUrl.
+ */
+export function getBaseUrl(ctx: any, strapi: Core.Strapi): string {
+  const plugin = strapi.plugin(PLUGIN_ID);
+  const baseUrl = plugin.config<PluginConfig['baseUrl']>('baseUrl');
+  if (baseUrl) {
+    return baseUrl.replace(/\/+$/, '');
+  }
+
+  const forwardedProto = ctx.request.headers['x-forwarded-proto'] || ctx.protocol;
+  const forwardedHost = ctx.request.headers['x-forwarded-host'] || ctx.request.headers['host'];
+  const serverUrl =
+    (strapi.config.get('server.url') as string) ||
+    plugin.config<PluginConfig['fallbackBaseUrl']>('fallbackBaseUrl');
+  return forwardedHost ? `${forwardedProto}://${forwardedHost}` : serverUrl;
+}
+
+/**
+ * Issuer identifier of the authorization server (RFC 8414)
+ */
+export function getIssuer(ctx: any, strapi: Core.Strapi): string {
+  return `${getBaseUrl(ctx, strapi)}/api/${PLUGIN_ID}`;
+}
+
+/**
+ * Identifier of the protected MCP resource, used as the access token audience
+ */
+export function getResource(ctx: any, strapi: Core.Strapi): string {
+  return `${getBaseUrl(ctx, strapi)}/api`;
+}
@@ -0,0 +1,57 @@
+import { escapeHtml, renderLayout } from './layout';
+
+export interface ConsentPageOptions {
+  action: string;
+  ticket: string;
+  clientName: string;
+  clientDescription?: string | null;
+  scopes: { name: string; description?: string }[];
+  /** MCP endpoint the access is limited to, if the client requested one */
+  resourceName?: string | null;
+  userLabel: string;
+  /** User code of a device authorization, for the user to compare with their device */
+  userCode?: string;
+}
+
+/**
+ * Consent screen listing the client and the scopes it requests
+ */
+export function renderConsentPage(options: ConsentPageOptions): string {
+  const {
+    action,
+    ticket,
+    clientName,
+    clientDescription,
+    scopes,
+    resourceName,
+    userLabel,
+    userCode,
+  } = options;
+
+  const scopeList = scopes.length
+    ? `<ul>${scopes
+        .map(
+          ({ name, description }) =>
+            `<li><code>${escapeHtml(name)}</code>${description ? ` ${escapeHtml(description)}` : ''}</li>`
+        )
+        .join('')}</ul>`
+    : '<ul><li>Access the MCP tools available to this application</li></ul>';
+
+  return renderLayout(
+    'Authorize access',
+    `
+    <h1>Authorize ${escapeHtml(clientName)}</h1>
+    ${clientDescription ? `<p>${escapeHtml(clientDescription)}</p>` : ''}
+    <p>Signed in as <strong>${escapeHtml(userLabel)}</strong>. This application is requesting:</p>
+    ${scopeList}
+    ${resourceName ? `<p>Access is limited to <strong>${escapeHtml(resourceName)}</strong>.</p>` : ''}
+    ${userCode ? `<p>Only approve if your device shows the code <strong>${escapeHtml(userCode)}</strong>.</p>` : ''}
+    <form method="post" action="${escapeHtml(action)}">
+      <input type="hidden" name="ticket" value="${escapeHtml(ticket)}">
+      <div class="actions">
+        <button type="submit" name="decision" value="deny" class="secondary">Deny</button>
+        <button type="submit" name="decision" value="approve">Approve</button>
+      </div>
+    </form>`
+  );
+}
@@ -0,0 +1,46 @@
+import { escapeHtml, renderLayout } from './layout';
+
+export interface DeviceCodePageOptions {
+  action: string;
+  userCode?: string;
+  error?: string;
+}
+
+/**
+ * Form where the user enters the code shown on their device
+ */
+export function renderDeviceCodePage(options: DeviceCodePageOptions): string {
+  const { action, userCode, error } = options;
+
+  return renderLayout(
+    'Connect a device',
+    `
+    <h1>Connect a device</h1>
+    <p>Enter the code shown on your device or in your terminal.</p>
+    ${error ? `<div class="error" role="alert">${escapeHtml(error)}</div>` : ''}
+    <form method="post" action="${escapeHtml(action)}">
+      <label for="user_code">Code</label>
+      <input id="user_code" name="user_code" type="text" autocomplete="off" autocapitalize="characters" spellcheck="false" required autofocus value="${escapeHtml(userCode)}">
+      <div class="actions">
+        <button type="submit">Continue</button>
+      </div>
+    </form>`
+  );
+}
+
+/**
+ * Shown once the user approved or denied a device
+ */
+export function renderDeviceDonePage(clientName: string, approved: boolean): string {
+  const title = approved ? 'Device connected' : 'Access denied';
+  const message = approved
+    ? `${clientName} can now access your account. Return to your device to continue.`
+    : `${clientName} was not given access. You can close this window.`;
+
+  return renderLayout(
+    title,
+    `
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>`
+  );
+}
@@ -0,0 +1,13 @@
+import { escapeHtml, renderLayout } from './layout';
+
+/**
+ * Generic error page for the interactive OAuth screens
+ */
+export function renderErrorPage(title: string, message: string): string {
+  return renderLayout(
+    title,
+    `
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>`
+  );
+}
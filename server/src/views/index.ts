@@ -0,0 +1,5 @@
+export { renderConsentPage } from './consent';
+export { renderDeviceCodePage, renderDeviceDonePage } from './device';
+export { renderErrorPage } from './error';
+export { escapeHtml, renderLayout, sendHtml } from './layout';
+export { renderLoginPage } from './login';
@@ -0,0 +1,82 @@
+/**
+ * HTML Layout
+ *
+ * Minimal, dependency-free page shell for the interactive OAuth screens.
+ */
+
+/**
+ * Escape a value for safe interpolation into HTML text and attributes
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    background: #f6f6f9; color: #32324d; }
+  main { width: 100%; max-width: 420px; margin: 24px; padding: 32px; background: #fff;
+    border-radius: 8px; box-shadow: 0 1px 4px rgba(33, 33, 52, 0.1); }
+  h1 { margin: 0 0 8px; font-size: 20px; }
+  p { margin: 0 0 16px; line-height: 1.5; color: #666687; }
+  label { display: block; margin-bottom: 4px; font-size: 12px; font-weight: 600; }
+  input[type=email], input[type=password], input[type=text] { width: 100%; margin-bottom: 16px;
+    padding: 10px 12px; border: 1px solid #dcdce4; border-radius: 4px; font-size: 14px; }
+  ul { margin: 0 0 16px; padding-left: 20px; }
+  li { margin-bottom: 4px; }
+  code { padding: 1px 4px; background: #f6f6f9; border-radius: 4px; }
+  .error { padding: 10px 12px; margin-bottom: 16px; border: 1px solid #f5c0b8; border-radius: 4px;
+    background: #fcecea; color: #b72b1a; }
+  .actions { display: flex; gap: 8px; }
+  button { flex: 1; padding: 10px 16px; border: 1px solid #4945ff; border-radius: 4px;
+    background: #4945ff; color: #fff; font-size: 14px; font-weight: 600; cursor: pointer; }
+  button.secondary { border-color: #dcdce4; background: #fff; color: #32324d; }
+`;
+
+/**
+ * Render a complete HTML document
+ */
+export function renderLayout(title: string, content: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <main>
+${content}
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Send an HTML page with headers that keep it out of caches and frames.
+ * formTargets lists extra origins the page's forms may redirect to.
+ */
+export function sendHtml(ctx: any, html: string, formTargets: string[] = []) {
+  ctx.type = 'text/html; charset=utf-8';
+  ctx.set('Cache-Control', 'no-store');
+  ctx.set('X-Frame-Options', 'DENY');
+  ctx.set(
+    'Content-Security-Policy',
+    [
+      "default-src 'none'",
+      "style-src 'unsafe-inline'",
+      `form-action 'self' ${formTargets.join(' ')}`.trim(),
+      "frame-ancestors 'none'",
+      "base-uri 'none'",
+    ].join('; ')
+  );
+  ctx.body = html;
+}
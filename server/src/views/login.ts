@@ -0,0 +1,35 @@
+import { escapeHtml, renderLayout } from './layout';
+
+export interface LoginPageOptions {
+  action: string;
+  ticket: string;
+  clientName: string;
+  accountLabel: string;
+  email?: string;
+  error?: string;
+}
+
+/**
+ * Login form shown before the consent screen
+ */
+export function renderLoginPage(options: LoginPageOptions): string {
+  const { action, ticket, clientName, accountLabel, email, error } = options;
+
+  return renderLayout(
+    'Sign in',
+    `
+    <h1>Sign in</h1>
+    <p><strong>${escapeHtml(clientName)}</strong> is requesting access. Sign in with your ${escapeHtml(accountLabel)} to continue.</p>
+    ${error ? `<div class="error" role="alert">${escapeHtml(error)}</div>` : ''}
+    <form method="post" action="${escapeHtml(action)}">
+      <input type="hidden" name="ticket" value="${escapeHtml(ticket)}">
+      <label for="email">Email</label>
+      <input id="email" name="email" type="email" autocomplete="username" required autofocus value="${escapeHtml(email)}">
+      <label for="password">Password</label>
+      <input id="password" name="password" type="password" autocomplete="current-password" required>
+      <div class="actions">
+        <button type="submit">Sign in</button>
+      </div>
+    </form>`
+  );
+}